@@ -0,0 +1,63 @@
+/**
+ * @fileoverview
+ * Shared CLI options for browser context settings.
+ *
+ * @remarks
+ * Both `scan` and `crawl` accept the same browser flags; this module declares
+ * them once and converts the parsed values into {@link BrowserSettings}.
+ */
+import { Command } from "commander";
+import type { BrowserSettings } from "../recon/browser";
+
+/**
+ * Raw browser flag values as parsed by Commander.
+ */
+export type BrowserFlags = {
+  viewport?: { width: number; height: number };
+  locale?: string;
+  userAgent?: string;
+  device?: string;
+};
+
+/**
+ * Parses a `WIDTHxHEIGHT` viewport flag.
+ *
+ * @param raw - Raw flag value (e.g. `1280x800`).
+ * @returns Viewport size in CSS pixels.
+ */
+export function parseViewport(raw: string): { width: number; height: number } {
+  const m = /^(\d+)x(\d+)$/i.exec(raw.trim());
+  if (!m || Number(m[1]) === 0 || Number(m[2]) === 0) {
+    throw new Error(`--viewport must be WIDTHxHEIGHT, e.g. 1280x800 (got "${raw}")`);
+  }
+  return { width: Number(m[1]), height: Number(m[2]) };
+}
+
+/**
+ * Adds the browser flags to a command.
+ *
+ * @param command - Command to extend.
+ * @returns The same command, for chaining.
+ */
+export function addBrowserOptions(command: Command): Command {
+  return command
+    .option("--viewport <size>", "Viewport size WIDTHxHEIGHT (e.g. 1280x800)", parseViewport)
+    .option("--locale <locale>", "Browser locale (e.g. de-DE)")
+    .option("--user-agent <ua>", "User agent string")
+    .option("--device <name>", 'Emulate a Playwright device preset (e.g. "iPhone 13")');
+}
+
+/**
+ * Converts parsed browser flags into {@link BrowserSettings}.
+ *
+ * @param flags - Parsed flag values.
+ * @returns Browser settings for the scanner.
+ */
+export function resolveBrowserSettings(flags: BrowserFlags): BrowserSettings {
+  return {
+    viewport: flags.viewport,
+    locale: flags.locale,
+    userAgent: flags.userAgent,
+    device: flags.device,
+  };
+}
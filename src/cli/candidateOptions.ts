@@ -0,0 +1,75 @@
+/**
+ * @fileoverview
+ * Shared CLI options controlling which elements the scanner records and how.
+ *
+ * @remarks
+ * Both `scan` and `crawl` accept the same flags; this module declares them
+ * once and converts the parsed values into {@link PageScanOptions} fields.
+ */
+import { Command } from "commander";
+import { loadPlugins } from "../config/loadPlugins";
+import type { ReconPlugin } from "../recon/plugins";
+import type { PageScanOptions } from "../recon/scanPage";
+
+/**
+ * Raw candidate flag values as parsed by Commander.
+ */
+export type CandidateFlags = {
+  a11yTree: boolean;
+  eventListeners: boolean;
+  explore: boolean;
+  testIdAttribute: string[];
+  includeSelector: string[];
+  excludeSelector: string[];
+  // Module paths, or plugin objects when set from recon.config.ts
+  plugin: (string | ReconPlugin)[];
+};
+
+/**
+ * Accumulates repeatable option values.
+ *
+ * @param value - Current value.
+ * @param previous - Values collected so far.
+ * @returns All values.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Adds the candidate flags to a command.
+ *
+ * @param command - Command to extend.
+ * @returns The same command, for chaining.
+ */
+export function addCandidateOptions(command: Command): Command {
+  return command
+    .option("--a11y-tree", "Take roles and accessible names from the browser's accessibility tree", false)
+    .option("--event-listeners", "Detect click/pointer/key listeners over CDP, not just onclick", false)
+    .option("--explore", "Open menus, tabs and disclosures to record the elements they reveal", false)
+    .option("--test-id-attribute <name>", "Attribute holding test ids, in priority order (repeatable)", collect, [])
+    .option("--include-selector <css>", "Always record visible elements matching this selector (repeatable)", collect, [])
+    .option("--exclude-selector <css>", "Never record elements inside this selector (repeatable)", collect, [])
+    .option("--plugin <module>", "Load a recon plugin module (repeatable)", collect, []);
+}
+
+/**
+ * Converts parsed candidate flags into scan options.
+ *
+ * @param flags - Parsed flag values.
+ * @returns The corresponding {@link PageScanOptions} fields.
+ * @throws If a plugin cannot be loaded.
+ */
+export function resolveCandidateOptions(
+  flags: CandidateFlags
+): Pick<PageScanOptions, "accessibilityTree" | "eventListeners" | "explore" | "testIdAttributes" | "includeSelectors" | "excludeSelectors" | "plugins"> {
+  return {
+    accessibilityTree: flags.a11yTree,
+    eventListeners: flags.eventListeners,
+    explore: flags.explore,
+    testIdAttributes: flags.testIdAttribute.length ? flags.testIdAttribute : undefined,
+    includeSelectors: flags.includeSelector,
+    excludeSelectors: flags.excludeSelector,
+    plugins: loadPlugins(flags.plugin),
+  };
+}
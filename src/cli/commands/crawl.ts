@@ -0,0 +1,115 @@
+import { Command } from "commander";
+import * as path from "path";
+import { crawlSite } from "../../recon/crawlSite";
+import type { SiteIndexEntry } from "../../reporting/types";
+import { writeJsonReport, writeSiteIndex } from "../../reporting/writeJsonReport";
+import { addBrowserOptions, resolveBrowserSettings, type BrowserFlags } from "../browserOptions";
+import { addCandidateOptions, resolveCandidateOptions, type CandidateFlags } from "../candidateOptions";
+import { addSessionOptions, resolveSessionOptions, type SessionFlags } from "../sessionOptions";
+import { addWaitOptions, resolveWaitOptions, type WaitFlags } from "../waitOptions";
+import { parseUrl } from "./scan";
+
+function parseCount(raw: string): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`Expected a non-negative integer (got "${raw}")`);
+  }
+  return n;
+}
+
+function parsePageLimit(raw: string): number {
+  const n = parseCount(raw);
+  if (n < 1) throw new Error(`Expected at least 1 page (got "${raw}")`);
+  return n;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function pageFileName(index: number, url: string): string {
+  const u    = new URL(url);
+  const slug = (u.pathname + u.search)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+
+  return `${String(index + 1).padStart(3, "0")}-${slug || "index"}.json`;
+}
+
+export function registerCrawlCommand(program: Command): void {
+  const command = program
+    .command("crawl")
+    .description("Crawl same-origin links from a URL and output one recon report per page")
+    .argument("<url>", "Start URL (http/https)")
+    .option("-o, --output <dir>", "Output directory", "reports")
+    .option("--headed", "Run browser in headed mode", false)
+    .option("--max-depth <n>", "Maximum link depth from the start URL", parseCount, 2)
+    .option("--max-pages <n>", "Maximum number of pages to scan", parsePageLimit, 20)
+    .option("--include <glob>", "Only follow URLs matching this glob (repeatable)", collect, [])
+    .option("--exclude <glob>", "Never follow URLs matching this glob (repeatable)", collect, [])
+    .option("--follow-logout", "Also follow links that look like logout links", false);
+
+  addCandidateOptions(addBrowserOptions(addWaitOptions(addSessionOptions(command))))
+    .action(async (
+      rawUrl: string,
+      options: {
+        output: string;
+        headed: boolean;
+        maxDepth: number;
+        maxPages: number;
+        include: string[];
+        exclude: string[];
+        followLogout: boolean;
+      } & SessionFlags & WaitFlags & BrowserFlags & CandidateFlags
+    ) => {
+      const url     = parseUrl(rawUrl).toString();
+      const session = await resolveSessionOptions(options);
+      const wait    = resolveWaitOptions(options);
+
+      // One directory per crawl keeps the reports and their index together
+      const ts       = new Date().toISOString().replace(/[:.]/g, "-");
+      const host     = new URL(url).hostname.replace(/^www\./, "").replace(/[^a-z0-9]+/gi, "-");
+      const crawlDir = path.join(options.output, `crawl-${host}-${ts}`);
+
+      const pages: SiteIndexEntry[] = [];
+
+      console.log(`[crawl] starting at: ${url}`);
+      const scanOptions = { session, wait, browser: resolveBrowserSettings(options), ...resolveCandidateOptions(options) };
+      await crawlSite(url, { ...options, ...scanOptions }, async (result) => {
+        const entry: SiteIndexEntry = {
+          url: result.url,
+          depth: result.depth,
+          linkedFrom: result.linkedFrom,
+        };
+
+        if (result.report) {
+          const outPath = await writeJsonReport(crawlDir, result.report, pageFileName(pages.length, result.url));
+          entry.report  = path.basename(outPath);
+          entry.counts  = result.report.counts;
+          console.log(`[crawl] scanned (depth ${result.depth}): ${result.url}`);
+        } else {
+          entry.error = result.error;
+          console.warn(`[crawl] failed: ${result.url} (${result.error})`);
+        }
+
+        pages.push(entry);
+      });
+
+      const indexPath = await writeSiteIndex(crawlDir, {
+        startUrl: url,
+        crawledAt: new Date().toISOString(),
+        limits: {
+          maxDepth: options.maxDepth,
+          maxPages: options.maxPages,
+          include: options.include,
+          exclude: options.exclude,
+        },
+        pages,
+      });
+
+      console.log(`[crawl] scanned ${pages.length} page(s)`);
+      console.log(`[crawl] wrote site index: ${indexPath}`);
+    });
+}
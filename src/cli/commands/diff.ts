@@ -0,0 +1,37 @@
+import { Command } from "commander";
+import * as path from "path";
+import { diffPageModels, formatDiffSummary } from "../../model/diffPageModels";
+import { loadPageModel } from "../../model/loadPageModel";
+import { writeDiffReport } from "../../reporting/writeDiffReport";
+
+/**
+ * Exit code used when breaking locator changes are found.
+ */
+const BREAKING_EXIT_CODE = 2;
+
+/**
+ * Registers the `diff` command.
+ *
+ * @param program - Root CLI command.
+ */
+export function registerDiffCommand(program: Command): void {
+  program
+    .command("diff")
+    .description("Compare two recon reports or page models")
+    .argument("<old>", "Earlier recon report or page model JSON")
+    .argument("<new>", "Later recon report or page model JSON")
+    .option("-o, --output <dir>", "Output directory", "reports")
+    .option("--no-fail-on-breaking", "Exit with 0 even when breaking locator changes are found")
+    .action(async (oldFile: string, newFile: string, opts: { output: string; failOnBreaking: boolean }) => {
+      const before = await loadPageModel(path.resolve(oldFile));
+      const after  = await loadPageModel(path.resolve(newFile));
+
+      const diff    = diffPageModels(before, after);
+      const outPath = await writeDiffReport(path.resolve(opts.output), diff);
+
+      console.log(formatDiffSummary(diff));
+      console.log(`[diff] wrote diff: ${outPath}`);
+
+      if (diff.breaking && opts.failOnBreaking) process.exitCode = BREAKING_EXIT_CODE;
+    });
+}
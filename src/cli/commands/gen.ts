@@ -2,8 +2,26 @@ import { Command } from "commander";
 import { promises as fs } from "fs";
 import path from "path";
 import { buildPageModel } from "../../model/buildPageModel";
+import { loadPageModel } from "../../model/loadPageModel";
+import { loadNameOverrides } from "../../model/memberNames";
+import { writeFeature } from "../../gen/writeFeature";
 import { writePageModel } from "../../gen/writePageModel";
+import { GEN_TARGET_NAMES, getGenTarget } from "../../gen/targets";
 import type { ReconReport } from "../../reporting/types";
+import { writeHtmlReport } from "../../reporting/writeHtmlReport";
+import { addFormatOption, type ReportFormat } from "../formatOptions";
+
+/**
+ * Parses a comma-separated `--target` value.
+ *
+ * @param raw - Raw flag value (e.g. `playwright,cypress`).
+ * @returns De-duplicated target names in the order given.
+ */
+function parseTargets(raw: string): string[] {
+  const names = raw.split(",").map((t) => t.trim()).filter(Boolean).map((t) => getGenTarget(t).name);
+  if (!names.length) throw new Error(`--target must name at least one target`);
+  return Array.from(new Set(names));
+}
 
 /**
  * Registers the `gen` command.
@@ -11,12 +29,19 @@ import type { ReconReport } from "../../reporting/types";
  * @param program - Root CLI command.
  */
 export function registerGenCommand(program: Command): void {
-  program
+  const command = program
     .command("gen")
     .description("Generate automation artifacts from a recon report")
     .requiredOption("-i, --input <file>", "Recon report JSON file")
     .option("-o, --output <dir>", "Output directory", "reports")
-    .action(async (opts) => {
+    .option("--previous <file>", "Page model (or recon report) of the last scan, to keep element ids stable")
+    .option("--names <file>", "JSON/YAML map of element ids to preferred member names")
+    .option("--target <names>", `Page object targets: ${GEN_TARGET_NAMES.join(", ")} (comma-separated)`, parseTargets, ["playwright"])
+    .option("--no-page-object", "Skip the page objects")
+    .option("--no-feature", "Skip the Gherkin feature and (Playwright) step definitions");
+
+  addFormatOption(command)
+    .action(async (opts: { input: string; output: string; previous?: string; names?: string; target: string[]; format: ReportFormat[]; pageObject: boolean; feature: boolean }) => {
       
       // Input/Output dirs
       const inputPath = path.resolve(opts.input);
@@ -27,9 +52,35 @@ export function registerGenCommand(program: Command): void {
       const report = JSON.parse(raw) as ReconReport;
 
       // Build/Create output
-      const model   = buildPageModel(report);
-      const outPath = await writePageModel(outputDir, model);
+      const previous      = opts.previous ? await loadPageModel(path.resolve(opts.previous)) : undefined;
+      const nameOverrides = opts.names ? await loadNameOverrides(path.resolve(opts.names)) : undefined;
+      const model         = buildPageModel(report, undefined, { previous, nameOverrides });
+
+      const unknownIds = Object.keys(nameOverrides ?? {}).filter((id) => !model.elements.some((el) => el.id === id));
+      if (unknownIds.length) console.log(`[gen] name overrides for unknown elements: ${unknownIds.join(", ")}`);
+
+      if (opts.format.includes("json")) {
+        const outPath = await writePageModel(outputDir, model);
+        console.log(`[gen] page model written to ${outPath}`);
+      }
+      if (opts.format.includes("html")) {
+        // Next to the input report, which the report's image paths are relative to
+        const htmlPath = await writeHtmlReport(path.dirname(inputPath), report);
+        console.log(`[gen] html report written to ${htmlPath}`);
+      }
 
-      console.log(`[gen] page model written to ${outPath}`);
+      if (opts.pageObject) {
+        for (const target of opts.target.map(getGenTarget)) {
+          const pageObjectPath = await target.writePageObject(outputDir, model);
+          console.log(`[gen] ${target.name} page object written to ${pageObjectPath}`);
+        }
+      }
+      if (opts.feature && !opts.target.includes("playwright")) {
+        console.log(`[gen] feature skipped: its step definitions use Playwright (add --target playwright)`);
+      } else if (opts.feature) {
+        const { featurePath, stepsPath } = await writeFeature(outputDir, model);
+        console.log(`[gen] feature written to ${featurePath}`);
+        console.log(`[gen] step definitions written to ${stepsPath}`);
+      }
     });
 }
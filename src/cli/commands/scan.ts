@@ -1,8 +1,15 @@
 import { Command } from "commander";
+import * as path from "path";
 import { scanUrl } from "../../recon/scanPage";
-import { writeJsonReport } from "../../reporting/writeJsonReport";
+import { writeHtmlReport } from "../../reporting/writeHtmlReport";
+import { buildReportFileName, writeJsonReport } from "../../reporting/writeJsonReport";
+import { addBrowserOptions, resolveBrowserSettings, type BrowserFlags } from "../browserOptions";
+import { addCandidateOptions, resolveCandidateOptions, type CandidateFlags } from "../candidateOptions";
+import { addFormatOption, type ReportFormat } from "../formatOptions";
+import { addSessionOptions, resolveSessionOptions, type SessionFlags } from "../sessionOptions";
+import { addWaitOptions, resolveWaitOptions, type WaitFlags } from "../waitOptions";
 
-function parseUrl(raw: string): URL {
+export function parseUrl(raw: string): URL {
   let url: URL;
 
   try {
@@ -19,20 +26,66 @@ function parseUrl(raw: string): URL {
 }
 
 export function registerScanCommand(program: Command): void {
-  program
+  const command = program
     .command("scan")
     .description("Scan a URL and output a recon report")
     .argument("<url>", "Target URL (http/https)")
     .option("-o, --output <dir>", "Output directory", "reports")
     .option("--headed", "Run browser in headed mode", false)
-    .action(async (rawUrl: string, options: { output: string; headed: boolean }) => {
-      const url = parseUrl(rawUrl).toString();
+    .option("--screenshot", "Save a full-page screenshot with numbered element overlays", false)
+    .option("--crops", "With --screenshot, also save one cropped image per element", false);
+
+  addFormatOption(addCandidateOptions(addBrowserOptions(addWaitOptions(addSessionOptions(command)))))
+    .action(async (
+      rawUrl: string,
+      options: {
+        output: string;
+        headed: boolean;
+        screenshot: boolean;
+        crops: boolean;
+        format: ReportFormat[];
+      } & SessionFlags & WaitFlags & BrowserFlags & CandidateFlags
+    ) => {
+      const url     = parseUrl(rawUrl).toString();
+      const session = await resolveSessionOptions(options);
+      const wait    = resolveWaitOptions(options);
+
+      // One timestamp for every output so the files pair up
+      const now        = new Date();
+      const screenshot = options.screenshot
+        ? { outputDir: options.output, name: buildReportFileName(url, now).replace(/\.json$/, ""), crops: options.crops }
+        : undefined;
 
       console.log(`[recon] scanning: ${url}`);
-      const report = await scanUrl(url, options.headed);
+      const report = await scanUrl(url, {
+        headed: options.headed,
+        session,
+        wait,
+        browser: resolveBrowserSettings(options),
+        ...resolveCandidateOptions(options),
+        screenshot,
+      });
 
-      const outPath = await writeJsonReport(options.output, report);
-      console.log(`[recon] wrote report: ${outPath}`);
+      if (options.format.includes("json")) {
+        const outPath = await writeJsonReport(options.output, report, buildReportFileName(report.url, now));
+        console.log(`[recon] wrote report: ${outPath}`);
+      }
+      if (options.format.includes("html")) {
+        const outPath = await writeHtmlReport(options.output, report, buildReportFileName(report.url, now, "html"));
+        console.log(`[recon] wrote html report: ${outPath}`);
+      }
       console.log(`[recon] counts:`, report.counts);
+      if (report.findings?.length) {
+        const errors = report.findings.filter((f) => f.severity === "error").length;
+        console.log(`[recon] audit: ${errors} error(s), ${report.findings.length - errors} warning(s)`);
+      }
+      console.log(`[recon] settled in ${report.wait?.settleMs ?? 0}ms${report.wait?.timedOut ? " (timed out)" : ""}`);
+
+      if (report.screenshot) {
+        console.log(`[recon] wrote screenshot: ${path.join(options.output, report.screenshot)}`);
+      }
+      if (session.saveStorageState) {
+        console.log(`[recon] saved storage state: ${session.saveStorageState}`);
+      }
     });
 }
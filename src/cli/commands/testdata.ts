@@ -0,0 +1,56 @@
+import { Command } from "commander";
+import * as path from "path";
+import { buildTestData, writeTestData } from "../../gen/testData";
+import { fileStem } from "../../gen/writeFeature";
+import { writeTestDataSpec } from "../../gen/writeTestDataSpec";
+import { loadPageModel } from "../../model/loadPageModel";
+
+/**
+ * Parses a `--seed` value.
+ *
+ * @param raw - Raw CLI value.
+ * @returns The seed as a non-negative integer.
+ * @throws If the value is not an integer.
+ */
+function parseSeed(raw: string): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`--seed must be a non-negative integer (got "${raw}")`);
+  return n;
+}
+
+/**
+ * Registers the `testdata` command.
+ *
+ * @param program - Root CLI command.
+ */
+export function registerTestDataCommand(program: Command): void {
+  program
+    .command("testdata")
+    .description("Generate valid and invalid form test data from a recon report or page model")
+    .requiredOption("-i, --input <file>", "Recon report or page model JSON file")
+    .option("-o, --output <dir>", "Output directory", "reports")
+    .option("--seed <n>", "Random seed for reproducible values (default: random)", parseSeed)
+    .option("--spec", "Also write a data-driven Playwright spec that submits each variant", false)
+    .action(async (opts: { input: string; output: string; seed?: number; spec: boolean }) => {
+      const model     = await loadPageModel(path.resolve(opts.input));
+      const outputDir = path.resolve(opts.output);
+      const seed      = opts.seed ?? Math.floor(Math.random() * 2 ** 31);
+
+      const fixture  = buildTestData(model, seed);
+      const fileName = `${fileStem(model)}.testdata.json`;
+      const outPath  = await writeTestData(outputDir, fixture, fileName);
+
+      const variants = fixture.forms.reduce((n, f) => n + f.variants.length, 0);
+      console.log(`[testdata] ${fixture.forms.length} form(s), ${variants} variant(s), seed ${seed}`);
+      console.log(`[testdata] fixture written to ${outPath}`);
+
+      for (const note of fixture.forms.flatMap((f) => f.notes ?? [])) {
+        console.log(`[testdata] note: ${note}`);
+      }
+
+      if (opts.spec) {
+        const specPath = await writeTestDataSpec(outputDir, model, fixture, fileName);
+        console.log(`[testdata] spec written to ${specPath}`);
+      }
+    });
+}
@@ -0,0 +1,66 @@
+import { Command } from "commander";
+import * as path from "path";
+import { loadPageModel } from "../../model/loadPageModel";
+import { formatVerifyTable, verifyUrl } from "../../recon/verifyPageModel";
+import { writeVerifyReport } from "../../reporting/writeVerifyReport";
+import { addBrowserOptions, resolveBrowserSettings, type BrowserFlags } from "../browserOptions";
+import { addSessionOptions, resolveSessionOptions, type SessionFlags } from "../sessionOptions";
+import { addWaitOptions, resolveWaitOptions, type WaitFlags } from "../waitOptions";
+import { parseUrl } from "./scan";
+
+/**
+ * Exit code used when an element no longer resolves.
+ */
+const FAILED_EXIT_CODE = 2;
+
+/**
+ * Accumulates repeatable option values.
+ *
+ * @param value - Current value.
+ * @param previous - Values collected so far.
+ * @returns All values.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Registers the `verify` command.
+ *
+ * @param program - Root CLI command.
+ */
+export function registerVerifyCommand(program: Command): void {
+  const command = program
+    .command("verify")
+    .description("Check a page model's locator hints against a live page")
+    .argument("[url]", "Page to verify against (default: the model's URL)")
+    .requiredOption("-i, --input <file>", "Page model or recon report JSON")
+    .option("-o, --output <dir>", "Output directory", "reports")
+    .option("--headed", "Run browser in headed mode", false)
+    .option("--test-id-attribute <name>", "Test id attributes the page was scanned with; test id hints use the first", collect, [])
+    .option("--no-fail-on-broken", "Exit with 0 even when elements no longer resolve");
+
+  addBrowserOptions(addWaitOptions(addSessionOptions(command)))
+    .action(async (
+      rawUrl: string | undefined,
+      options: { input: string; output: string; headed: boolean; testIdAttribute: string[]; failOnBroken: boolean } & SessionFlags & WaitFlags & BrowserFlags
+    ) => {
+      const model = await loadPageModel(path.resolve(options.input));
+      const url   = parseUrl(rawUrl ?? model.url).toString();
+
+      console.log(`[verify] verifying ${model.elements.length} element(s) on: ${url}`);
+      const result = await verifyUrl(url, model, {
+        headed: options.headed,
+        session: await resolveSessionOptions(options),
+        wait: resolveWaitOptions(options),
+        browser: resolveBrowserSettings(options),
+        testIdAttribute: options.testIdAttribute[0],
+      });
+
+      const outPath = await writeVerifyReport(path.resolve(options.output), result);
+      console.log(formatVerifyTable(result));
+      console.log(`[verify] wrote result: ${outPath}`);
+
+      if (!result.passed && options.failOnBroken) process.exitCode = FAILED_EXIT_CODE;
+    });
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview
+ * Applies the project config file to parsed CLI options.
+ *
+ * @remarks
+ * Config values are written into a command's options only where the user did
+ * not pass the flag, so the precedence is: command-line flag, then config
+ * file, then the option's built-in default. Values are recorded with the
+ * Commander source `"config"`.
+ */
+import { Command } from "commander";
+import { findConfigFile, loadConfig } from "../config/loadConfig";
+import type { ReconConfig } from "../config/reconConfig";
+
+/**
+ * Maps a command option key to the config value that provides its default.
+ */
+type ConfigBinding = [optionKey: string, read: (config: ReconConfig) => unknown];
+
+/**
+ * Options shared by the browser-driving commands (`scan`, `crawl`, `verify`).
+ */
+const BROWSER_BINDINGS: ConfigBinding[] = [
+  ["output", (c) => c.output?.reports],
+  ["headed", (c) => c.browser?.headed],
+  ["viewport", (c) => c.browser?.viewport],
+  ["locale", (c) => c.browser?.locale],
+  ["userAgent", (c) => c.browser?.userAgent],
+  ["device", (c) => c.browser?.device],
+];
+
+/**
+ * Options shared by the scanning commands (`scan`, `crawl`).
+ */
+const SCAN_BINDINGS: ConfigBinding[] = [
+  ...BROWSER_BINDINGS,
+  ["a11yTree", (c) => c.scan?.accessibilityTree],
+  ["eventListeners", (c) => c.scan?.eventListeners],
+  ["explore", (c) => c.scan?.explore],
+  ["testIdAttribute", (c) => c.scan?.testIdAttributes],
+  ["includeSelector", (c) => c.scan?.includeSelectors],
+  ["excludeSelector", (c) => c.scan?.excludeSelectors],
+  ["plugin", (c) => c.plugins],
+];
+
+/**
+ * Config bindings per command name.
+ */
+const COMMAND_BINDINGS: Record<string, ConfigBinding[]> = {
+  scan: [...SCAN_BINDINGS, ["format", (c) => c.scan?.formats]],
+  crawl: SCAN_BINDINGS,
+  diff: [["output", (c) => c.output?.reports]],
+  gen: [
+    ["output", (c) => c.output?.generated],
+    ["format", (c) => c.generate?.formats],
+    ["pageObject", (c) => c.generate?.pageObject],
+    ["feature", (c) => c.generate?.feature],
+    ["target", (c) => c.generate?.targets],
+    ["names", (c) => c.generate?.names],
+  ],
+  testdata: [
+    ["output", (c) => c.output?.generated],
+    ["seed", (c) => c.generate?.seed],
+  ],
+  verify: [...BROWSER_BINDINGS, ["testIdAttribute", (c) => c.scan?.testIdAttributes]],
+};
+
+/**
+ * Fills a command's options from the config where no flag was given.
+ *
+ * @param command - Parsed subcommand (before its action runs).
+ * @param config - Validated project config.
+ *
+ * @example
+ * ```ts
+ * applyConfig(scanCommand, { output: { reports: "recon-out" } });
+ * scanCommand.opts().output; // "recon-out" unless -o was passed
+ * ```
+ */
+export function applyConfig(command: Command, config: ReconConfig): void {
+  for (const [key, read] of COMMAND_BINDINGS[command.name()] ?? []) {
+    const value  = read(config);
+    const source = command.getOptionValueSource(key);
+    if (value === undefined || (source !== undefined && source !== "default")) continue;
+    command.setOptionValueWithSource(key, value, "config");
+  }
+}
+
+/**
+ * Adds the global `--config` option and applies the config before each command.
+ *
+ * @remarks
+ * Without `--config`, `recon.config.ts` or `recon.config.json` in the working
+ * directory is used, if there is one.
+ *
+ * @param program - Root CLI command.
+ * @returns The same command, for chaining.
+ */
+export function addConfigOption(program: Command): Command {
+  return program
+    .option("-c, --config <file>", "Project config file (default: recon.config.ts or recon.config.json in the working directory)")
+    .hook("preAction", async (root, actionCommand) => {
+      const file = (root.opts() as { config?: string }).config ?? findConfigFile(process.cwd());
+      if (!file) return;
+
+      applyConfig(actionCommand, await loadConfig(file));
+      console.log(`[recon] using config: ${file}`);
+    });
+}
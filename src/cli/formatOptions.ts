@@ -0,0 +1,41 @@
+/**
+ * @fileoverview
+ * Shared CLI option for choosing report output formats.
+ */
+import { Command } from "commander";
+
+/**
+ * Report formats a command can write.
+ */
+export type ReportFormat = "json" | "html";
+
+const REPORT_FORMATS: ReportFormat[] = ["json", "html"];
+
+/**
+ * Parses a comma-separated `--format` value.
+ *
+ * @param raw - Raw flag value (e.g. `json,html`).
+ * @returns De-duplicated formats in the order given.
+ */
+export function parseFormats(raw: string): ReportFormat[] {
+  const formats = raw.split(",").map((f) => f.trim().toLowerCase()).filter(Boolean);
+
+  for (const f of formats) {
+    if (!REPORT_FORMATS.includes(f as ReportFormat)) {
+      throw new Error(`--format must be a comma-separated list of ${REPORT_FORMATS.join(", ")} (got "${f}")`);
+    }
+  }
+  if (!formats.length) throw new Error(`--format must name at least one format`);
+
+  return Array.from(new Set(formats)) as ReportFormat[];
+}
+
+/**
+ * Adds the `--format` flag to a command.
+ *
+ * @param command - Command to extend.
+ * @returns The same command, for chaining.
+ */
+export function addFormatOption(command: Command): Command {
+  return command.option("--format <formats>", "Output formats: json, html (comma-separated)", parseFormats, ["json"]);
+}
@@ -9,8 +9,13 @@
  * executed as a Node.js CLI.
  */
 import { Command } from "commander";
+import { registerCrawlCommand } from "./commands/crawl";
+import { registerDiffCommand } from "./commands/diff";
 import { registerGenCommand } from "./commands/gen";
 import { registerScanCommand } from "./commands/scan";
+import { registerTestDataCommand } from "./commands/testdata";
+import { registerVerifyCommand } from "./commands/verify";
+import { addConfigOption } from "./configOptions";
 
 /**
  * Builds and configures the root CLI command.
@@ -37,8 +42,14 @@ export function buildCli(): Command {
     .description("Automation Recon Toolkit")
     .version("0.1.1");
 
+  addConfigOption(program);
+
+  registerCrawlCommand(program);
+  registerDiffCommand(program);
   registerGenCommand(program);
   registerScanCommand(program);
+  registerTestDataCommand(program);
+  registerVerifyCommand(program);
 
   return program;
 }
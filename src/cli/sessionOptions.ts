@@ -0,0 +1,87 @@
+/**
+ * @fileoverview
+ * Shared CLI options for authenticated scanning.
+ *
+ * @remarks
+ * Both `scan` and `crawl` accept the same session flags; this module declares
+ * them once and converts the parsed values into {@link SessionOptions}.
+ */
+import { Command } from "commander";
+import { loadLoginRecipe, type SessionCookie, type SessionOptions } from "../recon/session";
+
+/**
+ * Raw session flag values as parsed by Commander.
+ */
+export type SessionFlags = {
+  storageState?: string;
+  header: string[];
+  cookie: string[];
+  login?: string;
+  saveStorageState?: string;
+};
+
+/**
+ * Accumulates repeatable option values.
+ *
+ * @param value - Current value.
+ * @param previous - Values collected so far.
+ * @returns All values.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parses a `Name: value` header flag.
+ *
+ * @param raw - Raw flag value.
+ * @returns Header name and value.
+ */
+function parseHeader(raw: string): [string, string] {
+  const i = raw.indexOf(":");
+  if (i <= 0) throw new Error(`Invalid header "${raw}" (expected "Name: value")`);
+  return [raw.slice(0, i).trim(), raw.slice(i + 1).trim()];
+}
+
+/**
+ * Parses a `name=value` cookie flag.
+ *
+ * @param raw - Raw flag value.
+ * @returns A cookie scoped to the scanned URL.
+ */
+function parseCookie(raw: string): SessionCookie {
+  const i = raw.indexOf("=");
+  if (i <= 0) throw new Error(`Invalid cookie "${raw}" (expected "name=value")`);
+  return { name: raw.slice(0, i).trim(), value: raw.slice(i + 1) };
+}
+
+/**
+ * Adds the session flags to a command.
+ *
+ * @param command - Command to extend.
+ * @returns The same command, for chaining.
+ */
+export function addSessionOptions(command: Command): Command {
+  return command
+    .option("--storage-state <file>", "Load a Playwright storageState JSON file")
+    .option("--header <header>", 'Extra HTTP header "Name: value" (repeatable)', collect, [])
+    .option("--cookie <cookie>", 'Cookie "name=value" for the target URL (repeatable)', collect, [])
+    .option("--login <file>", "Login recipe (JSON or YAML) to run before scanning")
+    .option("--save-storage-state <file>", "Save the resulting storage state for later scans");
+}
+
+/**
+ * Converts parsed session flags into {@link SessionOptions}.
+ *
+ * @param flags - Parsed flag values.
+ * @returns Session options for the scanner.
+ */
+export async function resolveSessionOptions(flags: SessionFlags): Promise<SessionOptions> {
+  return {
+    storageState: flags.storageState,
+    headers: flags.header.length ? Object.fromEntries(flags.header.map(parseHeader)) : undefined,
+    cookies: flags.cookie.map(parseCookie),
+    loginRecipe: flags.login ? await loadLoginRecipe(flags.login) : undefined,
+    saveStorageState: flags.saveStorageState,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview
+ * Shared CLI options for post-navigation wait strategies.
+ *
+ * @remarks
+ * Both `scan` and `crawl` accept the same wait flags; this module declares them
+ * once and converts the parsed values into {@link WaitOptions}.
+ */
+import { Command } from "commander";
+import { DEFAULT_WAIT, type WaitOptions, type WaitUntil } from "../recon/waitStrategy";
+
+/**
+ * Raw wait flag values as parsed by Commander.
+ */
+export type WaitFlags = {
+  waitUntil: WaitUntil;
+  waitFor?: string;
+  delay?: number;
+  domStable?: number;
+  settleTimeout: number;
+};
+
+const WAIT_UNTIL_VALUES: WaitUntil[] = ["domcontentloaded", "load", "networkidle"];
+
+/**
+ * Parses a `--wait-until` value.
+ *
+ * @param raw - Raw flag value.
+ * @returns A supported load state.
+ */
+function parseWaitUntil(raw: string): WaitUntil {
+  if (!WAIT_UNTIL_VALUES.includes(raw as WaitUntil)) {
+    throw new Error(`--wait-until must be one of ${WAIT_UNTIL_VALUES.join(", ")} (got "${raw}")`);
+  }
+  return raw as WaitUntil;
+}
+
+/**
+ * Parses a millisecond duration flag.
+ *
+ * @param raw - Raw flag value.
+ * @returns A non-negative integer number of milliseconds.
+ */
+function parseMs(raw: string): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Expected a duration in ms (got "${raw}")`);
+  return n;
+}
+
+/**
+ * Adds the wait flags to a command.
+ *
+ * @param command - Command to extend.
+ * @returns The same command, for chaining.
+ */
+export function addWaitOptions(command: Command): Command {
+  return command
+    .option("--wait-until <state>", "Navigation load state: domcontentloaded, load, networkidle", parseWaitUntil, DEFAULT_WAIT.waitUntil)
+    .option("--wait-for <selector>", "Wait for a selector to be attached before scanning")
+    .option("--delay <ms>", "Fixed delay after navigation", parseMs)
+    .option("--dom-stable <ms>", "Wait until the candidate elements stop changing for this long", parseMs)
+    .option("--settle-timeout <ms>", "Maximum time for --wait-for and --dom-stable", parseMs, DEFAULT_WAIT.timeoutMs);
+}
+
+/**
+ * Converts parsed wait flags into {@link WaitOptions}.
+ *
+ * @param flags - Parsed flag values.
+ * @returns Wait options for the scanner.
+ */
+export function resolveWaitOptions(flags: WaitFlags): WaitOptions {
+  return {
+    waitUntil: flags.waitUntil,
+    selector: flags.waitFor,
+    delayMs: flags.delay,
+    domStableMs: flags.domStable,
+    timeoutMs: flags.settleTimeout,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview
+ * Discovers and loads the project config file.
+ *
+ * @remarks
+ * `recon.config.ts` is loaded through Node's module system, so it runs as-is
+ * under `ts-node` (`npm run recon`); from compiled JavaScript, `ts-node` is
+ * registered on demand. `recon.config.json` needs nothing extra.
+ *
+ * Paths in the config (output directories, the names file, plugin modules) are resolved
+ * relative to the config file, so the config works from any working directory.
+ */
+import { promises as fs, existsSync } from "fs";
+import * as path from "path";
+import { validateConfig, type ReconConfig } from "./reconConfig";
+
+/**
+ * Config file names, in lookup order.
+ */
+export const CONFIG_FILE_NAMES = ["recon.config.ts", "recon.config.json"];
+
+/**
+ * Finds the config file in a directory.
+ *
+ * @remarks
+ * Parent directories are not searched, so an unrelated config higher up
+ * (e.g. in the home directory) is never picked up.
+ *
+ * @param cwd - Directory to look in (usually the working directory).
+ * @returns The config file path, or `undefined` if there is none.
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => path.join(path.resolve(cwd), name)).find((candidate) => existsSync(candidate));
+}
+
+/**
+ * Loads a JavaScript or TypeScript module and returns its default export.
+ *
+ * @remarks
+ * Also used for plugin modules.
+ *
+ * @param filePath - Absolute module path.
+ * @returns The module's default export (or the module itself without one).
+ * @throws If TypeScript cannot be loaded or the module fails to evaluate.
+ */
+export function requireModule(filePath: string): unknown {
+  if (filePath.endsWith(".ts") && !require.extensions[".ts"]) {
+    try {
+      require("ts-node").register({ transpileOnly: true });
+    } catch {
+      throw new Error(`Cannot load ${filePath}: ts-node is not installed`);
+    }
+  }
+
+  const mod = require(filePath);
+  return mod && typeof mod === "object" && "default" in mod ? mod.default : mod;
+}
+
+/**
+ * Loads and validates a config file.
+ *
+ * @param filePath - Path to a `.ts` or `.json` config file.
+ * @returns The validated config.
+ * @throws If the file cannot be read or parsed, or fails validation.
+ */
+export async function loadConfig(filePath: string): Promise<ReconConfig> {
+  const resolved = path.resolve(filePath);
+
+  let data: unknown;
+  if (resolved.endsWith(".ts")) {
+    data = requireModule(resolved);
+  } else {
+    const raw = await fs.readFile(resolved, "utf-8");
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`Cannot parse ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const config = validateConfig(data, filePath);
+
+  // Relative paths are relative to the config file, not the working directory
+  const dir = path.dirname(resolved);
+  if (config.output?.reports) config.output.reports = path.resolve(dir, config.output.reports);
+  if (config.output?.generated) config.output.generated = path.resolve(dir, config.output.generated);
+  if (config.generate?.names) config.generate.names = path.resolve(dir, config.generate.names);
+  if (config.plugins) {
+    // Bare names (e.g. "recon-plugin-x") are packages, resolved by Node
+    config.plugins = config.plugins.map((p) => (typeof p === "string" && p.startsWith(".") ? path.resolve(dir, p) : p));
+  }
+  return config;
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview
+ * Loads recon plugins from module paths.
+ *
+ * @remarks
+ * A plugin module's default export (or `module.exports`) is one plugin or an
+ * array of plugins. Paths starting with `.` resolve against the working
+ * directory; other names resolve like `require()` from there, so plugins can
+ * be published as packages.
+ */
+import * as path from "path";
+import { validatePlugin, type ReconPlugin } from "../recon/plugins";
+import { requireModule } from "./loadConfig";
+
+/**
+ * Loads plugins, passing already-loaded plugin objects through.
+ *
+ * @param specs - Module paths/package names or plugin objects (from `recon.config.ts`).
+ * @param cwd - Directory relative paths resolve against.
+ * @returns Validated plugins in the given order.
+ * @throws If a module cannot be found or does not export valid plugins.
+ */
+export function loadPlugins(specs: (string | ReconPlugin)[], cwd = process.cwd()): ReconPlugin[] {
+  return specs.flatMap((spec) => {
+    if (typeof spec !== "string") return [validatePlugin(spec, spec.name ? `"${spec.name}"` : "(inline)")];
+
+    let file: string;
+    try {
+      file = require.resolve(spec.startsWith(".") ? path.resolve(cwd, spec) : spec, { paths: [cwd] });
+    } catch {
+      throw new Error(`Cannot find plugin module: ${spec}`);
+    }
+
+    const exported = requireModule(file);
+    return (Array.isArray(exported) ? exported : [exported]).map((p) => validatePlugin(p, spec));
+  });
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview
+ * Project configuration (`recon.config.ts` / `recon.config.json`) and its schema.
+ *
+ * @remarks
+ * A config file holds a project's defaults so they do not have to be repeated
+ * on every invocation: output directories, browser settings, test id
+ * attributes, candidate selectors, plugins and generator settings. Command-line flags
+ * always take precedence over the file.
+ *
+ * The schema is declarative and validated by hand, so a typo such as
+ * `scan.testIdAttribute` is reported with its path instead of being ignored.
+ */
+
+import { GEN_TARGET_NAMES } from "../gen/targets";
+import type { ReconPlugin } from "../recon/plugins";
+
+/**
+ * Project-level recon defaults.
+ */
+export type ReconConfig = {
+  output?: {
+    // Where `scan`, `crawl` and `diff` write reports
+    reports?: string;
+    // Where `gen` and `testdata` write generated artifacts
+    generated?: string;
+  };
+  browser?: {
+    headed?: boolean;
+    viewport?: { width: number; height: number };
+    locale?: string;
+    userAgent?: string;
+    // Playwright device preset name (e.g. "iPhone 13")
+    device?: string;
+  };
+  scan?: {
+    // Attributes holding test ids, in priority order
+    testIdAttributes?: string[];
+    // Visible elements matching these selectors are always candidates
+    includeSelectors?: string[];
+    // Elements inside these selectors are never candidates
+    excludeSelectors?: string[];
+    accessibilityTree?: boolean;
+    // Detect addEventListener() listeners over CDP
+    eventListeners?: boolean;
+    // Open menus, tabs and disclosures to record hidden elements
+    explore?: boolean;
+    formats?: ("json" | "html")[];
+  };
+  generate?: {
+    formats?: ("json" | "html")[];
+    pageObject?: boolean;
+    feature?: boolean;
+    // Page object targets for `gen` (see GEN_TARGETS)
+    targets?: string[];
+    // Member name overrides file for `gen` (element id -> name)
+    names?: string;
+    // Default seed for `testdata`
+    seed?: number;
+  };
+  // Plugin module paths (relative to the config file) or, in recon.config.ts, plugin objects
+  plugins?: (string | ReconPlugin)[];
+};
+
+/**
+ * Schema node describing one config value.
+ */
+type SchemaNode =
+  | { type: "string" | "boolean" | "integer" | "string[]" | "plugins"; required?: boolean }
+  | { type: "enum[]"; values: string[]; required?: boolean }
+  | { type: "object"; fields: Record<string, SchemaNode>; required?: boolean };
+
+const FORMATS: SchemaNode = { type: "enum[]", values: ["json", "html"] };
+
+/**
+ * Schema for {@link ReconConfig}.
+ */
+const CONFIG_SCHEMA: SchemaNode = {
+  type: "object",
+  fields: {
+    output: {
+      type: "object",
+      fields: {
+        reports: { type: "string" },
+        generated: { type: "string" },
+      },
+    },
+    browser: {
+      type: "object",
+      fields: {
+        headed: { type: "boolean" },
+        viewport: {
+          type: "object",
+          fields: {
+            width: { type: "integer", required: true },
+            height: { type: "integer", required: true },
+          },
+        },
+        locale: { type: "string" },
+        userAgent: { type: "string" },
+        device: { type: "string" },
+      },
+    },
+    scan: {
+      type: "object",
+      fields: {
+        testIdAttributes: { type: "string[]" },
+        includeSelectors: { type: "string[]" },
+        excludeSelectors: { type: "string[]" },
+        accessibilityTree: { type: "boolean" },
+        eventListeners: { type: "boolean" },
+        explore: { type: "boolean" },
+        formats: FORMATS,
+      },
+    },
+    generate: {
+      type: "object",
+      fields: {
+        formats: FORMATS,
+        pageObject: { type: "boolean" },
+        feature: { type: "boolean" },
+        targets: { type: "enum[]", values: GEN_TARGET_NAMES },
+        names: { type: "string" },
+        seed: { type: "integer" },
+      },
+    },
+    plugins: { type: "plugins" },
+  },
+};
+
+/**
+ * Checks a value against a schema node, collecting every problem.
+ *
+ * @param value - Value to check.
+ * @param node - Expected shape.
+ * @param at - Dotted path of the value (for messages).
+ * @param errors - Collected error messages.
+ */
+function check(value: unknown, node: SchemaNode, at: string, errors: string[]): void {
+  const isObject = typeof value === "object" && value !== null && !Array.isArray(value);
+
+  switch (node.type) {
+    case "string":
+      if (typeof value !== "string" || !value) errors.push(`${at}: expected a non-empty string`);
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${at}: expected true or false`);
+      break;
+    case "integer":
+      if (!Number.isInteger(value) || (value as number) < 0) errors.push(`${at}: expected a non-negative integer`);
+      break;
+    case "string[]":
+      if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || !v)) {
+        errors.push(`${at}: expected an array of non-empty strings`);
+      }
+      break;
+    case "plugins":
+      // Plugin objects are checked when loaded (see `validatePlugin`)
+      if (!Array.isArray(value) || value.some((v) => !(typeof v === "string" && v) && (typeof v !== "object" || v === null))) {
+        errors.push(`${at}: expected an array of module paths or plugin objects`);
+      }
+      break;
+    case "enum[]":
+      if (!Array.isArray(value) || !value.length || value.some((v) => !node.values.includes(v))) {
+        errors.push(`${at}: expected a non-empty array of ${node.values.map((v) => `"${v}"`).join(", ")}`);
+      }
+      break;
+    case "object": {
+      if (!isObject) {
+        errors.push(`${at || "config"}: expected an object`);
+        break;
+      }
+      const obj = value as Record<string, unknown>;
+      for (const key of Object.keys(obj)) {
+        const path = at ? `${at}.${key}` : key;
+        if (!(key in node.fields)) errors.push(`${path}: unknown setting`);
+        else if (obj[key] !== undefined) check(obj[key], node.fields[key], path, errors);
+      }
+      for (const [key, field] of Object.entries(node.fields)) {
+        if (field.required && obj[key] === undefined) errors.push(`${at ? `${at}.${key}` : key}: required`);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Validates raw config data.
+ *
+ * @param data - Parsed config file contents (or a module's default export).
+ * @param source - Config file path (for the error message).
+ * @returns The data, typed as {@link ReconConfig}.
+ * @throws One error listing every problem found.
+ *
+ * @example
+ * ```ts
+ * validateConfig({ scan: { testIdAttribute: "data-qa" } }, "recon.config.json");
+ * // Error: Invalid config recon.config.json:
+ * //   - scan.testIdAttribute: unknown setting
+ * ```
+ */
+export function validateConfig(data: unknown, source: string): ReconConfig {
+  const errors: string[] = [];
+  check(data, CONFIG_SCHEMA, "", errors);
+
+  if (errors.length) {
+    throw new Error(`Invalid config ${source}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return data as ReconConfig;
+}
+
+/**
+ * Identity helper that gives `recon.config.ts` files type checking.
+ *
+ * @param config - Project config.
+ * @returns The same config.
+ *
+ * @example
+ * ```ts
+ * // recon.config.ts
+ * import { defineConfig } from "./src/config/reconConfig";
+ *
+ * export default defineConfig({
+ *   browser: { viewport: { width: 1280, height: 800 } },
+ *   scan: { testIdAttributes: ["data-qa"], excludeSelectors: ["#cookie-banner"] },
+ * });
+ * ```
+ */
+export function defineConfig(config: ReconConfig): ReconConfig {
+  return config;
+}
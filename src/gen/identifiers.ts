@@ -0,0 +1,70 @@
+/**
+ * @fileoverview
+ * Identifier helpers shared by the code generators.
+ *
+ * @remarks
+ * Generated code needs valid, deterministic identifiers (class names, getters,
+ * methods). These helpers turn free-form element names into safe identifiers;
+ * words are split and collisions resolved with the helpers in `model/identifiers`.
+ */
+import { words } from "../model/identifiers";
+
+/**
+ * Converts free-form text into a camelCase identifier.
+ *
+ * @param s - Input string.
+ * @param fallback - Identifier used when the input has no usable characters.
+ * @returns A camelCase identifier that never starts with a digit.
+ *
+ * @example
+ * ```ts
+ * toCamelCase("Sign in now") // "signInNow"
+ * ```
+ */
+export function toCamelCase(s: string, fallback = "element"): string {
+  const parts = words(s).slice(0, 6);
+  if (!parts.length) return fallback;
+
+  const id = parts
+    .map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1)))
+    .join("");
+
+  return /^[0-9]/.test(id) ? `${fallback}${id}` : id;
+}
+
+/**
+ * Converts free-form text into a PascalCase identifier.
+ *
+ * @param s - Input string.
+ * @param fallback - Identifier used when the input has no usable characters.
+ * @returns A PascalCase identifier.
+ *
+ * @example
+ * ```ts
+ * toPascalCase("example.com") // "ExampleCom"
+ * ```
+ */
+export function toPascalCase(s: string, fallback = "Element"): string {
+  const camel = toCamelCase(s, fallback);
+  return camel[0].toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Converts free-form text (or a camelCase identifier) into a snake_case identifier.
+ *
+ * @param s - Input string.
+ * @param fallback - Identifier used when the input has no usable characters.
+ * @returns A snake_case identifier that never starts with a digit.
+ *
+ * @example
+ * ```ts
+ * toSnakeCase("signInButton") // "sign_in_button"
+ * ```
+ */
+export function toSnakeCase(s: string, fallback = "element"): string {
+  const parts = words(s);
+  if (!parts.length) return fallback;
+
+  const id = parts.join("_");
+  return /^[0-9]/.test(id) ? `${fallback}_${id}` : id;
+}
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview
+ * Decides what a non-Playwright page object exposes, and how each element is located.
+ *
+ * @remarks
+ * The Cypress, WebdriverIO and Selenium generators share one plan: a member
+ * per element, located by the first hint the framework supports, plus one
+ * member per collection matching all of its items. What differs per framework
+ * is the {@link LocatorMapper}: it renders a hint in the framework's syntax,
+ * or returns `undefined` for strategies the framework has no equivalent for,
+ * so the next hint is tried. Elements left without a supported hint, and
+ * elements inside iframes (which these frameworks can only reach by switching
+ * frames), are skipped and listed in the generated file. A framework can
+ * also name a fallback mapper for locators it supports poorly; its hints are
+ * only used when no hint maps with the main one.
+ *
+ * Action methods (`clickSignInButton`) are named after every getter is, so a
+ * getter keeps its name and a clashing action gets a numeric suffix.
+ *
+ * CSS hints of elements inside open shadow roots are Playwright `>>` chains
+ * through the shadow hosts (`x-card >> button.go`); see {@link shadowChain}.
+ */
+import type { CollectionModel, ElementKind, ElementModel, LocatorHint, PageModel } from "../model/pageModel";
+import { MAX_NAME_LENGTH } from "../model/buildPageModel";
+import { uniqueName } from "../model/identifiers";
+import { toCamelCase } from "./identifiers";
+import { isUsableHint } from "./playwrightLocators";
+
+/**
+ * Renders a hint as a framework locator expression, or `undefined` if unsupported.
+ */
+export type LocatorMapper = (hint: LocatorHint) => string | undefined;
+
+/**
+ * An element the page object exposes.
+ */
+export type PlannedMember = {
+  el: ElementModel;
+  // Position in the model (matches the screenshot overlay)
+  index: number;
+  hint: LocatorHint;
+  locator: string;
+  member: string;
+  // Action method name, for kinds that have one
+  action?: string;
+};
+
+/**
+ * A collection the page object exposes as a list of items.
+ */
+export type PlannedCollection = {
+  collection: CollectionModel;
+  locator: string;
+  member: string;
+};
+
+/**
+ * Members of a generated page object.
+ */
+export type PageObjectPlan = {
+  members: PlannedMember[];
+  collections: PlannedCollection[];
+  // Element and collection ids left out, with the reason
+  skipped: string[];
+};
+
+/**
+ * Options for {@link planPageObject}.
+ */
+export type PlanOptions = {
+  // Members declared by the generated class itself
+  reserved: string[];
+  // Converts a camelCase member name to the target's convention (default: unchanged)
+  naming?: (member: string) => string;
+  // Tried only for elements and collections that no hint maps to with the main mapper
+  fallback?: LocatorMapper;
+};
+
+/**
+ * Plans the members of a page object for a framework.
+ *
+ * @param model - Page model.
+ * @param mapLocator - Renders hints in the framework's syntax.
+ * @param options - Reserved member names and naming convention.
+ * @returns Members and collections in model order, and what was skipped.
+ */
+export function planPageObject(model: PageModel, mapLocator: LocatorMapper, options: PlanOptions): PageObjectPlan {
+  const naming = options.naming ?? ((member: string) => member);
+  const taken  = new Set(options.reserved);
+  const plan: PageObjectPlan = { members: [], collections: [], skipped: [] };
+  const mappers = [mapLocator, ...(options.fallback ? [options.fallback] : [])];
+
+  const emitted = new Set<string>();
+  for (const collection of model.collections ?? []) {
+    const locator = mappers.map((map) => map(collection.itemLocator)).find((l) => l !== undefined);
+    if (collection.frames?.length || !locator) {
+      plan.skipped.push(`${collection.id} (${collection.frames?.length ? "inside an iframe" : "no supported locator"})`);
+      continue;
+    }
+
+    const member = uniqueName(naming(toCamelCase(collection.name ?? collection.id, "collection")), taken);
+    plan.collections.push({ collection, locator, member });
+    emitted.add(collection.id);
+  }
+
+  for (const [index, el] of model.elements.entries()) {
+    if (el.collection && emitted.has(el.collection)) continue;
+    if (el.frames?.length) {
+      plan.skipped.push(`${el.id} (inside an iframe)`);
+      continue;
+    }
+
+    const map  = mappers.find((m) => el.locators.some((h) => isUsableHint(h) && m(h) !== undefined));
+    const hint = map && el.locators.find((h) => isUsableHint(h) && map(h) !== undefined);
+    if (!map || !hint) {
+      plan.skipped.push(`${el.id} (no supported locator)`);
+      continue;
+    }
+
+    const member = uniqueName(naming(el.memberName ?? toCamelCase(el.name ?? el.id)), taken);
+    plan.members.push({ el, index, hint, locator: map(hint)!, member });
+  }
+
+  for (const planned of plan.members) {
+    // Member names are camelCase before naming; convert back to build the action from them
+    const action = actionName(planned.el.kind, options.naming ? toCamelCase(planned.member) : planned.member);
+    if (action) planned.action = uniqueName(naming(action), taken);
+  }
+
+  return plan;
+}
+
+/**
+ * Names the action method of an element, using the Playwright page object's verbs.
+ *
+ * @param kind - Element kind.
+ * @param member - camelCase member name.
+ * @returns E.g. `clickSignInButton`, `fillEmailInput`, or `undefined` for kinds without an action.
+ */
+export function actionName(kind: ElementKind, member: string): string | undefined {
+  const suffix = member[0].toUpperCase() + member.slice(1);
+
+  switch (kind) {
+    case "button":
+    case "link":
+      return `click${suffix}`;
+    case "textbox":
+    case "textarea":
+      return `fill${suffix}`;
+    case "select":
+      return `select${suffix}`;
+    case "checkbox":
+      return `set${suffix}Checked`;
+    case "radio":
+      return `choose${suffix}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Tells whether a name taken from a hint may have been cut short.
+ *
+ * @param name - Role name or label from a locator hint.
+ * @returns `true` when the name has the length names are cut to.
+ */
+export function isTruncatedName(name: string): boolean {
+  return name.length >= MAX_NAME_LENGTH;
+}
+
+/**
+ * Splits a CSS hint into its shadow host chain.
+ *
+ * @param css - CSS hint value.
+ * @returns The selectors from the outermost host inward, or `undefined` for plain CSS.
+ */
+export function shadowChain(css: string): string[] | undefined {
+  return css.includes(" >> ") ? css.split(" >> ") : undefined;
+}
+
+/**
+ * Renders a CSS attribute selector.
+ *
+ * @param name - Attribute name.
+ * @param value - Exact attribute value.
+ * @returns E.g. `[data-testid="cart"]`.
+ */
+export function cssAttribute(name: string, value: string): string {
+  return `[${name}="${value.replace(/["\\]/g, "\\$&")}"]`;
+}
+
+/**
+ * Describes an element for getter comments.
+ *
+ * @param el - Element model.
+ * @param index - Position in the model.
+ * @returns E.g. `#3 Email (textbox)`, safe inside block comments.
+ */
+export function describeMember(el: ElementModel, index: number): string {
+  return `#${index} ${(el.name ?? el.id).replace(/\*\//g, "*\\/")} (${el.kind})`;
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview
+ * Maps framework-agnostic {@link LocatorHint}s to Playwright locator expressions.
+ *
+ * @remarks
+ * Shared by every Playwright-flavoured generator so page objects and step
+ * definitions resolve elements the same way.
+ */
+import type { LocatorHint } from "../model/pageModel";
+
+/**
+ * Serializes a string as a double-quoted TypeScript string literal.
+ *
+ * @param s - Raw string.
+ * @returns A quoted, escaped literal.
+ */
+export function tsString(s: string): string {
+  return JSON.stringify(s);
+}
+
+/**
+ * Determines whether a hint can be turned into a Playwright locator.
+ *
+ * @remarks
+ * Role hints are only usable when they carry an accessible name; a bare role
+ * almost always matches several nodes on a real page.
+ *
+ * @param hint - Locator hint.
+ * @returns `true` if the hint is usable.
+ */
+export function isUsableHint(hint: LocatorHint): boolean {
+  if (hint.strategy === "role") return Boolean(hint.role && hint.name);
+  return Boolean(hint.value);
+}
+
+/**
+ * Picks the first usable locator hint.
+ *
+ * @remarks
+ * Hints are already ordered by preference by `buildLocators`
+ * (testId → role → label → placeholder → css → xpath), so the first usable
+ * hint is the best one.
+ *
+ * @param locators - Ordered locator hints.
+ * @returns The preferred hint, or `undefined` if none is usable.
+ */
+export function pickLocatorHint(locators: LocatorHint[]): LocatorHint | undefined {
+  return locators.find(isUsableHint);
+}
+
+/**
+ * Renders the expression hints should be resolved from, descending into frames.
+ *
+ * @param base - Page expression (e.g. `this.page`).
+ * @param frames - Enclosing iframe selectors, outermost first.
+ * @returns `base` followed by one `frameLocator()` call per frame.
+ *
+ * @example
+ * ```ts
+ * playwrightRoot("page", ["iframe#pay"]) // 'page.frameLocator("iframe#pay")'
+ * ```
+ */
+export function playwrightRoot(base: string, frames: string[] = []): string {
+  return frames.reduce((root, f) => `${root}.frameLocator(${tsString(f)})`, base);
+}
+
+/**
+ * Renders a Playwright locator expression for a hint.
+ *
+ * @param hint - Locator hint.
+ * @param root - Expression the locator is built from (e.g. `this.page`).
+ * @returns A TypeScript expression evaluating to a Playwright `Locator`.
+ *
+ * @example
+ * ```ts
+ * toPlaywrightLocator({ strategy: "testId", value: "zip" }, "page")
+ * // 'page.getByTestId("zip")'
+ * ```
+ */
+export function toPlaywrightLocator(hint: LocatorHint, root: string): string {
+  switch (hint.strategy) {
+    case "testId":
+      return `${root}.getByTestId(${tsString(hint.value)})`;
+    case "role":
+      return hint.name
+        ? `${root}.getByRole(${tsString(hint.role)}, { name: ${tsString(hint.name)} })`
+        : `${root}.getByRole(${tsString(hint.role)})`;
+    case "label":
+      return `${root}.getByLabel(${tsString(hint.value)})`;
+    case "placeholder":
+      return `${root}.getByPlaceholder(${tsString(hint.value)})`;
+    case "css":
+      return `${root}.locator(${tsString(hint.value)})`;
+    case "xpath":
+      return `${root}.locator(${tsString(`xpath=${hint.value}`)})`;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview
+ * Registry of page object generators selectable with `gen --target`.
+ *
+ * @remarks
+ * Every target renders the same {@link PageModel}, so one scan serves teams
+ * on any of the supported stacks. Playwright output goes to the output
+ * directory itself; other targets write to a subdirectory named after the
+ * target, so several targets can be generated side by side.
+ */
+import * as path from "path";
+import type { PageModel } from "../model/pageModel";
+import { writeCypressPageObject } from "./writeCypressPageObject";
+import { writePageObject } from "./writePageObject";
+import { writeSeleniumPageObject } from "./writeSeleniumPageObject";
+import { writeWebdriverioPageObject } from "./writeWebdriverioPageObject";
+
+/**
+ * A code generation target.
+ */
+export type GenTarget = {
+  name: string;
+  description: string;
+  // Writes the target's page object for a model and returns its path
+  writePageObject: (outputDir: string, model: PageModel) => Promise<string>;
+};
+
+/**
+ * Supported targets; the first one is the default.
+ */
+export const GEN_TARGETS: GenTarget[] = [
+  {
+    name: "playwright",
+    description: "Playwright TypeScript page object with section and collection classes",
+    writePageObject,
+  },
+  {
+    name: "cypress",
+    description: "Cypress page object using Testing Library queries",
+    writePageObject: (outputDir, model) => writeCypressPageObject(path.join(outputDir, "cypress"), model),
+  },
+  {
+    name: "webdriverio",
+    description: "WebdriverIO page object",
+    writePageObject: (outputDir, model) => writeWebdriverioPageObject(path.join(outputDir, "webdriverio"), model),
+  },
+  {
+    name: "selenium-python",
+    description: "Selenium page object in Python",
+    writePageObject: (outputDir, model) => writeSeleniumPageObject(path.join(outputDir, "selenium-python"), model),
+  },
+];
+
+/**
+ * Names of the supported targets.
+ */
+export const GEN_TARGET_NAMES = GEN_TARGETS.map((t) => t.name);
+
+/**
+ * Looks up a target by name.
+ *
+ * @param name - Target name (case-insensitive).
+ * @returns The target.
+ * @throws If no target has that name.
+ */
+export function getGenTarget(name: string): GenTarget {
+  const target = GEN_TARGETS.find((t) => t.name === name.trim().toLowerCase());
+  if (!target) throw new Error(`Unknown target "${name}" (expected one of ${GEN_TARGET_NAMES.join(", ")})`);
+  return target;
+}
@@ -0,0 +1,585 @@
+/**
+ * @fileoverview
+ * Generates valid and invalid form test data from a {@link PageModel}.
+ *
+ * @remarks
+ * Values are derived from the field metadata captured by the scan: kind, input
+ * type (`email`, `number`, `tel`, `date`, ...), `autocomplete` hints and declared
+ * constraints (`required`, `pattern`, `min`/`max`/`step`, length limits). Each
+ * form gets one valid value set plus boundary and invalid variants that change a
+ * single field. Generation is driven by a seeded PRNG, so the same model and
+ * seed always produce the same fixture.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { ElementModel, FieldConstraints, PageModel } from "../model/pageModel";
+
+/**
+ * A generated field value: text (or option value) for fields, checked state for checkboxes/radios.
+ */
+export type TestDataValue = string | boolean;
+
+/**
+ * Rules that produce test data variants.
+ *
+ * @remarks
+ * `max-length`, `min-length`, `at-min` and `at-max` are boundary values the
+ * field must accept; the rest are values it must reject.
+ */
+export type TestDataRule =
+  | "empty-required"
+  | "max-length"
+  | "too-long"
+  | "min-length"
+  | "too-short"
+  | "at-min"
+  | "below-min"
+  | "at-max"
+  | "above-max"
+  | "malformed-email"
+  | "malformed-url"
+  | "pattern-mismatch";
+
+/**
+ * A copy of the valid values with one field changed.
+ */
+export type TestDataVariant = {
+  name: string;
+  rule: TestDataRule;
+  // Element id of the changed field
+  field: string;
+  expect: "valid" | "invalid";
+  values: Record<string, TestDataValue>;
+};
+
+/**
+ * Test data for one form.
+ *
+ * @remarks
+ * `form` is a {@link FormModel} id, or `page` for fields outside any `<form>`.
+ * Value maps are keyed by element id.
+ */
+export type FormTestData = {
+  form: string;
+  submit?: string;
+  fields: { id: string; name?: string; kind: ElementModel["kind"]; inputType?: string }[];
+  valid: Record<string, TestDataValue>;
+  variants: TestDataVariant[];
+  // Fields whose constraints could not be satisfied
+  notes?: string[];
+};
+
+/**
+ * A test data fixture for a scanned page.
+ */
+export type TestDataFixture = {
+  url: string;
+  scannedAt: string;
+  seed: number;
+  forms: FormTestData[];
+};
+
+/**
+ * Element kinds that hold user input.
+ */
+const FIELD_KINDS = new Set<ElementModel["kind"]>(["textbox", "textarea", "select", "checkbox", "radio"]);
+
+/**
+ * Input types whose values are numbers, dates or times rather than free text.
+ */
+const RANGE_TYPES = new Set(["number", "range", "date", "time", "datetime-local", "month", "week"]);
+
+/**
+ * Input types that take a formatted value or none at all, so text rules do not apply.
+ */
+const NON_TEXT_TYPES = new Set([...RANGE_TYPES, "color", "file"]);
+
+const FIRST_NAMES = ["Ada", "Grace", "Alan", "Linus", "Margaret", "Dennis", "Barbara", "Ken"];
+const LAST_NAMES  = ["Lovelace", "Hopper", "Turing", "Torvalds", "Hamilton", "Ritchie", "Liskov", "Thompson"];
+const WORDS       = ["amber", "harbor", "meadow", "pixel", "quartz", "river", "summit", "timber", "velvet", "willow"];
+const CITIES      = ["Amsterdam", "Lisbon", "Oslo", "Toronto", "Wellington", "Kyoto"];
+
+/**
+ * Values tried when a field declares a `pattern` the generated value does not match.
+ */
+const PATTERN_CANDIDATES = [
+  "12345",
+  "123456",
+  "1234",
+  "123",
+  "ABC123",
+  "abc123",
+  "ABC",
+  "abc",
+  "A1",
+  "AB12 3CD",
+  "1234 AB",
+  "123-456-7890",
+  "+15551234567",
+  "2026-01-01",
+];
+
+/**
+ * Values tried when a `pattern-mismatch` variant needs a value the pattern rejects.
+ */
+const MISMATCH_CANDIDATES = ["!!!", "invalid value", "0", "x"];
+
+/**
+ * A seeded pseudo-random number source.
+ */
+type Random = {
+  // Uniform float in [0, 1)
+  next(): number;
+  // Uniform integer in [min, max]
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+};
+
+/**
+ * Creates a seeded pseudo-random number source (mulberry32).
+ *
+ * @param seed - Integer seed.
+ * @returns A deterministic random source.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+/**
+ * Tests a value against an HTML `pattern` attribute (which must match the whole value).
+ *
+ * @param value - Candidate value.
+ * @param pattern - Pattern attribute.
+ * @returns `true` if the value matches; invalid patterns match everything.
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "v").test(value);
+  } catch {
+    try {
+      return new RegExp(`^(?:${pattern})$`, "u").test(value);
+    } catch {
+      return true;
+    }
+  }
+}
+
+/**
+ * Formats a date as `YYYY-MM-DD`.
+ *
+ * @param d - Date (UTC).
+ * @returns ISO date string.
+ */
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Formats a date as an ISO week (`YYYY-Www`), the value format of week inputs.
+ *
+ * @param d - Date (UTC).
+ * @returns ISO week string.
+ */
+function isoWeek(d: Date): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 4 - (d.getUTCDay() || 7)));
+  const week     = Math.ceil(((thursday.getTime() - Date.UTC(thursday.getUTCFullYear(), 0, 1)) / 86_400_000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Parses an ISO week (`YYYY-Www`) as the timestamp of its Monday.
+ *
+ * @param s - Week string.
+ * @returns Timestamp (UTC), or `undefined` if `s` is not a week.
+ */
+function parseWeek(s: string): number | undefined {
+  const m = /^(\d{4})-W(\d{2})$/.exec(s);
+  if (!m) return undefined;
+
+  // January 4th is always in week 1
+  const jan4 = new Date(Date.UTC(Number(m[1]), 0, 4));
+  return jan4.getTime() + ((Number(m[2]) - 1) * 7 - ((jan4.getUTCDay() || 7) - 1)) * 86_400_000;
+}
+
+/**
+ * Counts the decimals of a numeric string.
+ *
+ * @param s - Numeric string (e.g. a `step`).
+ * @returns Number of digits after the decimal point.
+ */
+function decimals(s?: string): number {
+  const m = /\.(\d+)$/.exec(s ?? "");
+  return m ? m[1].length : 0;
+}
+
+/**
+ * Parses a numeric constraint.
+ *
+ * @param s - Constraint value.
+ * @returns The number, or `undefined` if absent or not numeric.
+ */
+function num(s?: string): number | undefined {
+  return s !== undefined && s.trim() !== "" && !Number.isNaN(Number(s)) ? Number(s) : undefined;
+}
+
+/**
+ * Finds the range a number field's values are drawn from.
+ *
+ * @remarks
+ * Without `min`, the range starts 100 below `max` (or at 1). HTML validates
+ * steps from `min`, or from 0 when there is none, so the bounds are rounded
+ * inward to that grid; a range too narrow for any step collapses to its start.
+ *
+ * @param c - Field constraints.
+ * @returns Lowest and highest valid value, and the step (absent for `step="any"`).
+ */
+function numberRange(c: FieldConstraints): { lo: number; hi: number; step?: number } {
+  const min  = num(c.min);
+  const max  = num(c.max);
+  const step = c.step === "any" ? undefined : num(c.step) ?? 1;
+
+  const lo = min ?? (max !== undefined ? max - 100 : 1);
+  const hi = max ?? lo + 100;
+  if (!step) return { lo, hi };
+
+  // Tolerance keeps float division (e.g. 0.3 / 0.1) on the grid point it means
+  const base  = min ?? 0;
+  const first = base + Math.ceil((lo - base) / step - 1e-9) * step;
+  const last  = base + Math.floor((hi - base) / step + 1e-9) * step;
+  return { lo: first, hi: Math.max(first, last), step };
+}
+
+/**
+ * Generates a number within the field's range that respects its step.
+ *
+ * @param c - Field constraints.
+ * @param random - Random source.
+ * @returns Number formatted with the step's precision.
+ */
+function numberValue(c: FieldConstraints, random: Random): string {
+  const { lo, hi, step } = numberRange(c);
+  if (!step) return (lo + random.next() * (hi - lo)).toFixed(2);
+
+  const steps = Math.round((hi - lo) / step);
+  return (lo + random.int(0, steps) * step).toFixed(decimals(c.step));
+}
+
+/**
+ * Generates a date (or month/week/time) within the field's range.
+ *
+ * @param inputType - `date`, `month`, `week`, `time` or `datetime-local`.
+ * @param c - Field constraints.
+ * @param random - Random source.
+ * @returns Value in the format the input type expects.
+ */
+function dateValue(inputType: string, c: FieldConstraints, random: Random): string {
+  if (inputType === "time") {
+    return `${String(random.int(8, 17)).padStart(2, "0")}:${random.pick(["00", "15", "30", "45"])}`;
+  }
+
+  // Month values ("2026-03") parse as the first day of the month, weeks ("2026-W10") as their Monday
+  const parse = (s?: string) => {
+    const t = s ? parseWeek(s) ?? Date.parse(s.length === 7 ? `${s}-01` : s) : NaN;
+    return Number.isNaN(t) ? undefined : t;
+  };
+
+  const day  = 86_400_000;
+  const max  = parse(c.max);
+  const lo   = parse(c.min) ?? (max !== undefined ? max - 365 * day : Date.UTC(2026, 0, 1));
+  const hi   = max ?? lo + 365 * day;
+  const date = new Date(lo + random.int(0, Math.max(0, Math.floor((hi - lo) / day))) * day);
+
+  if (inputType === "month") return isoDate(date).slice(0, 7);
+  if (inputType === "week") return isoWeek(date);
+  if (inputType === "datetime-local") return `${isoDate(date)}T12:00`;
+  return isoDate(date);
+}
+
+/**
+ * Generates free text for a field from its input type and `autocomplete` hint.
+ *
+ * @param el - Field element.
+ * @param random - Random source.
+ * @returns Realistic sample text.
+ */
+function textValue(el: ElementModel, random: Random): string {
+  const first = random.pick(FIRST_NAMES);
+  const last  = random.pick(LAST_NAMES);
+  const hint  = el.constraints?.autocomplete?.split(/\s+/).pop();
+
+  if (el.inputType === "email" || hint === "email") return `${first}.${last}${random.int(1, 99)}@example.com`.toLowerCase();
+  if (el.inputType === "tel" || hint?.startsWith("tel")) return `+1555${String(random.int(0, 9_999_999)).padStart(7, "0")}`;
+  if (el.inputType === "url" || hint === "url") return `https://example.com/${random.pick(WORDS)}`;
+  if (el.inputType === "password" || hint === "new-password" || hint === "current-password") {
+    return `${random.pick(WORDS)}-${random.int(100, 999)}-${random.pick(WORDS).toUpperCase()}!`;
+  }
+
+  switch (hint) {
+    case "given-name":
+      return first;
+    case "family-name":
+      return last;
+    case "name":
+      return `${first} ${last}`;
+    case "username":
+      return `${first.toLowerCase()}${random.int(10, 999)}`;
+    case "postal-code":
+      return String(random.int(10_000, 99_999));
+    case "street-address":
+    case "address-line1":
+      return `${random.int(1, 250)} ${random.pick(WORDS)} street`.replace(/\b\w/g, (c) => c.toUpperCase());
+    case "address-level2":
+      return random.pick(CITIES);
+    case "country":
+    case "country-name":
+      return "Netherlands";
+    case "organization":
+      return "Example Ltd";
+  }
+
+  const count = el.kind === "textarea" ? random.int(6, 12) : random.int(2, 3);
+  const text  = Array.from({ length: count }, () => random.pick(WORDS)).join(" ");
+  return text[0].toUpperCase() + text.slice(1);
+}
+
+/**
+ * Adjusts text to the field's length limits.
+ *
+ * @remarks
+ * Email addresses are resized in the local part so they stay well-formed.
+ *
+ * @param value - Generated text.
+ * @param el - Field element.
+ * @param length - Exact length to produce instead of fitting the limits.
+ * @returns Text within `minLength`..`maxLength` (or of exactly `length`).
+ */
+function fitLength(value: string, el: ElementModel, length?: number): string {
+  const min    = length ?? el.constraints?.minLength ?? 0;
+  const max    = length ?? el.constraints?.maxLength ?? Infinity;
+  const domain = el.inputType === "email" ? "@example.com" : "";
+  const body   = domain ? value.split("@")[0] : value;
+
+  if (value.length >= min && value.length <= max) return value;
+  if (max - domain.length < 1) return "x".repeat(Math.max(0, Math.min(max, Math.max(min, 1))));
+
+  const target = Math.min(Math.max(value.length, min), max) - domain.length;
+  const filler = /^\+?\d+$/.test(body) ? "0" : "x";
+  return (body.length >= target ? body.slice(0, target) : body + filler.repeat(target - body.length)) + domain;
+}
+
+/**
+ * Generates a valid value for a field.
+ *
+ * @param el - Field element.
+ * @param random - Random source.
+ * @param notes - Accumulator for constraints that could not be satisfied.
+ * @returns The value, or `undefined` if the field cannot take one (e.g. a select without
+ * options, or a file input, which takes files rather than a value).
+ */
+export function validValue(el: ElementModel, random: Random, notes: string[]): TestDataValue | undefined {
+  if (el.kind === "checkbox" || el.kind === "radio") return true;
+
+  if (el.kind === "select") {
+    const options = (el.options ?? []).filter((o) => o.value && !o.disabled);
+    return options.length ? random.pick(options).value : undefined;
+  }
+
+  if (el.inputType === "file") {
+    notes.push(`${el.id}: file inputs cannot be filled; set files with setInputFiles`);
+    return undefined;
+  }
+  if (el.inputType === "color") return `#${random.int(0, 0xffffff).toString(16).padStart(6, "0")}`;
+
+  const c = el.constraints ?? {};
+  if (el.inputType === "number" || el.inputType === "range") return numberValue(c, random);
+  if (el.inputType && RANGE_TYPES.has(el.inputType)) return dateValue(el.inputType, c, random);
+
+  let value = fitLength(textValue(el, random), el);
+  if (c.pattern && !matchesPattern(value, c.pattern)) {
+    const candidate = PATTERN_CANDIDATES.map((v) => fitLength(v, el)).find((v) => matchesPattern(v, c.pattern!));
+    if (candidate) value = candidate;
+    else notes.push(`${el.id}: no generated value matches pattern ${c.pattern}`);
+  }
+
+  return value;
+}
+
+/**
+ * Shifts a numeric or date boundary by one step.
+ *
+ * @param el - Field element.
+ * @param bound - Boundary value (`min` or `max`).
+ * @param direction - `-1` to go below, `1` to go above.
+ * @returns The out-of-range value, or `undefined` if the bound cannot be parsed.
+ */
+function beyond(el: ElementModel, bound: string, direction: -1 | 1): string | undefined {
+  if (el.inputType === "number" || el.inputType === "range") {
+    const n    = num(bound);
+    const step = num(el.constraints?.step) ?? 1;
+    return n === undefined ? undefined : (n + direction * step).toFixed(decimals(el.constraints?.step));
+  }
+
+  if (el.inputType === "date") {
+    const t = Date.parse(bound);
+    return Number.isNaN(t) ? undefined : isoDate(new Date(t + direction * 86_400_000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the boundary and invalid variants for one field.
+ *
+ * @param el - Field element.
+ * @param valid - Valid values of the whole form.
+ * @returns Variants, each changing only this field.
+ */
+function variantsFor(el: ElementModel, valid: Record<string, TestDataValue>): TestDataVariant[] {
+  const c        = el.constraints ?? {};
+  // Field ids keep titles unique when two fields share a name
+  const label    = el.name ? `${el.name} (${el.id})` : el.id;
+  const base     = typeof valid[el.id] === "string" ? (valid[el.id] as string) : "";
+  const textual  = (el.kind === "textbox" || el.kind === "textarea") && !(el.inputType && NON_TEXT_TYPES.has(el.inputType));
+  const variants: TestDataVariant[] = [];
+
+  const add = (rule: TestDataRule, expect: TestDataVariant["expect"], value: TestDataValue | undefined) => {
+    if (value === undefined) return;
+    variants.push({
+      name: `${label}: ${rule.replace(/-/g, " ")}`,
+      rule,
+      field: el.id,
+      expect,
+      values: { ...valid, [el.id]: value },
+    });
+  };
+
+  if (c.required && el.kind !== "radio") add("empty-required", "invalid", el.kind === "checkbox" ? false : "");
+
+  if (textual && c.maxLength !== undefined) {
+    add("max-length", "valid", fitLength(base || "x", el, c.maxLength));
+    add("too-long", "invalid", fitLength(base || "x", el, c.maxLength + 1));
+  }
+  if (textual && c.minLength !== undefined && c.minLength > 1) {
+    add("min-length", "valid", fitLength(base || "x", el, c.minLength));
+    add("too-short", "invalid", fitLength(base || "x", el, c.minLength - 1));
+  }
+
+  if (c.min !== undefined && (el.inputType === "number" || el.inputType === "range" || el.inputType === "date")) {
+    add("at-min", "valid", c.min);
+    add("below-min", "invalid", beyond(el, c.min, -1));
+  }
+  if (c.max !== undefined && (el.inputType === "number" || el.inputType === "range" || el.inputType === "date")) {
+    // A max off the step grid is itself a step mismatch; use the highest value on the grid
+    const numeric = el.inputType !== "date" && c.step !== "any" && num(c.max) !== undefined;
+    add("at-max", "valid", numeric ? numberRange(c).hi.toFixed(decimals(c.step)) : c.max);
+    add("above-max", "invalid", beyond(el, c.max, 1));
+  }
+
+  if (el.inputType === "email") add("malformed-email", "invalid", "not-an-email");
+  if (el.inputType === "url") add("malformed-url", "invalid", "not a url");
+  if (textual && c.pattern) add("pattern-mismatch", "invalid", MISMATCH_CANDIDATES.find((v) => !matchesPattern(v, c.pattern!)));
+
+  return variants;
+}
+
+/**
+ * Generates test data for one form.
+ *
+ * @param form - Form id (or `page`).
+ * @param fields - Field elements of the form, in page order.
+ * @param random - Random source.
+ * @param submit - Element id of the submit button, if any.
+ * @returns Form test data.
+ */
+function formTestData(form: string, fields: ElementModel[], random: Random, submit?: string): FormTestData {
+  const notes: string[] = [];
+  const valid: Record<string, TestDataValue> = {};
+  let radioChosen = false;
+
+  for (const el of fields) {
+    // Without group names, check only the first radio button of a form
+    if (el.kind === "radio") {
+      if (radioChosen) continue;
+      radioChosen = true;
+    }
+
+    const value = validValue(el, random, notes);
+    if (value !== undefined) valid[el.id] = value;
+  }
+
+  return {
+    form,
+    submit,
+    fields: fields.map((el) => ({ id: el.id, name: el.name, kind: el.kind, inputType: el.inputType })),
+    valid,
+    variants: fields.flatMap((el) => (el.id in valid ? variantsFor(el, valid) : [])),
+    notes: notes.length ? notes : undefined,
+  };
+}
+
+/**
+ * Generates a test data fixture for every form in a page model.
+ *
+ * @remarks
+ * Fields that belong to no `<form>` (common in single-page apps) are grouped
+ * into a pseudo-form with id `page` and no submit button.
+ *
+ * @param model - Page model with form metadata.
+ * @param seed - PRNG seed; the same model and seed give the same fixture.
+ * @returns The fixture.
+ *
+ * @example
+ * ```ts
+ * const fixture = buildTestData(model, 42);
+ * fixture.forms[0].variants.filter((v) => v.expect === "invalid");
+ * ```
+ */
+export function buildTestData(model: PageModel, seed: number): TestDataFixture {
+  const random = createRandom(seed);
+  const byId   = new Map(model.elements.map((el) => [el.id, el]));
+  const owned  = new Set<string>();
+  const forms: FormTestData[] = [];
+
+  for (const form of model.forms ?? []) {
+    const fields = form.fields.map((id) => byId.get(id)).filter((el): el is ElementModel => Boolean(el && FIELD_KINDS.has(el.kind)));
+    form.fields.forEach((id) => owned.add(id));
+    if (fields.length) forms.push(formTestData(form.id, fields, random, form.submit));
+  }
+
+  const loose = model.elements.filter((el) => FIELD_KINDS.has(el.kind) && !owned.has(el.id));
+  if (loose.length) forms.push(formTestData("page", loose, random));
+
+  return { url: model.url, scannedAt: model.scannedAt, seed, forms };
+}
+
+/**
+ * Writes a test data fixture as JSON.
+ *
+ * @param outputDir - Directory to write to (created if missing).
+ * @param fixture - Fixture to write.
+ * @param fileName - Output filename.
+ * @returns Full path to the written file.
+ */
+export async function writeTestData(outputDir: string, fixture: TestDataFixture, fileName: string): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, fileName);
+
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview
+ * Generates a Cypress page object class from a {@link PageModel}.
+ *
+ * @remarks
+ * Role, label, placeholder and test id hints use Testing Library queries
+ * (`cy.findByRole`, `cy.findByLabelText`, ...), so the project needs
+ * `@testing-library/cypress`; CSS hints use `cy.get`. Role names and labels
+ * that may have been cut short are matched as a prefix with a regular
+ * expression, since Testing Library matches strings exactly. Cypress has no XPath
+ * support, so XPath hints are never used, and neither are CSS hints chained
+ * through shadow hosts.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { LocatorHint, PageModel } from "../model/pageModel";
+import { describeMember, isTruncatedName, planPageObject, shadowChain, type PlannedMember } from "./pageObjectPlan";
+import { tsString } from "./playwrightLocators";
+import { pageObjectClassName } from "./writePageObject";
+
+/**
+ * Members declared on every generated class.
+ */
+const RESERVED_MEMBERS = ["visit", "constructor"];
+
+/**
+ * Renders a Testing Library text matcher for a name taken from a hint.
+ *
+ * @param name - Role name or label.
+ * @returns A string literal, or a prefix regular expression literal for names that may have been cut short.
+ */
+function textMatcher(name: string): string {
+  return isTruncatedName(name) ? `/^${name.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")}/` : tsString(name);
+}
+
+/**
+ * Renders a Cypress query for a hint.
+ *
+ * @param hint - Locator hint.
+ * @returns A chainable expression, or `undefined` for XPath and shadow-DOM CSS.
+ */
+export function toCypressLocator(hint: LocatorHint): string | undefined {
+  switch (hint.strategy) {
+    case "testId":
+      return `cy.findByTestId(${tsString(hint.value)})`;
+    case "role":
+      return hint.name
+        ? `cy.findByRole(${tsString(hint.role)}, { name: ${textMatcher(hint.name)} })`
+        : `cy.findByRole(${tsString(hint.role)})`;
+    case "label":
+      return `cy.findByLabelText(${textMatcher(hint.value)})`;
+    case "placeholder":
+      return `cy.findByPlaceholderText(${tsString(hint.value)})`;
+    case "css":
+      return shadowChain(hint.value) ? undefined : `cy.get(${tsString(hint.value)})`;
+    case "xpath":
+      return undefined;
+  }
+}
+
+/**
+ * Renders the action method for an element, if its kind has one.
+ *
+ * @param planned - Planned member.
+ * @returns Method source lines, or an empty array.
+ */
+function renderAction({ el, member, action: name }: PlannedMember): string[] {
+  if (!name) return [];
+
+  switch (el.kind) {
+    case "textbox":
+    case "textarea":
+      return [`  ${name}(value: string): void {`, `    this.${member}.clear().type(value);`, `  }`];
+    case "select":
+      return [`  ${name}(value: string | string[]): void {`, `    this.${member}.select(value);`, `  }`];
+    case "checkbox":
+      return [
+        `  ${name}(checked = true): void {`,
+        `    if (checked) this.${member}.check();`,
+        `    else this.${member}.uncheck();`,
+        `  }`,
+      ];
+    case "radio":
+      return [`  ${name}(): void {`, `    this.${member}.check();`, `  }`];
+    default:
+      return [`  ${name}(): void {`, `    this.${member}.click();`, `  }`];
+  }
+}
+
+/**
+ * Renders a Cypress page object class as TypeScript source.
+ *
+ * @param model - Page model to render.
+ * @returns TypeScript source for the page object module.
+ */
+export function renderCypressPageObject(model: PageModel): string {
+  const className = pageObjectClassName(model);
+  const plan      = planPageObject(model, toCypressLocator, { reserved: RESERVED_MEMBERS });
+  const members: string[] = [];
+
+  for (const { collection, locator, member } of plan.collections) {
+    members.push(
+      "",
+      `  /** All items of ${collection.kind} ${collection.id}; use .eq(index) or .filter(selector) */`,
+      `  get ${member}(): Cypress.Chainable<JQuery<HTMLElement>> {`,
+      `    return ${locator};`,
+      `  }`,
+    );
+  }
+
+  for (const planned of plan.members) {
+    members.push(
+      "",
+      `  /** ${describeMember(planned.el, planned.index)} */`,
+      `  get ${planned.member}(): Cypress.Chainable<JQuery<HTMLElement>> {`,
+      `    return ${planned.locator};`,
+      `  }`,
+    );
+
+    const action = renderAction(planned);
+    if (action.length) members.push("", ...action);
+  }
+
+  return [
+    `/// <reference types="cypress" />`,
+    `/// <reference types="@testing-library/cypress" />`,
+    "",
+    "/**",
+    ` * Cypress page object for ${model.url}`,
+    " *",
+    " * @remarks",
+    ` * Generated by recon from a scan taken at ${model.scannedAt}.`,
+    ...(plan.skipped.length ? [" *", ` * Skipped: ${plan.skipped.join(", ")}`] : []),
+    " */",
+    `export class ${className} {`,
+    `  visit(): void {`,
+    `    cy.visit(${tsString(model.url)});`,
+    `  }`,
+    ...members,
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes a generated Cypress page object to disk.
+ *
+ * @param outputDir - Directory to write to (e.g. `generated/cypress`).
+ * @param model - Page model to render.
+ * @returns Full path to the written file.
+ */
+export async function writeCypressPageObject(outputDir: string, model: PageModel): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, `${pageObjectClassName(model)}.ts`);
+
+  await fs.writeFile(filePath, renderCypressPageObject(model), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview
+ * Generates a Gherkin feature file and matching step definitions from a {@link PageModel}.
+ *
+ * @remarks
+ * Steps are intentionally generic ("When I click the {string} button") and refer
+ * to elements by their display name. The step-definition module resolves those
+ * names to Playwright locators using the same hint ordering as the Page Object
+ * generator, so both artifacts target the same nodes.
+ *
+ * The generated steps target `@cucumber/cucumber` with a World that exposes a
+ * Playwright `page`.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { ElementModel, PageModel } from "../model/pageModel";
+import { pickLocatorHint, playwrightRoot, toPlaywrightLocator, tsString } from "./playwrightLocators";
+import { createRandom, validValue } from "./testData";
+
+/**
+ * Seed for the values used in generated fill steps, so regenerating gives the same feature.
+ */
+const SAMPLE_SEED = 1;
+
+/**
+ * Assigns each element a unique display name used to reference it from steps.
+ *
+ * @remarks
+ * Duplicate names get a numeric suffix (`Save`, `Save (2)`), and unnamed
+ * elements fall back to their model id.
+ *
+ * @param model - Page model.
+ * @returns Display names keyed by element.
+ */
+export function elementDisplayNames(model: PageModel): Map<ElementModel, string> {
+  const names = new Map<ElementModel, string>();
+  const taken = new Set<string>();
+
+  for (const el of model.elements) {
+    const base = el.name ?? el.id;
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base} (${n})`;
+    taken.add(name);
+    names.set(el, name);
+  }
+
+  return names;
+}
+
+/**
+ * Builds the file stem shared by the feature and step-definition files.
+ *
+ * @param model - Page model.
+ * @returns A filesystem-safe stem (e.g. `example-com`).
+ */
+export function fileStem(model: PageModel): string {
+  return model.domain.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "page";
+}
+
+/**
+ * Escapes a value for use inside a double-quoted Cucumber `{string}` parameter.
+ *
+ * @param s - Raw value.
+ * @returns Escaped value (without surrounding quotes).
+ */
+function gherkinString(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Escapes a value for use inside a Gherkin data table cell.
+ *
+ * @param s - Raw value.
+ * @returns Escaped cell value.
+ */
+function gherkinCell(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, "\\n");
+}
+
+/**
+ * Tells whether the "page contains these elements" step can assert an element is visible.
+ *
+ * @remarks
+ * Revealed elements are hidden until their trigger opens, and elements without
+ * a unique locator (including collection items, whose hint matches every item)
+ * fail Playwright's strict mode.
+ *
+ * @param el - Element model.
+ * @returns `true` if the element is visible on load and located uniquely.
+ */
+function assertable(el: ElementModel): boolean {
+  return !el.flags?.revealed && !el.flags?.noUniqueLocator && !el.collection;
+}
+
+/**
+ * Renders the generic step(s) exercising a single element.
+ *
+ * @param el - Element model.
+ * @param name - Display name of the element.
+ * @param value - Value for fill steps (none for fields that cannot be filled).
+ * @returns Gherkin step lines (without keyword indentation), or an empty array.
+ */
+function stepsFor(el: ElementModel, name: string, value?: string): string[] {
+  const ref = gherkinString(name);
+
+  switch (el.kind) {
+    case "button":
+      return [`When I click the "${ref}" button`];
+    case "link":
+      return el.href ? [`Then the "${ref}" link points to "${gherkinString(el.href)}"`] : [];
+    case "textbox":
+    case "textarea":
+      return value === undefined ? [] : [`When I fill the "${ref}" field with "${gherkinString(value)}"`];
+    case "select": {
+      const option = el.options?.find((o) => o.value && !o.disabled);
+      return option ? [`When I select "${gherkinString(option.value)}" in the "${ref}" dropdown`] : [];
+    }
+    case "checkbox":
+      return [`When I check the "${ref}" checkbox`];
+    case "radio":
+      return [`When I choose the "${ref}" option`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Renders a Gherkin feature file for a page model.
+ *
+ * @remarks
+ * The feature contains one scenario asserting every element is present (driven by
+ * a data table) and one scenario per actionable element. Elements without a
+ * usable locator hint have no step definition entry, so they are left out and
+ * listed in the feature description instead, as are elements the table cannot
+ * assert (see {@link assertable}) and fields no value can be filled into. Fill
+ * values match the field's input type and constraints (see {@link validValue}).
+ *
+ * @param model - Page model to render.
+ * @returns Feature file contents.
+ */
+export function renderFeature(model: PageModel): string {
+  const names   = elementDisplayNames(model);
+  const rows    = [["name", "kind", "role"]];
+  const located = model.elements.filter((el) => pickLocatorHint(el.locators));
+  const skipped = model.elements.filter((el) => !located.includes(el)).map((el) => el.id);
+  const listed  = located.filter(assertable);
+  const hidden  = located.filter((el) => !listed.includes(el)).map((el) => el.id);
+
+  // Fill values; file inputs and the like take none
+  const random   = createRandom(SAMPLE_SEED);
+  const values   = new Map<ElementModel, string | undefined>();
+  const unfilled: string[] = [];
+  for (const el of listed) {
+    if (el.kind !== "textbox" && el.kind !== "textarea") continue;
+    const value = validValue(el, random, []);
+    values.set(el, typeof value === "string" ? value : undefined);
+    if (typeof value !== "string") unfilled.push(el.id);
+  }
+
+  for (const el of listed) {
+    rows.push([names.get(el)!, el.kind, el.role ?? ""].map(gherkinCell));
+  }
+
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((r) => r[col].length)));
+  const table  = rows.map((r) => `      | ${r.map((c, col) => c.padEnd(widths[col])).join(" | ")} |`);
+
+  const lines = [
+    `Feature: ${model.title ?? model.domain}`,
+    `  Generated by recon from ${model.url} (scanned ${model.scannedAt}).`,
+    ...(skipped.length ? [`  Skipped (no usable locator): ${skipped.join(", ")}`] : []),
+    ...(hidden.length ? [`  Skipped (hidden until opened or not unique): ${hidden.join(", ")}`] : []),
+    ...(unfilled.length ? [`  Not filled (takes no typed value): ${unfilled.join(", ")}`] : []),
+    "",
+    "  Background:",
+    `    Given I open "${gherkinString(model.url)}"`,
+    "",
+    "  Scenario: Page exposes the scanned elements",
+    "    Then the page contains these elements:",
+    ...table,
+  ];
+
+  for (const el of listed) {
+    const name  = names.get(el)!;
+    const steps = stepsFor(el, name, values.get(el));
+    if (!steps.length) continue;
+
+    lines.push("", `  Scenario: ${name} (${el.kind})`, ...steps.map((s) => `    ${s}`));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders the step-definition module matching {@link renderFeature}.
+ *
+ * @remarks
+ * Element names are mapped to locator factories built from the first usable
+ * locator hint. Elements without a usable hint are omitted, as they are from
+ * the feature.
+ *
+ * @param model - Page model to render.
+ * @returns TypeScript source for the step-definition module.
+ */
+export function renderStepDefinitions(model: PageModel): string {
+  const names   = elementDisplayNames(model);
+  const entries: string[] = [];
+
+  for (const el of model.elements) {
+    const hint = pickLocatorHint(el.locators);
+    if (!hint) continue;
+    entries.push(`  ${tsString(names.get(el)!)}: (page) => ${toPlaywrightLocator(hint, playwrightRoot("page", el.frames))},`);
+  }
+
+  const lines = [
+    `import { Given, When, Then, type DataTable } from "@cucumber/cucumber";`,
+    `import { expect, type Locator, type Page } from "@playwright/test";`,
+    "",
+    "/**",
+    ` * Step definitions for ${model.url}`,
+    " *",
+    " * @remarks",
+    ` * Generated by recon from a scan taken at ${model.scannedAt}.`,
+    " * The Cucumber World is expected to expose a Playwright `page`.",
+    " */",
+    "type World = { page: Page };",
+    "",
+    "const ELEMENTS: Record<string, (page: Page) => Locator> = {",
+    ...entries,
+    "};",
+    "",
+    "function resolve(page: Page, name: string): Locator {",
+    "  const build = ELEMENTS[name];",
+    "  if (!build) throw new Error(`Unknown element: \"${name}\"`);",
+    "  return build(page);",
+    "}",
+    "",
+    `Given("I open {string}", async function (this: World, url: string) {`,
+    "  await this.page.goto(url);",
+    "});",
+    "",
+    `When("I click the {string} button", async function (this: World, name: string) {`,
+    "  await resolve(this.page, name).click();",
+    "});",
+    "",
+    `When("I fill the {string} field with {string}", async function (this: World, name: string, value: string) {`,
+    "  await resolve(this.page, name).fill(value);",
+    "});",
+    "",
+    `When("I select {string} in the {string} dropdown", async function (this: World, value: string, name: string) {`,
+    "  await resolve(this.page, name).selectOption(value);",
+    "});",
+    "",
+    `When("I check the {string} checkbox", async function (this: World, name: string) {`,
+    "  await resolve(this.page, name).check();",
+    "});",
+    "",
+    `When("I choose the {string} option", async function (this: World, name: string) {`,
+    "  await resolve(this.page, name).check();",
+    "});",
+    "",
+    `Then("the {string} link points to {string}", async function (this: World, name: string, href: string) {`,
+    `  await expect(resolve(this.page, name)).toHaveAttribute("href", href);`,
+    "});",
+    "",
+    `Then("the page contains these elements:", async function (this: World, table: DataTable) {`,
+    "  for (const row of table.hashes()) {",
+    "    await expect(resolve(this.page, row.name)).toBeVisible();",
+    "  }",
+    "});",
+    "",
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Writes the feature file and step-definition module to disk.
+ *
+ * @remarks
+ * Filenames are derived from the domain (e.g. `example-com.feature` and
+ * `example-com.steps.ts`) so regenerating overwrites the previous output.
+ *
+ * @param outputDir - Directory to write to.
+ * @param model - Page model to render.
+ * @returns Full paths to the written files.
+ */
+export async function writeFeature(
+  outputDir: string,
+  model: PageModel
+): Promise<{ featurePath: string; stepsPath: string }> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const stem        = fileStem(model);
+  const featurePath = path.join(outputDir, `${stem}.feature`);
+  const stepsPath   = path.join(outputDir, `${stem}.steps.ts`);
+
+  await fs.writeFile(featurePath, renderFeature(model), "utf-8");
+  await fs.writeFile(stepsPath, renderStepDefinitions(model), "utf-8");
+  return { featurePath, stepsPath };
+}
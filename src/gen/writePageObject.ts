@@ -0,0 +1,396 @@
+/**
+ * @fileoverview
+ * Generates a Playwright Page Object class from a {@link PageModel}.
+ *
+ * @remarks
+ * The generated class exposes one typed `Locator` getter per element, named by
+ * its `memberName` (e.g. `emailInput`) and built from the element's preferred
+ * locator hint, plus kind-appropriate action methods (`click`, `fill`,
+ * `selectOption`). Elements inside a page section (header, navigation,
+ * dialog, ...) are exposed through a component class per section whose
+ * locators chain from the section root, e.g. `page.header.searchInput`.
+ * Repeated items (product cards, table rows) become a collection class with
+ * `nth()` and `filter()` accessors returning item objects, e.g.
+ * `page.products.nth(0).addToCartButton`, instead of one member per scanned element.
+ * The output is a starting point meant to be committed and edited by hand.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { CollectionModel, ElementModel, LocatorHint, PageModel, SectionModel } from "../model/pageModel";
+import { uniqueName } from "../model/identifiers";
+import { toCamelCase, toPascalCase } from "./identifiers";
+import { pickLocatorHint, playwrightRoot, toPlaywrightLocator, tsString } from "./playwrightLocators";
+
+/**
+ * Members declared on every generated class; element getters must not shadow them.
+ */
+const RESERVED_MEMBERS = ["page", "goto", "constructor"];
+
+/**
+ * Members declared on every generated section class.
+ */
+const RESERVED_SECTION_MEMBERS = ["root", "constructor"];
+
+/**
+ * Builds the generated class name for a page model.
+ *
+ * @param model - Page model.
+ * @returns A PascalCase class name ending in `Page` (e.g. `ExampleComPage`).
+ */
+export function pageObjectClassName(model: PageModel): string {
+  return `${toPascalCase(model.domain, "Recon")}Page`;
+}
+
+/**
+ * Renders the action method for an element, if its kind has one.
+ *
+ * @param el - Element model.
+ * @param member - Getter name for the element.
+ * @param taken - Member names already in use (updated with the method name).
+ * @returns Method source lines, or an empty array.
+ */
+function renderAction(el: ElementModel, member: string, taken: Set<string>): string[] {
+  const suffix = member[0].toUpperCase() + member.slice(1);
+  const method = (name: string) => uniqueName(name, taken);
+
+  switch (el.kind) {
+    case "button":
+    case "link":
+      return [
+        `  async ${method(`click${suffix}`)}(): Promise<void> {`,
+        `    await this.${member}.click();`,
+        `  }`,
+      ];
+    case "textbox":
+    case "textarea":
+      return [
+        `  async ${method(`fill${suffix}`)}(value: string): Promise<void> {`,
+        `    await this.${member}.fill(value);`,
+        `  }`,
+      ];
+    case "select":
+      return [
+        `  async ${method(`select${suffix}`)}(value: string | string[]): Promise<void> {`,
+        `    await this.${member}.selectOption(value);`,
+        `  }`,
+      ];
+    case "checkbox":
+      return [
+        `  async ${method(`set${suffix}Checked`)}(checked = true): Promise<void> {`,
+        `    await this.${member}.setChecked(checked);`,
+        `  }`,
+      ];
+    case "radio":
+      return [
+        `  async ${method(`choose${suffix}`)}(): Promise<void> {`,
+        `    await this.${member}.check();`,
+        `  }`,
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * An element to render, with its position in the model and preferred hint
+ * (no hint renders the root itself, for collection items that are controls).
+ */
+type MemberEntry = { el: ElementModel; index: number; hint?: LocatorHint };
+
+/**
+ * Renders the getters and action methods for a list of elements.
+ *
+ * @remarks
+ * Getter names are reserved before any action method is named, so an action
+ * (`fillEmailInput`) never takes the name of another element's getter; the
+ * action gets a numeric suffix instead.
+ *
+ * @param entries - Elements with their model index and preferred hint.
+ * @param rootOf - Returns the expression an element's locator is built from.
+ * @param taken - Member names already in use (updated).
+ * @returns Member source lines.
+ */
+function renderMembers(
+  entries: MemberEntry[],
+  rootOf: (el: ElementModel) => string,
+  taken: Set<string>
+): string[] {
+  const members: string[] = [];
+  const getters = entries.map(({ el }) => uniqueName(el.memberName ?? toCamelCase(el.name ?? el.id), taken));
+
+  for (const [i, { el, index, hint }] of entries.entries()) {
+    const member = getters[i];
+    const label  = (el.name ?? el.id).replace(/\*\//g, "*\\/");
+
+    members.push(
+      "",
+      `  /** #${index} ${label} (${el.kind})${el.flags?.noUniqueLocator ? " - no unique locator at scan time" : ""} */`,
+      `  get ${member}(): Locator {`,
+      `    return ${hint ? toPlaywrightLocator(hint, rootOf(el)) : rootOf(el)};`,
+      `  }`,
+    );
+
+    const action = renderAction(el, member, taken);
+    if (action.length) members.push("", ...action);
+  }
+
+  return members;
+}
+
+/**
+ * Describes a section for comments.
+ *
+ * @param section - Section model.
+ * @returns E.g. `nav "Primary"` or `header`.
+ */
+function describeSection(section: SectionModel): string {
+  return section.name ? `${section.kind} "${section.name.replace(/\*\//g, "*\\/")}"` : section.kind;
+}
+
+/**
+ * Picks the hint an element uses when chained from its section root.
+ *
+ * @remarks
+ * Inside open shadow roots, CSS hints are `>>`-chained through the shadow
+ * hosts (`x-shell >> a.home`), and so is the CSS locator of a landmark inside
+ * shadow DOM. From the section root, the hosts the section itself sits in must
+ * be dropped, or the chain would look for them below the section. When the
+ * section is found by role, its hosts are unknown. Absolute XPath cannot be
+ * chained at all.
+ *
+ * @param hint - Element's preferred hint.
+ * @param section - Element's section.
+ * @returns The hint to chain from the section root, or `undefined` to keep the element on the page class.
+ */
+function sectionHint(hint: LocatorHint, section: SectionModel): LocatorHint | undefined {
+  if (hint.strategy === "xpath") return undefined;
+  if (hint.strategy !== "css" || !hint.value.includes(" >> ")) return hint;
+  if (section.locator.strategy !== "css") return undefined;
+
+  const sectionHosts = section.locator.value.split(" >> ").slice(0, -1);
+  if (!sectionHosts.length) return hint;
+
+  const prefix = `${sectionHosts.join(" >> ")} >> `;
+  return hint.value.startsWith(prefix) ? { ...hint, value: hint.value.slice(prefix.length) } : undefined;
+}
+
+/**
+ * Describes a collection for comments.
+ *
+ * @param collection - Collection model.
+ * @returns E.g. `grid "products" (40 items at scan time)`.
+ */
+function describeCollection(collection: CollectionModel): string {
+  const name = collection.name ? ` "${collection.name.replace(/\*\//g, "*\\/")}"` : "";
+  return `${collection.kind}${name} (${collection.count} items at scan time)`;
+}
+
+/**
+ * Renders the collection and item classes for a collection.
+ *
+ * @param collection - Collection model.
+ * @param collectionClass - Collection class name.
+ * @param itemClass - Item class name.
+ * @param indexOf - Model index by element id (for getter comments).
+ * @param byId - Element models by id.
+ * @returns Class source lines.
+ */
+function renderCollectionClasses(
+  collection: CollectionModel,
+  collectionClass: string,
+  itemClass: string,
+  indexOf: Map<string, number>,
+  byId: Map<string, ElementModel>
+): string[] {
+  const entries: MemberEntry[] = collection.fields.map((field) => ({
+    el: { ...byId.get(field.elements[0])!, name: field.name, memberName: field.memberName, kind: field.kind, flags: undefined },
+    index: indexOf.get(field.elements[0])!,
+    hint: field.locator,
+  }));
+
+  return [
+    "/**",
+    ` * Collection: ${describeCollection(collection)}`,
+    " */",
+    `export class ${collectionClass} {`,
+    `  constructor(readonly items: Locator) {}`,
+    "",
+    `  /** Item at a zero-based index */`,
+    `  nth(index: number): ${itemClass} {`,
+    `    return new ${itemClass}(this.items.nth(index));`,
+    `  }`,
+    "",
+    `  /** Item matching a filter, e.g. { hasText: "..." } */`,
+    `  filter(options: { hasText?: string | RegExp; has?: Locator }): ${itemClass} {`,
+    `    return new ${itemClass}(this.items.filter(options));`,
+    `  }`,
+    "",
+    `  async count(): Promise<number> {`,
+    `    return this.items.count();`,
+    `  }`,
+    "}",
+    "",
+    "/**",
+    ` * One item of ${collectionClass}`,
+    " */",
+    `export class ${itemClass} {`,
+    `  constructor(readonly root: Locator) {}`,
+    ...renderMembers(entries, () => "this.root", new Set(RESERVED_SECTION_MEMBERS)),
+    "}",
+    "",
+  ];
+}
+
+/**
+ * Renders a Playwright Page Object class as TypeScript source.
+ *
+ * @remarks
+ * Elements without a usable locator hint are skipped and listed in a comment
+ * so they can be wired up by hand. Elements whose preferred hint cannot be
+ * chained from their section root (see {@link sectionHint}) stay on the page
+ * class.
+ *
+ * @param model - Page model to render.
+ * @returns TypeScript source for the Page Object module.
+ *
+ * @example
+ * ```ts
+ * const source = renderPageObject(buildPageModel(report));
+ * ```
+ */
+export function renderPageObject(model: PageModel): string {
+  const className  = pageObjectClassName(model);
+  const taken      = new Set(RESERVED_MEMBERS);
+  const classNames = new Set([className]);
+  const skipped: string[] = [];
+
+  // Split elements between the page class and their section classes; collections render their own
+  const sectionsById  = new Map((model.sections ?? []).map((s) => [s.id, s]));
+  const collectionIds = new Set((model.collections ?? []).map((c) => c.id));
+  const onPage: MemberEntry[] = [];
+  const bySection = new Map<string, MemberEntry[]>();
+
+  for (const [index, el] of model.elements.entries()) {
+    if (el.collection && collectionIds.has(el.collection)) continue;
+
+    const hint = pickLocatorHint(el.locators);
+    if (!hint) {
+      skipped.push(el.id);
+      continue;
+    }
+
+    const section = el.section ? sectionsById.get(el.section) : undefined;
+    const scoped  = section && sectionHint(hint, section);
+    if (section && scoped) {
+      bySection.set(section.id, [...(bySection.get(section.id) ?? []), { el, index, hint: scoped }]);
+    } else {
+      onPage.push({ el, index, hint });
+    }
+  }
+
+  const sectionGetters: string[] = [];
+  const sectionClasses: string[] = [];
+
+  for (const section of model.sections ?? []) {
+    const entries = bySection.get(section.id);
+    if (!entries?.length) continue;
+
+    const sectionClass = uniqueName(`${toPascalCase(section.id, "Section")}Section`, classNames);
+    const member       = uniqueName(toCamelCase(section.id, "section"), taken);
+    const root         = toPlaywrightLocator(section.locator, playwrightRoot("this.page", section.frames));
+
+    sectionGetters.push(
+      "",
+      `  /** ${describeSection(section)} */`,
+      `  get ${member}(): ${sectionClass} {`,
+      `    return new ${sectionClass}(${root});`,
+      `  }`,
+    );
+    sectionClasses.push(
+      "/**",
+      ` * Section: ${describeSection(section)}`,
+      " */",
+      `export class ${sectionClass} {`,
+      `  constructor(readonly root: Locator) {}`,
+      ...renderMembers(entries, () => "this.root", new Set(RESERVED_SECTION_MEMBERS)),
+      "}",
+      "",
+    );
+  }
+
+  const collectionGetters: string[] = [];
+  const indexOf = new Map(model.elements.map((el, i) => [el.id, i]));
+  const byId    = new Map(model.elements.map((el) => [el.id, el]));
+
+  for (const collection of model.collections ?? []) {
+    const base            = toPascalCase(collection.name ?? collection.id, "Collection");
+    const collectionClass = uniqueName(`${base}Collection`, classNames);
+    const itemClass       = uniqueName(`${base}Item`, classNames);
+    const member          = uniqueName(toCamelCase(collection.name ?? collection.id, "collection"), taken);
+    const items           = toPlaywrightLocator(collection.itemLocator, playwrightRoot("this.page", collection.frames));
+
+    collectionGetters.push(
+      "",
+      `  /** ${describeCollection(collection)} */`,
+      `  get ${member}(): ${collectionClass} {`,
+      `    return new ${collectionClass}(${items});`,
+      `  }`,
+    );
+    sectionClasses.push(...renderCollectionClasses(collection, collectionClass, itemClass, indexOf, byId));
+  }
+
+  const members = [
+    ...sectionGetters,
+    ...collectionGetters,
+    ...renderMembers(onPage, (el) => playwrightRoot("this.page", el.frames), taken),
+  ];
+
+  const lines = [
+    `import type { Locator, Page } from "@playwright/test";`,
+    "",
+    "/**",
+    ` * Page Object for ${model.url}`,
+    " *",
+    " * @remarks",
+    ` * Generated by recon from a scan taken at ${model.scannedAt}.`,
+    ...(model.screenshot
+      ? [" *", ` * Screenshot: ${model.screenshot} (overlay numbers match the #N in getter comments)`]
+      : []),
+    ...(skipped.length
+      ? [" *", ` * Skipped (no usable locator): ${skipped.join(", ")}`]
+      : []),
+    " */",
+    `export class ${className} {`,
+    `  constructor(readonly page: Page) {}`,
+    "",
+    `  async goto(): Promise<void> {`,
+    `    await this.page.goto(${tsString(model.url)});`,
+    `  }`,
+    ...members,
+    "}",
+    "",
+    ...sectionClasses,
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Writes a generated Page Object class to disk.
+ *
+ * @remarks
+ * The filename is derived from the class name (e.g. `ExampleComPage.ts`) so
+ * regenerating for the same page overwrites the previous output.
+ *
+ * @param outputDir - Directory to write to.
+ * @param model - Page model to render.
+ * @returns Full path to the written file.
+ */
+export async function writePageObject(outputDir: string, model: PageModel): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, `${pageObjectClassName(model)}.ts`);
+
+  await fs.writeFile(filePath, renderPageObject(model), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview
+ * Generates a Selenium (Python) page object class from a {@link PageModel}.
+ *
+ * @remarks
+ * Selenium locates elements by CSS or XPath only, so placeholder hints
+ * become CSS attribute selectors, and role and label hints, which have no
+ * faithful Selenium equivalent, are not used. Neither are test id hints: they
+ * do not record which attribute held the id, and the element's CSS hint
+ * already matches it on every test id attribute the scan looked at. CSS
+ * chained through shadow hosts cannot be expressed in one `find_element` call
+ * and is skipped too. Members follow Python conventions (`email_input`, `fill_email_input`).
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { LocatorHint, PageModel } from "../model/pageModel";
+import { toSnakeCase } from "./identifiers";
+import { cssAttribute, planPageObject, shadowChain, type PlannedMember } from "./pageObjectPlan";
+import { pageObjectClassName } from "./writePageObject";
+
+/**
+ * Members declared on every generated class.
+ */
+const RESERVED_MEMBERS = ["driver", "open", "url"];
+
+/**
+ * Python keywords; member names are suffixed rather than shadow them.
+ */
+const PYTHON_KEYWORDS = new Set([
+  "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else",
+  "except", "false", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "none",
+  "nonlocal", "not", "or", "pass", "raise", "return", "true", "try", "while", "with", "yield",
+]);
+
+/**
+ * Serializes a string as a double-quoted Python string literal.
+ *
+ * @remarks
+ * JSON string escapes are valid Python escapes.
+ *
+ * @param s - Raw string.
+ * @returns A quoted, escaped literal.
+ */
+function pyString(s: string): string {
+  return JSON.stringify(s);
+}
+
+/**
+ * Converts a camelCase member name to a Python member name.
+ *
+ * @param member - camelCase name.
+ * @returns A snake_case name that is not a keyword.
+ */
+function pythonName(member: string): string {
+  const name = toSnakeCase(member);
+  return PYTHON_KEYWORDS.has(name) ? `${name}_element` : name;
+}
+
+/**
+ * Renders `find_element` arguments for a hint.
+ *
+ * @param hint - Locator hint.
+ * @returns E.g. `By.CSS_SELECTOR, "#email"`, or `undefined` for test id, role,
+ * label and shadow-DOM CSS hints.
+ */
+export function toSeleniumLocator(hint: LocatorHint): string | undefined {
+  switch (hint.strategy) {
+    case "placeholder":
+      return `By.CSS_SELECTOR, ${pyString(cssAttribute("placeholder", hint.value))}`;
+    case "css":
+      return shadowChain(hint.value) ? undefined : `By.CSS_SELECTOR, ${pyString(hint.value)}`;
+    case "xpath":
+      return `By.XPATH, ${pyString(hint.value)}`;
+    case "testId":
+    case "role":
+    case "label":
+      return undefined;
+  }
+}
+
+/**
+ * Renders the action method for an element, if its kind has one.
+ *
+ * @param planned - Planned member (with a Python member name).
+ * @returns Method source lines, or an empty array.
+ */
+function renderAction({ el, member, action: name }: PlannedMember): string[] {
+  if (!name) return [];
+
+  switch (el.kind) {
+    case "textbox":
+    case "textarea":
+      return [
+        `    def ${name}(self, value: str) -> None:`,
+        `        self.${member}.clear()`,
+        `        self.${member}.send_keys(value)`,
+      ];
+    case "select":
+      return [`    def ${name}(self, value: str) -> None:`, `        Select(self.${member}).select_by_value(value)`];
+    case "checkbox":
+      return [
+        `    def ${name}(self, checked: bool = True) -> None:`,
+        `        if self.${member}.is_selected() != checked:`,
+        `            self.${member}.click()`,
+      ];
+    default:
+      return [`    def ${name}(self) -> None:`, `        self.${member}.click()`];
+  }
+}
+
+/**
+ * Renders a docstring line.
+ *
+ * @param text - Docstring text.
+ * @returns The text with quotes and backslashes escaped.
+ */
+function docstring(text: string): string {
+  return `"""${text.replace(/["\\]/g, "\\$&")}"""`;
+}
+
+/**
+ * Renders a Selenium page object class as Python source.
+ *
+ * @param model - Page model to render.
+ * @returns Python source for the page object module.
+ */
+export function renderSeleniumPageObject(model: PageModel): string {
+  const plan    = planPageObject(model, toSeleniumLocator, { reserved: RESERVED_MEMBERS, naming: pythonName });
+  const members: string[] = [];
+
+  for (const { collection, locator, member } of plan.collections) {
+    members.push(
+      "",
+      "    @property",
+      `    def ${member}(self) -> list[WebElement]:`,
+      `        ${docstring(`All items of ${collection.kind} ${collection.id}`)}`,
+      `        return self.driver.find_elements(${locator})`,
+    );
+  }
+
+  for (const planned of plan.members) {
+    members.push(
+      "",
+      "    @property",
+      `    def ${planned.member}(self) -> WebElement:`,
+      `        ${docstring(`#${planned.index} ${planned.el.name ?? planned.el.id} (${planned.el.kind})`)}`,
+      `        return self.driver.find_element(${planned.locator})`,
+    );
+
+    const action = renderAction(planned);
+    if (action.length) members.push("", ...action);
+  }
+
+  return [
+    `"""`,
+    `Selenium page object for ${model.url}`,
+    "",
+    `Generated by recon from a scan taken at ${model.scannedAt}.`,
+    ...(plan.skipped.length ? ["", `Skipped: ${plan.skipped.join(", ")}`] : []),
+    `"""`,
+    "from selenium.webdriver.common.by import By",
+    "from selenium.webdriver.remote.webdriver import WebDriver",
+    "from selenium.webdriver.remote.webelement import WebElement",
+    "from selenium.webdriver.support.select import Select",
+    "",
+    "",
+    `class ${pageObjectClassName(model)}:`,
+    `    url = ${pyString(model.url)}`,
+    "",
+    "    def __init__(self, driver: WebDriver) -> None:",
+    "        self.driver = driver",
+    "",
+    "    def open(self) -> None:",
+    "        self.driver.get(self.url)",
+    ...members,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes a generated Selenium page object to disk.
+ *
+ * @remarks
+ * The module name is the snake_case class name (e.g. `example_com_page.py`).
+ *
+ * @param outputDir - Directory to write to (e.g. `generated/selenium-python`).
+ * @param model - Page model to render.
+ * @returns Full path to the written file.
+ */
+export async function writeSeleniumPageObject(outputDir: string, model: PageModel): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, `${toSnakeCase(pageObjectClassName(model))}.py`);
+
+  await fs.writeFile(filePath, renderSeleniumPageObject(model), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview
+ * Generates a data-driven Playwright spec from a test data fixture.
+ *
+ * @remarks
+ * The spec reads the fixture JSON at runtime and, for every form, fills and
+ * submits the valid values and each variant. Field checks use the browser's
+ * constraint validation API (`checkValidity()`) plus the value the field ended
+ * up with, so a field "rejects" a value when it is invalid or the browser
+ * refused the input (e.g. `maxlength` truncation). An invalid value the field
+ * kept must also block the submission, leaving the field flagged with a
+ * validation message. Forms validated only by script need their own
+ * assertions.
+ *
+ * What a successful submission looks like is application-specific, so the
+ * spec declares one `SUCCESS_CHECKS` entry per form, commented out, for the
+ * user to fill in; until then the form's "accepts valid data" test is skipped
+ * after its field checks.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { PageModel } from "../model/pageModel";
+import { pickLocatorHint, playwrightRoot, toPlaywrightLocator, tsString } from "./playwrightLocators";
+import type { TestDataFixture } from "./testData";
+
+/**
+ * Renders the Playwright spec for a fixture.
+ *
+ * @param model - Page model the fixture was generated from (provides locators).
+ * @param fixture - Test data fixture.
+ * @param fixtureFile - Fixture filename, resolved relative to the spec.
+ * @returns TypeScript source text.
+ */
+export function renderTestDataSpec(model: PageModel, fixture: TestDataFixture, fixtureFile: string): string {
+  const byId   = new Map(model.elements.map((el) => [el.id, el]));
+  const locate = (id: string) => {
+    const el   = byId.get(id);
+    const hint = el && pickLocatorHint(el.locators);
+    return el && hint ? toPlaywrightLocator(hint, playwrightRoot("page", el.frames)) : undefined;
+  };
+
+  const fields: string[]  = [];
+  const submits: string[] = [];
+  const checks: string[]  = [];
+
+  for (const form of fixture.forms) {
+    for (const field of form.fields) {
+      const expr = locate(field.id);
+      if (expr) fields.push(`  ${tsString(field.id)}: { kind: ${tsString(field.kind)}, locate: (page) => ${expr} },`);
+    }
+    const submit = form.submit && locate(form.submit);
+    if (submit) submits.push(`  ${tsString(form.form)}: (page) => ${submit},`);
+    checks.push(`  // ${tsString(form.form)}: async (page) => { await expect(page).toHaveURL(/success/); },`);
+  }
+
+  const lines = [
+    `import * as fs from "fs";`,
+    `import * as path from "path";`,
+    `import { test, expect, type Locator, type Page } from "@playwright/test";`,
+    "",
+    "/**",
+    ` * Data-driven form tests for ${model.url}`,
+    " *",
+    " * @remarks",
+    ` * Generated by recon from ${fixtureFile} (seed ${fixture.seed}).`,
+    " * Field checks use the browser's constraint validation API; forms validated",
+    " * only by script need their own assertions.",
+    " *",
+    " * Fill in SUCCESS_CHECKS with what a successful submission of each form looks",
+    " * like; a form's \"accepts valid data\" test is skipped after its field checks",
+    " * until it has one.",
+    " */",
+    "type Value = string | boolean;",
+    "type Variant = { name: string; field: string; expect: \"valid\" | \"invalid\"; values: Record<string, Value> };",
+    "type FormData = { form: string; valid: Record<string, Value>; variants: Variant[] };",
+    "",
+    `const FIXTURE = JSON.parse(fs.readFileSync(path.join(__dirname, ${tsString(fixtureFile)}), "utf-8")) as {`,
+    "  url: string;",
+    "  forms: FormData[];",
+    "};",
+    "",
+    "const FIELDS: Record<string, { kind: string; locate: (page: Page) => Locator }> = {",
+    ...fields,
+    "};",
+    "",
+    "const SUBMITS: Record<string, (page: Page) => Locator> = {",
+    ...submits,
+    "};",
+    "",
+    "const SUCCESS_CHECKS: Record<string, (page: Page) => Promise<void>> = {",
+    ...checks,
+    "};",
+    "",
+    "async function fillForm(page: Page, values: Record<string, Value>): Promise<void> {",
+    "  for (const [id, value] of Object.entries(values)) {",
+    "    const field = FIELDS[id];",
+    "    if (!field) continue;",
+    "    const target = field.locate(page);",
+    "    if (typeof value === \"boolean\") await target.setChecked(value);",
+    "    else if (field.kind === \"select\") await target.selectOption(value);",
+    "    else await target.fill(value);",
+    "  }",
+    "}",
+    "",
+    "type FieldState = { kept: boolean; valid: boolean; message: string };",
+    "",
+    "async function fieldState(page: Page, id: string, value: Value): Promise<FieldState> {",
+    "  return FIELDS[id].locate(page).evaluate((el, v) => {",
+    "    const input = el as HTMLInputElement;",
+    "    const current = typeof v === \"boolean\" ? input.checked : input.value;",
+    "    return { kept: current === v, valid: input.checkValidity(), message: input.validationMessage };",
+    "  }, value);",
+    "}",
+    "",
+    "async function accepts(page: Page, id: string, value: Value): Promise<boolean> {",
+    "  const state = await fieldState(page, id, value);",
+    "  return state.kept && state.valid;",
+    "}",
+    "",
+    "async function submit(page: Page, form: string): Promise<void> {",
+    "  if (SUBMITS[form]) await SUBMITS[form](page).click();",
+    "}",
+    "",
+    "for (const form of FIXTURE.forms) {",
+    "  test.describe(form.form, () => {",
+    "    test.beforeEach(async ({ page }) => {",
+    "      await page.goto(FIXTURE.url);",
+    "    });",
+    "",
+    "    test(\"accepts valid data\", async ({ page }) => {",
+    "      await fillForm(page, form.valid);",
+    "      for (const [id, value] of Object.entries(form.valid)) {",
+    "        if (FIELDS[id]) expect(await accepts(page, id, value), id).toBe(true);",
+    "      }",
+    "      const successCheck = SUCCESS_CHECKS[form.form];",
+    "      test.skip(!successCheck, `no SUCCESS_CHECKS entry for ${form.form}`);",
+    "      await submit(page, form.form);",
+    "      await successCheck!(page);",
+    "    });",
+    "",
+    "    for (const variant of form.variants) {",
+    "      test(variant.name, async ({ page }) => {",
+    "        test.skip(!FIELDS[variant.field], `no usable locator for ${variant.field}`);",
+    "        const value = variant.values[variant.field];",
+    "        await fillForm(page, variant.values);",
+    "        const state = await fieldState(page, variant.field, value);",
+    "        expect(state.kept && state.valid).toBe(variant.expect === \"valid\");",
+    "        await submit(page, form.form);",
+    "        // A refused value never reaches the form; one the field kept must block the submission",
+    "        if (variant.expect === \"invalid\" && state.kept) {",
+    "          const after = await fieldState(page, variant.field, value);",
+    "          expect(after.valid, \"field still invalid after submit\").toBe(false);",
+    "          expect(after.message, \"validation message\").not.toBe(\"\");",
+    "        }",
+    "      });",
+    "    }",
+    "  });",
+    "}",
+    "",
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Writes the data-driven spec next to its fixture.
+ *
+ * @param outputDir - Directory containing the fixture (created if missing).
+ * @param model - Page model the fixture was generated from.
+ * @param fixture - Test data fixture.
+ * @param fixtureFile - Fixture filename.
+ * @returns Full path to the written spec.
+ */
+export async function writeTestDataSpec(
+  outputDir: string,
+  model: PageModel,
+  fixture: TestDataFixture,
+  fixtureFile: string
+): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, fixtureFile.replace(/\.json$/, ".spec.ts"));
+
+  await fs.writeFile(filePath, renderTestDataSpec(model, fixture, fixtureFile), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview
+ * Generates a WebdriverIO page object class from a {@link PageModel}.
+ *
+ * @remarks
+ * Label hints become `aria/<name>` selectors, which WebdriverIO resolves by
+ * exact accessible name; labels that may have been cut short are not used.
+ * Role hints are not used either: `aria/` does not check the role, so the
+ * selector could match another element of the same name. Placeholder hints
+ * become CSS attribute selectors. Test id hints are not used: they do not
+ * record which attribute held the id, and the element's CSS hint already
+ * matches it on every test id attribute the scan looked at. CSS chained
+ * through shadow hosts becomes a `>>>` deep selector for the innermost part,
+ * which searches every shadow root of the page, so it is only used when no
+ * other hint is supported.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { LocatorHint, PageModel } from "../model/pageModel";
+import { cssAttribute, describeMember, isTruncatedName, planPageObject, shadowChain, type PlannedMember } from "./pageObjectPlan";
+import { tsString } from "./playwrightLocators";
+import { pageObjectClassName } from "./writePageObject";
+
+/**
+ * Members declared on every generated class.
+ */
+const RESERVED_MEMBERS = ["open", "constructor"];
+
+/**
+ * Renders a WebdriverIO selector for a hint.
+ *
+ * @param hint - Locator hint.
+ * @returns A selector string literal, or `undefined` for test ids, roles,
+ * truncated labels, shadow-DOM CSS (see {@link toWebdriverioDeepSelector})
+ * and XPath that WebdriverIO would not recognize as XPath.
+ */
+export function toWebdriverioSelector(hint: LocatorHint): string | undefined {
+  switch (hint.strategy) {
+    case "testId":
+    case "role":
+      return undefined;
+    case "label":
+      return isTruncatedName(hint.value) ? undefined : tsString(`aria/${hint.value}`);
+    case "placeholder":
+      return tsString(cssAttribute("placeholder", hint.value));
+    case "css":
+      return shadowChain(hint.value) ? undefined : tsString(hint.value);
+    case "xpath":
+      // WebdriverIO treats selectors starting with "/", "(" or "../" as XPath
+      return /^(\/|\(|\.\.?\/)/.test(hint.value) ? tsString(hint.value) : undefined;
+  }
+}
+
+/**
+ * Renders a deep selector for a CSS hint chained through shadow hosts.
+ *
+ * @remarks
+ * Deep selectors search every open shadow root, so only the innermost
+ * selector is kept, and it may match elements in other shadow roots.
+ *
+ * @param hint - Locator hint.
+ * @returns A `>>>` selector string literal, or `undefined` for other hints.
+ */
+export function toWebdriverioDeepSelector(hint: LocatorHint): string | undefined {
+  const chain = hint.strategy === "css" ? shadowChain(hint.value) : undefined;
+  return chain && tsString(`>>>${chain[chain.length - 1]}`);
+}
+
+/**
+ * Renders the action method for an element, if its kind has one.
+ *
+ * @param planned - Planned member.
+ * @returns Method source lines, or an empty array.
+ */
+function renderAction({ el, member, action: name }: PlannedMember): string[] {
+  if (!name) return [];
+
+  switch (el.kind) {
+    case "textbox":
+    case "textarea":
+      return [`  async ${name}(value: string): Promise<void> {`, `    await this.${member}.setValue(value);`, `  }`];
+    case "select":
+      return [`  async ${name}(value: string): Promise<void> {`, `    await this.${member}.selectByAttribute("value", value);`, `  }`];
+    case "checkbox":
+      return [
+        `  async ${name}(checked = true): Promise<void> {`,
+        `    if ((await this.${member}.isSelected()) !== checked) await this.${member}.click();`,
+        `  }`,
+      ];
+    default:
+      return [`  async ${name}(): Promise<void> {`, `    await this.${member}.click();`, `  }`];
+  }
+}
+
+/**
+ * Renders a WebdriverIO page object class as TypeScript source.
+ *
+ * @param model - Page model to render.
+ * @returns TypeScript source for the page object module.
+ */
+export function renderWebdriverioPageObject(model: PageModel): string {
+  const className = pageObjectClassName(model);
+  const plan      = planPageObject(model, toWebdriverioSelector, {
+    reserved: RESERVED_MEMBERS,
+    fallback: toWebdriverioDeepSelector,
+  });
+  const members: string[] = [];
+
+  for (const { collection, locator, member } of plan.collections) {
+    members.push(
+      "",
+      `  /** All items of ${collection.kind} ${collection.id} */`,
+      `  get ${member}() {`,
+      `    return $$(${locator});`,
+      `  }`,
+    );
+  }
+
+  for (const planned of plan.members) {
+    members.push(
+      "",
+      `  /** ${describeMember(planned.el, planned.index)} */`,
+      `  get ${planned.member}() {`,
+      `    return $(${planned.locator});`,
+      `  }`,
+    );
+
+    const action = renderAction(planned);
+    if (action.length) members.push("", ...action);
+  }
+
+  return [
+    `import { $, $$, browser } from "@wdio/globals";`,
+    "",
+    "/**",
+    ` * WebdriverIO page object for ${model.url}`,
+    " *",
+    " * @remarks",
+    ` * Generated by recon from a scan taken at ${model.scannedAt}.`,
+    ...(plan.skipped.length ? [" *", ` * Skipped: ${plan.skipped.join(", ")}`] : []),
+    " */",
+    `export class ${className} {`,
+    `  async open(): Promise<void> {`,
+    `    await browser.url(${tsString(model.url)});`,
+    `  }`,
+    ...members,
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes a generated WebdriverIO page object to disk.
+ *
+ * @param outputDir - Directory to write to (e.g. `generated/webdriverio`).
+ * @param model - Page model to render.
+ * @returns Full path to the written file.
+ */
+export async function writeWebdriverioPageObject(outputDir: string, model: PageModel): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, `${pageObjectClassName(model)}.ts`);
+
+  await fs.writeFile(filePath, renderWebdriverioPageObject(model), "utf-8");
+  return filePath;
+}
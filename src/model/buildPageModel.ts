@@ -2,8 +2,27 @@
  * @fileoverview
  * Builds a framework-agnostic {@link PageModel} from a recon scan report.
  */
-import { PageModel, ElementKind, ElementModel, LocatorHint } from "./pageModel";
-import { ReconReport, ReconElement } from "../reporting/types";
+import {
+  PageModel,
+  CollectionField,
+  CollectionModel,
+  ElementKind,
+  ElementModel,
+  FormModel,
+  LocatorHint,
+  SectionModel,
+} from "./pageModel";
+import { ReconReport, ReconElement, ReconRegion } from "../reporting/types";
+import { matchElements } from "./diffPageModels";
+import { assignMemberNames, memberNameFor, type NameOverrides } from "./memberNames";
+import { uniqueName } from "./identifiers";
+import { stabilityScore } from "./locatorStability";
+
+/**
+ * Minimum similarity for carrying an id forward from a fuzzy match: same kind,
+ * role and name, or a close name with shared locators.
+ */
+const CARRY_FORWARD_THRESHOLD = 0.7;
 
 /**
  * Extracts a domain from a URL.
@@ -26,6 +45,15 @@ function normalizeWhitespace(s: string): string {
   return s.trim().replace(/\s+/g, " ");
 }
 
+/**
+ * Length display names and name-based locator hints are cut to.
+ *
+ * @remarks
+ * A name of exactly this length may have been cut, so it only matches the
+ * element's accessible name as a prefix.
+ */
+export const MAX_NAME_LENGTH = 80;
+
 /**
  * Produces a safe, short "display name" string for use in tables and code generation.
  *
@@ -35,20 +63,22 @@ function normalizeWhitespace(s: string): string {
 function safeName(s?: string): string | undefined {
   if (!s) return undefined;
   const v = normalizeWhitespace(s);
-  return v.length ? v.slice(0, 80) : undefined;
+  return v.length ? v.slice(0, MAX_NAME_LENGTH) : undefined;
 }
 
 /**
  * Maps a recon element to a framework-agnostic {@link ElementKind}.
  *
  * @remarks
- * This mapping is intentionally conservative. If the recon report does not capture
- * sufficient detail (e.g., input type), generators should not assume checkbox/radio.
+ * This mapping is intentionally conservative. Checkbox and radio kinds come from
+ * the captured input type (or an explicit role); other inputs are textboxes.
  *
  * @param el - Recon element.
  * @returns Framework-agnostic element kind.
  */
 function kindFromRecon(el: ReconElement): ElementKind {
+  if (el.role === "checkbox" || el.role === "radio") return el.role;
+
   // ReconElementType: "button" | "link" | "input" | "select" | "textarea" | "other"
   switch (el.type) {
     case "button":
@@ -56,8 +86,7 @@ function kindFromRecon(el: ReconElement): ElementKind {
     case "link":
       return "link";
     case "input":
-      // we can’t reliably infer checkbox/radio without input type in report,
-      // so we treat as textbox for now (future enhancement: capture inputType)
+      if (el.typeAttr === "checkbox" || el.typeAttr === "radio") return el.typeAttr;
       return "textbox";
     case "select":
       return "select";
@@ -89,11 +118,31 @@ function buildName(el: ReconElement): string | undefined {
   );
 }
 
+/**
+ * Ranks a hint by how many nodes it matched during the scan.
+ *
+ * @remarks
+ * Unique hints rank first, then hints without validation data, then hints
+ * matching several nodes, and finally hints matching nothing.
+ *
+ * @param hint - Locator hint.
+ * @returns Rank (lower is better).
+ */
+function uniquenessRank(hint: LocatorHint): number {
+  if (hint.matches === 1) return 0;
+  if (hint.matches === undefined) return 1;
+  if (hint.matches > 1) return 2;
+  return 3;
+}
+
 /**
  * Builds an ordered list of locator hints from the recon element.
  *
  * @remarks
- * Preference order (best first): testId → role/name → label → placeholder → css → xpath.
+ * Each hint carries its scanned match count (if validated) and a stability
+ * score. Hints are ordered unique-first, then by stability, which yields the
+ * base preference order testId → role/name → label → placeholder → css → xpath
+ * when no validation data is available.
  * Generators should select the first compatible hint for their framework.
  *
  * @param el - Recon element.
@@ -120,49 +169,398 @@ function buildLocators(el: ReconElement): LocatorHint[] {
   if ((el as any).xpath) locators.push({ strategy: "xpath", value: (el as any).xpath });
 
   // Ensure no empty strings sneak in
-  return locators.filter((l) => {
+  const usable = locators.filter((l) => {
     if (l.strategy === "role") return Boolean(l.role);
     if ("value" in l) return Boolean(l.value);
     return true;
   });
+
+  const matches = el.locatorMatches ?? {};
+  const scored  = usable.map((l): LocatorHint => ({
+    ...l,
+    matches: matches[l.strategy],
+    stability: stabilityScore(l),
+  }));
+
+  // Array.prototype.sort is stable, so ties keep the base preference order
+  return scored.sort(
+    (a, b) => uniquenessRank(a) - uniquenessRank(b) || b.stability! - a.stability!
+  );
 }
 
 /**
- * Builds a stable-ish identifier used for deterministic code generation.
+ * Determines whether validation data shows an element has no unique locator.
  *
- * @remarks
- * This is not intended to be a globally stable ID across all scans, but it aims to
- * minimize diffs between scans of the same page by using strong element signals first.
+ * @param locators - Scored locator hints.
+ * @returns `true` if hints were validated and none matched exactly one node.
+ */
+function lacksUniqueLocator(locators: LocatorHint[]): boolean {
+  const validated = locators.filter((l) => l.matches !== undefined);
+  return validated.length > 0 && !validated.some((l) => l.matches === 1);
+}
+
+/**
+ * Picks the strongest identity signal of an element.
  *
  * @param el - Recon element.
- * @param index - Element index (fallback uniqueness).
- * @returns A slug-based ID.
- */
-function stableElementId(el: ReconElement, index: number): string {
-  // stable-ish internal id: kind + name/id fallback + index
-  const base =
-    (el as any).testId ||
-    el.id ||
-    el.name ||
-    el.ariaLabel ||
-    el.text ||
-    el.tagName ||
-    `element-${index}`;
-
-  const slug = normalizeWhitespace(String(base))
+ * @returns Slug of the test id, DOM id, `name` attribute or accessible name,
+ *   falling back to the visible text and finally the tag name.
+ */
+function identitySlug(el: ReconElement): string {
+  const signal = el.testId || el.id || el.name || buildName(el) || el.tagName;
+  return slugify(signal) || "unnamed";
+}
+
+/**
+ * Slugs a landmark for use in element ids.
+ *
+ * @param region - Enclosing landmark.
+ * @returns E.g. `footer` or `nav-primary`.
+ */
+function regionSlug(region: ReconRegion): string {
+  const name = region.name ? slugify(region.name) : "";
+  return name ? `${region.kind}-${name}` : region.kind;
+}
+
+/**
+ * Makes ids unique by suffixing repeats in order (`-2`, `-3`, ...).
+ *
+ * @param ids - Candidate ids.
+ * @param taken - Ids already in use; updated in place.
+ * @returns Unique ids, index-aligned with `ids`.
+ */
+function uniqueIds(ids: string[], taken: Set<string>): string[] {
+  return ids.map((base) => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id;
+  });
+}
+
+/**
+ * Builds stable element ids for deterministic code generation.
+ *
+ * @remarks
+ * An id is the element type and its strongest identity signal
+ * (`button-checkout`, `input-email`), with no positional component, so
+ * inserting or removing an element does not rename the others. Elements that
+ * share an id are qualified with their landmark (`link-footer-home`); any still
+ * colliding get a numeric suffix in page order.
+ *
+ * @param elements - Recon elements.
+ * @returns Unique ids, index-aligned with `elements`.
+ */
+function stableElementIds(elements: ReconElement[]): string[] {
+  const base   = elements.map((el) => `${el.type}-${identitySlug(el)}`);
+  const counts = new Map<string, number>();
+  for (const id of base) counts.set(id, (counts.get(id) ?? 0) + 1);
+
+  const qualified = elements.map((el, i) =>
+    counts.get(base[i])! > 1 && el.region ? `${el.type}-${regionSlug(el.region)}-${identitySlug(el)}` : base[i]
+  );
+  return uniqueIds(qualified, new Set());
+}
+
+/**
+ * Carries ids forward from a previous model of the same page.
+ *
+ * @remarks
+ * Elements are paired like `diffPageModels` pairs them (strong signals, then
+ * fuzzy matches of at least {@link CARRY_FORWARD_THRESHOLD}); matched elements
+ * take the previous id. Unmatched elements keep their own id, suffixed if a
+ * carried id already took it.
+ *
+ * @param elements - Element models with fresh ids; updated in place.
+ * @param previous - Model from the last scan.
+ */
+function carryForwardIds(elements: ElementModel[], previous: PageModel): void {
+  const carried = new Map<ElementModel, string>();
+  for (const m of matchElements(previous.elements, elements, CARRY_FORWARD_THRESHOLD)) carried.set(m.after, m.before.id);
+
+  const taken = new Set(carried.values());
+  for (const el of elements) {
+    el.id = carried.get(el) ?? uniqueIds([el.id], taken)[0];
+  }
+}
+
+/**
+ * Converts text to a short lowercase slug.
+ *
+ * @param s - Input text.
+ * @returns Slug (possibly empty).
+ */
+function slugify(s: string): string {
+  return normalizeWhitespace(s)
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-+|-+$/g, "")
     .slice(0, 50);
+}
+
+/**
+ * Groups elements into form models by their owning `<form>`.
+ *
+ * @remarks
+ * Forms are identified by frame, shadow hosts and form index, and listed in the
+ * order their first element appears. Buttons are not fields; the first submit
+ * button (`<button>` without a type, `type="submit"` or `type="image"`) becomes
+ * the form's `submit`.
+ *
+ * @param report - Recon scan report.
+ * @param elements - Element models, index-aligned with `report.elements`.
+ * @returns Form models (empty if no element belongs to a form).
+ */
+function buildForms(report: ReconReport, elements: ElementModel[]): FormModel[] {
+  const forms = new Map<string, FormModel>();
+  const taken = new Set<string>();
 
-  return `${el.type}-${slug || "unnamed"}-${index}`;
+  report.elements.forEach((el, index) => {
+    if (!el.form) return;
+
+    const key = JSON.stringify([el.framePath ?? [], el.shadowHosts ?? [], el.form.index]);
+    let form  = forms.get(key);
+
+    if (!form) {
+      const actionPath = el.form.action ? new URL(el.form.action).pathname : "";
+      const base       = `form-${slugify(el.form.id || el.form.name || actionPath) || forms.size + 1}`;
+      let id = base;
+      for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+      taken.add(id);
+
+      form = {
+        id,
+        name: el.form.id || el.form.name,
+        action: el.form.action,
+        method: el.form.method,
+        frames: el.framePath?.length ? el.framePath : undefined,
+        fields: [],
+      };
+      forms.set(key, form);
+    }
+
+    const model = elements[index];
+    if (model.kind === "button") {
+      const submits = el.typeAttr === "submit" || el.typeAttr === "image";
+      if (submits && !form.submit) form.submit = model.id;
+    } else if (model.kind !== "link") {
+      form.fields.push(model.id);
+    }
+  });
+
+  return [...forms.values()];
+}
+
+/**
+ * Groups elements into sections by their nearest landmark or container.
+ *
+ * @remarks
+ * Sections are identified by frame, region selector and name, and listed in
+ * the order their first element appears. Ids are the region kind plus its
+ * name (e.g. `nav-primary`), de-duplicated with a numeric suffix. Named
+ * landmarks are located by role, others by CSS. Sets each element's `section`.
+ *
+ * @param report - Recon scan report.
+ * @param elements - Element models, index-aligned with `report.elements`.
+ * @returns Section models (empty if no element has a region).
+ */
+function buildSections(report: ReconReport, elements: ElementModel[]): SectionModel[] {
+  const sections = new Map<string, SectionModel>();
+  const taken    = new Set<string>();
+
+  report.elements.forEach((el, index) => {
+    const region = el.region;
+    if (!region) return;
+
+    const key   = JSON.stringify([el.framePath ?? [], region.css, region.name ?? ""]);
+    let section = sections.get(key);
+
+    if (!section) {
+      const base = region.name ? `${region.kind}-${slugify(region.name) || sections.size + 1}` : region.kind;
+      let id = base;
+      for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+      taken.add(id);
+
+      section = {
+        id,
+        kind: region.kind,
+        name: region.name,
+        locator: region.role && region.name
+          ? { strategy: "role", role: region.role, name: region.name }
+          : { strategy: "css", value: region.css },
+        frames: el.framePath?.length ? el.framePath : undefined,
+        elements: [],
+      };
+      sections.set(key, section);
+    }
+
+    section.elements.push(elements[index].id);
+    elements[index].section = section.id;
+  });
+
+  return [...sections.values()];
+}
+
+/**
+ * Collections whose items share no constant control are only folded from this many items up.
+ */
+const MIN_UNIFORM_ITEMS = 8;
+
+/**
+ * Picks the locator of a collection field, resolved from an item root.
+ *
+ * @remarks
+ * A hint that is identical for every instance (role and name, test id, label
+ * or placeholder) is preferred, since it reads well and survives markup
+ * changes; otherwise the CSS path from the item is used.
+ *
+ * @param instances - Element models of the field, one per item.
+ * @param childCss - CSS path from the item (`""` for the item itself).
+ * @returns The locator (none for the item itself) and whether it is the same
+ * hint in every item, or `undefined` if the field cannot be located.
+ */
+function fieldLocator(
+  instances: ElementModel[],
+  childCss: string | undefined
+): { locator?: LocatorHint; constant: boolean } | undefined {
+  const keyOf = (h: LocatorHint) => JSON.stringify(h.strategy === "role" ? [h.role, h.name] : [h.strategy, h.value]);
+
+  for (const strategy of ["role", "testId", "label", "placeholder"] as const) {
+    const hints = instances.map((el) => el.locators.find((h) => h.strategy === strategy && (h.strategy !== "role" || h.name)));
+    if (hints.every(Boolean) && new Set(hints.map((h) => keyOf(h!))).size === 1) {
+      const { matches: _m, stability: _s, ...hint } = hints[0]!;
+      return { locator: hint as LocatorHint, constant: true };
+    }
+  }
+
+  if (childCss === undefined) return undefined;
+  return { locator: childCss ? { strategy: "css", value: childCss } : undefined, constant: false };
 }
 
+/**
+ * Names a collection field.
+ *
+ * @param instances - Element models of the field.
+ * @param locator - Field locator.
+ * @returns The constant name, the last class of the CSS path, or the element kind.
+ */
+function fieldName(instances: ElementModel[], locator: LocatorHint | undefined): string {
+  if (locator?.strategy === "role") return locator.name ?? locator.role;
+  if (locator && locator.strategy !== "css") return locator.value;
+
+  const lastStep = locator?.value.split(" > ").pop() ?? "";
+  const cls      = /\.([a-z_-][a-z0-9_-]*)/i.exec(lastStep.replace(/:nth-of-type\(\d+\)/, ""));
+  return cls?.[1] ?? instances[0].kind;
+}
+
+/**
+ * Folds elements of repeated items into collection models.
+ *
+ * @remarks
+ * Elements are grouped by frame and collection key (the items' container).
+ * Within a group, elements with the same kind and CSS path from their item
+ * form a field. A group becomes a collection when it spans at least two items
+ * and either some field has the same role/name, test id, label or placeholder
+ * in every item (an "Add to cart" button, an "Edit" link), or it spans
+ * {@link MIN_UNIFORM_ITEMS} items or more. Short lists of distinct links, such
+ * as a navigation menu, are therefore left as individual elements. Sets each
+ * folded element's `collection`.
+ *
+ * @param report - Recon scan report.
+ * @param elements - Element models, index-aligned with `report.elements`.
+ * @returns Collection models (empty if nothing repeats).
+ */
+function buildCollections(report: ReconReport, elements: ElementModel[]): CollectionModel[] {
+  const groups = new Map<string, number[]>();
+  report.elements.forEach((el, index) => {
+    if (!el.row) return;
+    const key = JSON.stringify([el.framePath ?? [], el.row.key]);
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  const collections: CollectionModel[] = [];
+  const taken = new Set<string>();
+
+  for (const indexes of groups.values()) {
+    const first = report.elements[indexes[0]];
+    const row   = first.row!;
+    const items = new Set(indexes.map((i) => report.elements[i].row!.index));
+    if (items.size < 2) continue;
+
+    // Fields: same kind and path from the item
+    const slots = new Map<string, number[]>();
+    for (const i of indexes) {
+      const el  = report.elements[i];
+      const key = JSON.stringify([elements[i].kind, el.row!.childCss ?? null]);
+      slots.set(key, [...(slots.get(key) ?? []), i]);
+    }
+
+    const fields: CollectionField[] = [];
+    const folded: number[] = [];
+    const members = new Set<string>();
+    let constant = false;
+    for (const slot of slots.values()) {
+      const instances = slot.map((i) => elements[i]);
+      const picked    = fieldLocator(instances, report.elements[slot[0]].row!.childCss);
+      if (!picked) continue;
+
+      constant ||= picked.constant;
+      const name = fieldName(instances, picked.locator);
+      fields.push({
+        name,
+        memberName: uniqueName(memberNameFor({ kind: instances[0].kind, name }), members),
+        kind: instances[0].kind,
+        locator: picked.locator,
+        elements: instances.map((el) => el.id),
+      });
+      folded.push(...slot);
+    }
+    if (!fields.length || (!constant && items.size < MIN_UNIFORM_ITEMS)) continue;
+
+    const kind = row.kind === "listitem" ? "list" : row.kind === "row" ? "table" : "grid";
+    const base = row.name ? `${kind}-${slugify(row.name) || collections.length + 1}` : kind;
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+
+    collections.push({
+      id,
+      kind,
+      name: row.name,
+      itemLocator: { strategy: "css", value: row.itemCss },
+      frames: first.framePath?.length ? first.framePath : undefined,
+      count: Math.max(...indexes.map((i) => report.elements[i].row!.count)),
+      fields,
+    });
+    for (const i of folded) elements[i].collection = id;
+  }
+
+  return collections;
+}
+
+/**
+ * Options for {@link buildPageModel}.
+ */
+export type BuildPageModelOptions = {
+  // Model from the last scan, to carry ids forward from
+  previous?: PageModel;
+  // Preferred member names by element id (see loadNameOverrides)
+  nameOverrides?: NameOverrides;
+};
+
 /**
  * Builds a {@link PageModel} from a recon scan report.
  *
+ * @remarks
+ * With a `previous` model of the same page, elements that clearly match one of
+ * its elements keep that element's id, so generated code and diffs stay stable
+ * across rescans even when an element's own identity signal changed. Member
+ * names are derived once ids and sections are known, so `nameOverrides` keyed
+ * by id keep applying after a rescan.
+ *
  * @param report - Recon scan report.
  * @param title - Optional page title if captured by the scanner.
+ * @param options - Previous model and member name overrides.
  * @returns A framework-agnostic page model suitable for code generation.
  *
  * @example
@@ -171,28 +569,53 @@ function stableElementId(el: ReconElement, index: number): string {
  * console.log(model.domain);
  * ```
  */
-export function buildPageModel(report: ReconReport, title?: string): PageModel {
+export function buildPageModel(report: ReconReport, title?: string, options: BuildPageModelOptions = {}): PageModel {
   const domain = domainFromUrl(report.url);
+  const ids    = stableElementIds(report.elements);
 
-  const elements: ElementModel[] = report.elements.map((el, index) => ({
-    id: stableElementId(el, index),
-    kind: kindFromRecon(el),
-    name: buildName(el),
-    tagName: el.tagName,
-    role: (el as any).role,
-    href: el.type === "link" ? (el as any).href : undefined,
-    locators: buildLocators(el),
-    flags: {
-      disabled: (el as any).disabled,
-      ariaDisabled: (el as any).ariaDisabled,
-    },
-  }));
+  const elements: ElementModel[] = report.elements.map((el, index) => {
+    const locators = buildLocators(el);
+
+    return {
+      id: ids[index],
+      kind: kindFromRecon(el),
+      name: buildName(el),
+      tagName: el.tagName,
+      role: (el as any).role,
+      href: el.type === "link" ? (el as any).href : undefined,
+      inputType: el.tagName === "input" ? el.typeAttr : undefined,
+      constraints: el.constraints,
+      options: el.options,
+      locators,
+      frames: el.framePath?.length ? el.framePath : undefined,
+      row: el.row && { kind: el.row.kind, index: el.row.index, count: el.row.count },
+      boundingBox: el.boundingBox,
+      flags: {
+        disabled: (el as any).disabled,
+        ariaDisabled: (el as any).ariaDisabled,
+        checked: el.checked,
+        noUniqueLocator: lacksUniqueLocator(locators) || undefined,
+        revealed: el.revealedBy ? true : undefined,
+      },
+    };
+  });
+
+  if (options.previous) carryForwardIds(elements, options.previous);
+
+  const forms       = buildForms(report, elements);
+  const sections    = buildSections(report, elements);
+  const collections = buildCollections(report, elements);
+  assignMemberNames(elements, options.nameOverrides);
 
   return {
     url: report.url,
     domain,
     scannedAt: report.scannedAt,
     title,
+    screenshot: report.screenshot,
     elements,
+    forms: forms.length ? forms : undefined,
+    sections: sections.length ? sections : undefined,
+    collections: collections.length ? collections : undefined,
   };
 }
\ No newline at end of file
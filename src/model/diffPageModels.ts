@@ -0,0 +1,333 @@
+/**
+ * @fileoverview
+ * Compares two {@link PageModel}s and reports what changed between scans.
+ *
+ * @remarks
+ * Elements are matched in two passes:
+ * 1. Strong signals (test id, DOM id, `name` attribute) recovered from the
+ *    locator hints, the same signals element ids are derived from.
+ * 2. Fuzzy matching on kind, name, role and shared locators for the rest.
+ *
+ * Matched elements are compared field by field. A change is "breaking" when
+ * existing automation would likely stop finding the element: the element was
+ * removed, or the locator it was previously resolved by no longer exists.
+ */
+import type { ElementModel, LocatorHint, PageModel } from "./pageModel";
+
+/**
+ * Element fields compared between scans.
+ */
+export type ElementChangeField = "name" | "locators" | "locatorOrder" | "disabled" | "ariaDisabled" | "href";
+
+/**
+ * A single field-level change on a matched element.
+ */
+export type ElementChange = {
+  field: ElementChangeField;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * An element of the earlier scan paired with its counterpart in the later one.
+ */
+export type ElementMatch = {
+  before: ElementModel;
+  after: ElementModel;
+  // How the pair was matched
+  matchedBy: "testId" | "domId" | "nameAttr" | "fuzzy";
+};
+
+/**
+ * An element present in both scans with at least one change.
+ */
+export type ModifiedElement = ElementMatch & {
+  changes: ElementChange[];
+  breaking: boolean;
+};
+
+/**
+ * The result of comparing two page models.
+ */
+export type PageModelDiff = {
+  before: { url: string; scannedAt: string };
+  after: { url: string; scannedAt: string };
+  added: ElementModel[];
+  removed: ElementModel[];
+  modified: ModifiedElement[];
+  unchanged: number;
+  breaking: boolean;
+};
+
+/**
+ * Minimum fuzzy similarity required to treat two elements as the same.
+ */
+const FUZZY_THRESHOLD = 0.5;
+
+/**
+ * Serializes a locator hint to a comparable signature (ignores scan statistics).
+ *
+ * @param hint - Locator hint.
+ * @returns Signature such as `testId:submit` or `role:button|Save`.
+ */
+function hintSignature(hint: LocatorHint): string {
+  if (hint.strategy === "role") return `role:${hint.role}|${hint.name ?? ""}`;
+  return `${hint.strategy}:${hint.value}`;
+}
+
+/**
+ * Recovers strong identity signals from an element's locator hints.
+ *
+ * @param el - Element model.
+ * @returns Signals keyed by kind; absent signals are omitted.
+ */
+function strongSignals(el: ElementModel): Partial<Record<"testId" | "domId" | "nameAttr", string>> {
+  const signals: Partial<Record<"testId" | "domId" | "nameAttr", string>> = {};
+
+  for (const hint of el.locators) {
+    if (hint.strategy === "testId") signals.testId ??= hint.value;
+    if (hint.strategy === "css") {
+      const id = /^#([^\s>]+)$/.exec(hint.value);
+      if (id) signals.domId ??= id[1];
+      const name = /^[a-z0-9-]+\[name="(.+)"\]$/.exec(hint.value);
+      if (name) signals.nameAttr ??= name[1];
+    }
+    if (hint.strategy === "xpath") {
+      const id = /^\/\/\*\[@id="(.+)"\]$/.exec(hint.value);
+      if (id) signals.domId ??= id[1];
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Splits a name into lowercase word tokens.
+ *
+ * @param s - Name (optional).
+ * @returns Token set.
+ */
+function tokens(s?: string): Set<string> {
+  return new Set((s ?? "").toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+/**
+ * Computes a 0..1 similarity score between two elements of the same kind.
+ *
+ * @remarks
+ * Weighted blend of name token overlap (0.5), role equality (0.2) and shared
+ * locator signatures (0.3).
+ *
+ * @param a - Element from the old model.
+ * @param b - Element from the new model.
+ * @returns Similarity score (0 when kinds differ).
+ */
+function similarity(a: ElementModel, b: ElementModel): number {
+  if (a.kind !== b.kind) return 0;
+
+  const ta = tokens(a.name);
+  const tb = tokens(b.name);
+  const union = new Set([...ta, ...tb]).size;
+  const nameScore = union ? [...ta].filter((t) => tb.has(t)).length / union : 0;
+
+  const roleScore = a.role === b.role ? 1 : 0;
+
+  const la = new Set(a.locators.map(hintSignature));
+  const lb = new Set(b.locators.map(hintSignature));
+  const lunion = new Set([...la, ...lb]).size;
+  const locatorScore = lunion ? [...la].filter((s) => lb.has(s)).length / lunion : 0;
+
+  return nameScore * 0.5 + roleScore * 0.2 + locatorScore * 0.3;
+}
+
+/**
+ * Compares two matched elements field by field.
+ *
+ * @remarks
+ * Hint order follows match counts and stability, so it can change between
+ * scans of the same markup. Locators are compared as sets; a different order
+ * is only reported (as `locatorOrder`) when it changes the preferred hint,
+ * which generated code is built from.
+ *
+ * @param before - Element from the old model.
+ * @param after - Element from the new model.
+ * @returns Field changes (empty if the element is unchanged).
+ */
+function compareElements(before: ElementModel, after: ElementModel): ElementChange[] {
+  const changes: ElementChange[] = [];
+
+  if (before.name !== after.name) changes.push({ field: "name", before: before.name, after: after.name });
+  if (before.href !== after.href) changes.push({ field: "href", before: before.href, after: after.href });
+
+  const bd = Boolean(before.flags?.disabled);
+  const ad = Boolean(after.flags?.disabled);
+  if (bd !== ad) changes.push({ field: "disabled", before: bd, after: ad });
+
+  const ba = Boolean(before.flags?.ariaDisabled);
+  const aa = Boolean(after.flags?.ariaDisabled);
+  if (ba !== aa) changes.push({ field: "ariaDisabled", before: ba, after: aa });
+
+  const bl = before.locators.map(hintSignature);
+  const al = after.locators.map(hintSignature);
+  const same = bl.length === al.length && bl.every((s) => al.includes(s));
+  if (!same) changes.push({ field: "locators", before: bl, after: al });
+  else if (bl[0] !== al[0]) changes.push({ field: "locatorOrder", before: bl, after: al });
+
+  return changes;
+}
+
+/**
+ * Determines whether a locator change breaks existing automation.
+ *
+ * @param before - Element from the old model.
+ * @param after - Element from the new model.
+ * @returns `true` if the old primary locator is no longer among the new hints.
+ */
+function isBreaking(before: ElementModel, after: ElementModel): boolean {
+  const primary = before.locators[0];
+  if (!primary) return false;
+
+  const current = new Set(after.locators.map(hintSignature));
+  return !current.has(hintSignature(primary));
+}
+
+/**
+ * Pairs the elements of two scans of the same page.
+ *
+ * @remarks
+ * Strong signals are tried first (test id, then DOM id, then `name`
+ * attribute, within the same kind); the remaining elements are paired
+ * greedily by {@link similarity}, best-scoring pairs first.
+ *
+ * @param before - Elements of the earlier scan.
+ * @param after - Elements of the later scan.
+ * @param fuzzyThreshold - Minimum similarity for a fuzzy pair (0..1).
+ * @returns Matched pairs; unmatched elements are absent.
+ */
+export function matchElements(
+  before: ElementModel[],
+  after: ElementModel[],
+  fuzzyThreshold = FUZZY_THRESHOLD
+): ElementMatch[] {
+  const pairs: ElementMatch[] = [];
+  const unmatchedBefore = new Set(before);
+  const unmatchedAfter  = new Set(after);
+
+  // Pass 1: strong signals, strongest first
+  for (const signal of ["testId", "domId", "nameAttr"] as const) {
+    const index = new Map<string, ElementModel>();
+    for (const el of unmatchedAfter) {
+      const key = strongSignals(el)[signal];
+      if (key && !index.has(`${el.kind}|${key}`)) index.set(`${el.kind}|${key}`, el);
+    }
+
+    for (const el of [...unmatchedBefore]) {
+      const key = strongSignals(el)[signal];
+      const match = key ? index.get(`${el.kind}|${key}`) : undefined;
+      if (!match || !unmatchedAfter.has(match)) continue;
+
+      pairs.push({ before: el, after: match, matchedBy: signal });
+      unmatchedBefore.delete(el);
+      unmatchedAfter.delete(match);
+    }
+  }
+
+  // Pass 2: greedy fuzzy matching, best-scoring pairs first
+  const candidates: { before: ElementModel; after: ElementModel; score: number }[] = [];
+  for (const b of unmatchedBefore) {
+    for (const a of unmatchedAfter) {
+      const score = similarity(b, a);
+      if (score >= fuzzyThreshold) candidates.push({ before: b, after: a, score });
+    }
+  }
+  candidates.sort((x, y) => y.score - x.score);
+
+  for (const c of candidates) {
+    if (!unmatchedBefore.has(c.before) || !unmatchedAfter.has(c.after)) continue;
+    pairs.push({ before: c.before, after: c.after, matchedBy: "fuzzy" });
+    unmatchedBefore.delete(c.before);
+    unmatchedAfter.delete(c.after);
+  }
+
+  return pairs;
+}
+
+/**
+ * Compares two page models.
+ *
+ * @param before - Model from the earlier scan.
+ * @param after - Model from the later scan.
+ * @returns Added, removed and modified elements plus a breaking-change flag.
+ *
+ * @example
+ * ```ts
+ * const diff = diffPageModels(lastRelease, current);
+ * if (diff.breaking) process.exitCode = 2;
+ * ```
+ */
+export function diffPageModels(before: PageModel, after: PageModel): PageModelDiff {
+  const pairs = matchElements(before.elements, after.elements);
+  const matchedBefore = new Set(pairs.map((p) => p.before));
+  const matchedAfter  = new Set(pairs.map((p) => p.after));
+
+  const modified: ModifiedElement[] = [];
+  let unchanged = 0;
+
+  for (const pair of pairs) {
+    const changes = compareElements(pair.before, pair.after);
+    if (!changes.length) {
+      unchanged++;
+      continue;
+    }
+    modified.push({ ...pair, changes, breaking: isBreaking(pair.before, pair.after) });
+  }
+
+  // Report in the order elements appear on the page
+  const order = new Map(before.elements.map((el, i) => [el, i]));
+  modified.sort((x, y) => order.get(x.before)! - order.get(y.before)!);
+
+  const removed = before.elements.filter((el) => !matchedBefore.has(el));
+  const added   = after.elements.filter((el) => !matchedAfter.has(el));
+
+  return {
+    before: { url: before.url, scannedAt: before.scannedAt },
+    after: { url: after.url, scannedAt: after.scannedAt },
+    added,
+    removed,
+    modified,
+    unchanged,
+    breaking: removed.length > 0 || modified.some((m) => m.breaking),
+  };
+}
+
+/**
+ * Formats a diff as a human-readable summary.
+ *
+ * @param diff - Page model diff.
+ * @returns Multi-line summary text.
+ */
+export function formatDiffSummary(diff: PageModelDiff): string {
+  const label = (el: ElementModel) => `${el.kind} "${el.name ?? el.id}"`;
+  const show  = (v: unknown) => (Array.isArray(v) ? v[0] ?? "(none)" : JSON.stringify(v));
+
+  const lines = [
+    `Comparing ${diff.before.url} (${diff.before.scannedAt}) → ${diff.after.url} (${diff.after.scannedAt})`,
+    `  added: ${diff.added.length}, removed: ${diff.removed.length}, modified: ${diff.modified.length}, unchanged: ${diff.unchanged}`,
+  ];
+
+  for (const el of diff.removed) lines.push(`  - removed  ${label(el)} [breaking]`);
+  for (const el of diff.added) lines.push(`  + added    ${label(el)}`);
+
+  for (const m of diff.modified) {
+    lines.push(`  ~ modified ${label(m.before)}${m.breaking ? " [breaking]" : ""}`);
+    for (const c of m.changes) {
+      const detail = c.field === "locators" || c.field === "locatorOrder"
+        ? `primary ${show(c.before)} → ${show(c.after)}`
+        : `${show(c.before)} → ${show(c.after)}`;
+      lines.push(`      ${c.field}: ${detail}`);
+    }
+  }
+
+  lines.push(diff.breaking ? "Breaking locator changes found." : "No breaking locator changes.");
+  return lines.join("\n");
+}
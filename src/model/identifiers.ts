@@ -0,0 +1,41 @@
+/**
+ * @fileoverview
+ * Identifier helpers shared by the page model builder and the code generators.
+ *
+ * @remarks
+ * Element ids and generated member names are built from the words of free
+ * text and must both be unique within a page; these helpers split words and
+ * resolve collisions the same way for each.
+ */
+
+/**
+ * Splits free-form text into lowercase alphanumeric words.
+ *
+ * @param s - Input string.
+ * @returns Lowercased words (may be empty).
+ */
+export function words(s: string): string[] {
+  return s
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Returns a name that does not collide with any name in `taken`, and records it.
+ *
+ * @remarks
+ * Collisions are resolved by appending an increasing numeric suffix
+ * (`submit`, `submit2`, `submit3`, ...).
+ *
+ * @param base - Preferred name.
+ * @param taken - Names already in use (mutated).
+ * @returns A unique name.
+ */
+export function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+  taken.add(name);
+  return name;
+}
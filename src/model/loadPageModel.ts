@@ -0,0 +1,52 @@
+/**
+ * @fileoverview
+ * Loads a {@link PageModel} from either a recon report or a page model file.
+ *
+ * @remarks
+ * Commands that consume models (diffing, verification, test data) accept both
+ * file kinds; recon reports are converted with {@link buildPageModel}.
+ */
+import { promises as fs } from "fs";
+import { buildPageModel } from "./buildPageModel";
+import type { PageModel } from "./pageModel";
+import type { ReconReport } from "../reporting/types";
+
+/**
+ * Determines whether parsed JSON looks like a recon report.
+ *
+ * @param data - Parsed JSON.
+ * @returns `true` for recon reports (they carry `counts`; page models carry `domain`).
+ */
+function isReconReport(data: unknown): data is ReconReport {
+  if (!data || typeof data !== "object") return false;
+  const o = data as Record<string, unknown>;
+  return Boolean(o.counts) && Array.isArray(o.elements);
+}
+
+/**
+ * Determines whether parsed JSON looks like a page model.
+ *
+ * @param data - Parsed JSON.
+ * @returns `true` for page models.
+ */
+function isPageModel(data: unknown): data is PageModel {
+  if (!data || typeof data !== "object") return false;
+  const o = data as Record<string, unknown>;
+  return typeof o.domain === "string" && Array.isArray(o.elements);
+}
+
+/**
+ * Reads a recon report or page model JSON file and returns a page model.
+ *
+ * @param filePath - Path to the JSON file.
+ * @returns The page model (built from the report if needed).
+ * @throws If the file is neither a recon report nor a page model.
+ */
+export async function loadPageModel(filePath: string): Promise<PageModel> {
+  const data: unknown = JSON.parse(await fs.readFile(filePath, "utf-8"));
+
+  if (isReconReport(data)) return buildPageModel(data);
+  if (isPageModel(data)) return data;
+
+  throw new Error(`${filePath} is neither a recon report nor a page model`);
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview
+ * Stability scoring for framework-agnostic locator hints.
+ *
+ * @remarks
+ * A stability score estimates how likely a locator is to survive ordinary DOM
+ * changes (restyling, reordering, copy edits). It is independent of whether the
+ * locator is unique on the scanned page; uniqueness is measured separately by
+ * the scanner and combined with the score when ordering hints.
+ *
+ * Scores range from 0 (brittle) to 100 (stable).
+ */
+import type { LocatorHint } from "./pageModel";
+
+/**
+ * Detects ids that look framework-generated (e.g. `:r1:`, `ember123`, UUIDs).
+ *
+ * @param id - Raw id value.
+ * @returns `true` if the id is likely to change between builds or renders.
+ */
+function looksGenerated(id: string): boolean {
+  return /^:|\d{3,}|[0-9a-f]{8}-[0-9a-f]{4}/i.test(id);
+}
+
+/**
+ * Scores a CSS selector produced by the scanner.
+ *
+ * @remarks
+ * Shadow-piercing chains (`host >> inner`) are as stable as their weakest part.
+ *
+ * @param css - CSS selector.
+ * @returns Stability score.
+ */
+function cssScore(css: string): number {
+  const parts = css.split(" >> ");
+  if (parts.length > 1) return Math.min(...parts.map(cssScore));
+
+  // test id attributes (the scanner emits no other data-* selectors)
+  if (/^\[data-[a-z0-9-]+=/i.test(css)) return 90;
+
+  const id = /^#(.+)$/.exec(css);
+  if (id) return looksGenerated(id[1]) ? 35 : 58;
+
+  if (/\[name=/.test(css)) return 55;
+  if (/\[aria-label=/.test(css)) return 50;
+
+  // bare tag name fallback
+  return 10;
+}
+
+/**
+ * Scores an XPath produced by the scanner.
+ *
+ * @param xpath - XPath expression.
+ * @returns Stability score.
+ */
+function xpathScore(xpath: string): number {
+  const id = /^\/\/\*\[@id="(.+)"\]$/.exec(xpath);
+  if (id) return looksGenerated(id[1]) ? 25 : 45;
+
+  // positional path from the document root
+  return 5;
+}
+
+/**
+ * Computes the stability score of a locator hint.
+ *
+ * @remarks
+ * Test ids rank highest, followed by role+name, label and placeholder. CSS and
+ * XPath are scored by their shape; positional XPath ranks lowest.
+ *
+ * @param hint - Locator hint.
+ * @returns Stability score between 0 and 100.
+ *
+ * @example
+ * ```ts
+ * stabilityScore({ strategy: "testId", value: "submit" }) // 100
+ * ```
+ */
+export function stabilityScore(hint: LocatorHint): number {
+  switch (hint.strategy) {
+    case "testId":
+      return 100;
+    case "role":
+      return hint.name ? 80 : 30;
+    case "label":
+      return 70;
+    case "placeholder":
+      return 60;
+    case "css":
+      return cssScore(hint.value);
+    case "xpath":
+      return xpathScore(hint.value);
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview
+ * Derives code member names for page model elements.
+ *
+ * @remarks
+ * Element names are free text ("Click here to sign in") and ids are slugs
+ * (`button-sign-in`); neither reads well as a property. Member names are
+ * camelCase identifiers built from the element's name and kind, e.g.
+ * `emailInput`, `signInButton`, with noise words dropped. Elements whose names
+ * collide (or that have no name) are qualified with their section, e.g.
+ * `footerPrivacyLink`, and remaining collisions get a numeric suffix, so every
+ * name is unique within the page.
+ *
+ * A user-maintained overrides file maps element ids to preferred names. Since
+ * ids are stable across rescans, the overrides are reapplied on every
+ * regeneration.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { uniqueName, words } from "./identifiers";
+import type { ElementKind, ElementModel } from "./pageModel";
+
+/**
+ * Preferred member names by element id.
+ */
+export type NameOverrides = Record<string, string>;
+
+/**
+ * Words that add nothing to a member name.
+ */
+const NOISE_WORDS = new Set(["a", "an", "the", "please", "click", "tap", "here", "now", "your", "my", "our", "this"]);
+
+/**
+ * Name suffix per element kind, and the trailing words that already say it
+ * (`emailField` needs no `Input`).
+ */
+const KIND_SUFFIXES: Record<ElementKind, { suffix?: string; synonyms: string[] }> = {
+  button:   { suffix: "button",   synonyms: ["button", "btn"] },
+  link:     { suffix: "link",     synonyms: ["link"] },
+  textbox:  { suffix: "input",    synonyms: ["input", "field", "box", "textbox"] },
+  textarea: { suffix: "input",    synonyms: ["input", "field", "box", "textarea"] },
+  checkbox: { suffix: "checkbox", synonyms: ["checkbox"] },
+  radio:    { suffix: "radio",    synonyms: ["radio"] },
+  select:   { suffix: "select",   synonyms: ["select", "dropdown", "picker"] },
+  other:    { synonyms: [] },
+};
+
+/**
+ * Words taken from an element's name (the kind suffix and context come on top).
+ */
+const MAX_NAME_WORDS = 4;
+
+/**
+ * JavaScript reserved words and members declared by generated classes.
+ */
+const RESERVED_NAMES = new Set([
+  "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else",
+  "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof",
+  "new", "null", "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void",
+  "while", "with", "yield", "let", "static", "implements", "interface", "package", "private",
+  "protected", "public", "await", "async", "arguments", "eval", "undefined",
+  "constructor", "page", "goto", "root", "items", "nth", "filter", "count",
+]);
+
+/**
+ * Pattern a member name (and so an override) must match.
+ */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Action method names generated for a member (`fillEmailInput`,
+ * `setTermsCheckboxChecked`), as `[prefix, suffix]` around the capitalised member.
+ */
+const ACTION_AFFIXES: [string, string][] = [["click", ""], ["fill", ""], ["select", ""], ["choose", ""], ["set", "Checked"]];
+
+/**
+ * Member names whose action method would be named `name`.
+ *
+ * @param name - A member name.
+ * @returns E.g. `["emailInput"]` for `fillEmailInput`.
+ */
+function actionTargets(name: string): string[] {
+  return ACTION_AFFIXES.flatMap(([prefix, suffix]) => {
+    const rest = name.slice(prefix.length, name.length - suffix.length);
+    return name.startsWith(prefix) && name.endsWith(suffix) && /^[A-Z]/.test(rest) ? [rest[0].toLowerCase() + rest.slice(1)] : [];
+  });
+}
+
+/**
+ * Joins words into a camelCase identifier.
+ *
+ * @param parts - Lowercase words.
+ * @returns The identifier.
+ */
+function camel(parts: string[]): string {
+  return parts.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join("");
+}
+
+/**
+ * Words describing a section, for qualifying member names.
+ *
+ * @param sectionId - Section id (e.g. `nav-primary`, `footer-2`).
+ * @returns Words without the numeric disambiguation suffix.
+ */
+function contextWords(sectionId: string): string[] {
+  return words(sectionId.replace(/-\d+$/, ""));
+}
+
+/**
+ * Derives the member name of an element.
+ *
+ * @remarks
+ * Noise words (and a "to" left leading by them) are dropped unless nothing
+ * else is left, the name is cut to {@link MAX_NAME_WORDS} words and the kind
+ * suffix is appended unless the last word already says it. Names that start with a digit or are reserved are
+ * prefixed or suffixed so they remain valid identifiers.
+ *
+ * @param el - Element kind and name.
+ * @param context - Optional section id to qualify the name with.
+ * @returns A camelCase identifier.
+ *
+ * @example
+ * ```ts
+ * memberNameFor({ kind: "button", name: "Sign in now" });         // "signInButton"
+ * memberNameFor({ kind: "link", name: "Privacy" }, "footer");     // "footerPrivacyLink"
+ * ```
+ */
+export function memberNameFor(el: Pick<ElementModel, "kind" | "name">, context?: string): string {
+  const { suffix, synonyms } = KIND_SUFFIXES[el.kind];
+
+  const all   = words(el.name ?? "");
+  const named = all.filter((w) => !NOISE_WORDS.has(w));
+  // "Click here to sign in": a leading "to" only linked the noise to the action
+  if (named[0] === "to" && named.length > 1) named.shift();
+  const parts = [...(context ? contextWords(context) : []), ...(named.length ? named : all).slice(0, MAX_NAME_WORDS)];
+
+  if (suffix && !synonyms.includes(parts[parts.length - 1])) parts.push(suffix);
+  if (!parts.length) parts.push("element");
+  if (/^[0-9]/.test(parts[0])) parts.unshift(suffix ?? "element");
+
+  const name = camel(parts);
+  return RESERVED_NAMES.has(name) ? `${name}Element` : name;
+}
+
+/**
+ * Sets `memberName` on every element, unique within the page.
+ *
+ * @remarks
+ * Overridden names are reserved first. Elements whose derived name is shared
+ * with another element, and unnamed elements, are qualified with their
+ * section when they have one; any collision left is resolved with a numeric
+ * suffix in page order.
+ *
+ * @param elements - Element models, with sections assigned (mutated).
+ * @param overrides - Preferred names by element id.
+ */
+export function assignMemberNames(elements: ElementModel[], overrides: NameOverrides = {}): void {
+  const taken   = new Set(elements.filter((el) => overrides[el.id]).map((el) => overrides[el.id]));
+  const derived = elements.map((el) => memberNameFor(el));
+
+  const counts = new Map<string, number>();
+  for (const name of derived) counts.set(name, (counts.get(name) ?? 0) + 1);
+
+  elements.forEach((el, index) => {
+    if (overrides[el.id]) {
+      el.memberName = overrides[el.id];
+      return;
+    }
+
+    const ambiguous = !el.name || counts.get(derived[index])! > 1 || taken.has(derived[index]);
+    const base      = ambiguous && el.section ? memberNameFor(el, el.section) : derived[index];
+    el.memberName   = uniqueName(base, taken);
+  });
+}
+
+/**
+ * Validates parsed overrides.
+ *
+ * @param data - Parsed JSON/YAML.
+ * @param source - File name (for messages).
+ * @returns The overrides.
+ * @throws If the data is not a map of element ids to distinct, valid identifiers,
+ *   or a name equals the action method name of another (`fillEmailInput` next to `emailInput`).
+ */
+export function parseNameOverrides(data: unknown, source: string): NameOverrides {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${source}: expected a map of element ids to member names`);
+  }
+
+  const overrides: NameOverrides = {};
+  const seen = new Map<string, string>();
+
+  for (const [id, name] of Object.entries(data as Record<string, unknown>)) {
+    if (typeof name !== "string" || !IDENTIFIER.test(name)) {
+      throw new Error(`${source}: name for "${id}" must be an identifier, got ${JSON.stringify(name)}`);
+    }
+    if (RESERVED_NAMES.has(name)) throw new Error(`${source}: name for "${id}" is reserved: ${name}`);
+    if (seen.has(name)) throw new Error(`${source}: "${id}" and "${seen.get(name)}" are both named ${name}`);
+
+    seen.set(name, id);
+    overrides[id] = name;
+  }
+
+  for (const [name, id] of seen) {
+    const target = actionTargets(name).find((t) => seen.has(t));
+    if (target) throw new Error(`${source}: name for "${id}" is the action method of "${seen.get(target)}" (${target})`);
+  }
+
+  return overrides;
+}
+
+/**
+ * Loads name overrides from a JSON or YAML file.
+ *
+ * @param filePath - Path to a `.json`, `.yaml` or `.yml` file.
+ * @returns The overrides.
+ *
+ * @example
+ * ```yaml
+ * # names.yaml
+ * button-submit-your-order-now: placeOrderButton
+ * textbox-email: emailInput
+ * ```
+ */
+export async function loadNameOverrides(filePath: string): Promise<NameOverrides> {
+  const raw  = await fs.readFile(filePath, "utf-8");
+  const ext  = path.extname(filePath).toLowerCase();
+  const data = ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+  return parseNameOverrides(data ?? {}, path.basename(filePath));
+}
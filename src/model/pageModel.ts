@@ -31,14 +31,62 @@ export type ElementKind =
  * @remarks
  * Locator hints are ordered by preference (best first) when attached to an element.
  * Generators should attempt the first viable strategy supported by their framework.
+ *
+ * `matches` is the number of nodes the hint matched when the page was scanned
+ * (absent for reports without validation data). `stability` estimates how well
+ * the hint survives DOM changes, from 0 (brittle) to 100 (stable).
  */
-export type LocatorHint =
+export type LocatorHint = (
   | { strategy: "testId"; value: string }
   | { strategy: "role"; role: string; name?: string }
   | { strategy: "label"; value: string }
   | { strategy: "placeholder"; value: string }
   | { strategy: "css"; value: string }
-  | { strategy: "xpath"; value: string };
+  | { strategy: "xpath"; value: string }
+) & {
+  matches?: number;
+  stability?: number;
+};
+
+/**
+ * Validation constraints declared on a form field.
+ *
+ * @remarks
+ * `min`, `max` and `step` are kept as strings since they may be dates or times
+ * depending on the input type.
+ */
+export type FieldConstraints = {
+  required?: boolean;
+  pattern?: string;
+  min?: string;
+  max?: string;
+  step?: string;
+  minLength?: number;
+  maxLength?: number;
+  autocomplete?: string;
+};
+
+/**
+ * An option of a select field.
+ */
+export type SelectOption = {
+  value: string;
+  label: string;
+  selected?: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * Position of an element within a repeated list item, table row or card.
+ *
+ * @remarks
+ * `index` is zero-based among `count` sibling items of the same tag.
+ */
+export type RowPosition = {
+  kind: "listitem" | "row" | "item";
+  index: number;
+  count: number;
+};
 
 /**
  * Represents a single UI element in a framework-agnostic page model.
@@ -50,22 +98,120 @@ export type ElementModel = {
 
   // Best-effort human readable name (used in codegen + feature tables)
   name?: string;
+  // camelCase code identifier, unique within the page (see memberNames)
+  memberName?: string;
 
   // What we observed (useful for docs/debug)
   tagName?: string;
   role?: string;
   href?: string;
 
+  // Form field details: input type (e.g. "email"), declared constraints, select options
+  inputType?: string;
+  constraints?: FieldConstraints;
+  options?: SelectOption[];
+
   // Locator hints sorted by preference (best first)
   locators: LocatorHint[];
 
+  // Enclosing iframe selectors (outermost first); hints resolve inside the innermost frame
+  frames?: string[];
+
+  // Id of the enclosing section (see PageModel.sections) and repeated row position
+  section?: string;
+  row?: RowPosition;
+  // Id of the collection the element was folded into (see PageModel.collections)
+  collection?: string;
+
+  // Position on the scan's full-page screenshot (CSS pixels), for visual reference
+  boundingBox?: { x: number; y: number; width: number; height: number };
+
   // Optional flags that help generators decide what to emit
   flags?: {
     disabled?: boolean;
     ariaDisabled?: boolean;
+    // Checkbox/radio state at scan time
+    checked?: boolean;
+    // Scan validated the hints and none matched exactly one node
+    noUniqueLocator?: boolean;
+    // Only visible after opening a menu, tab or disclosure (exploration mode)
+    revealed?: boolean;
   };
 };
 
+/**
+ * Represents a `<form>` and the elements it owns.
+ *
+ * @remarks
+ * `fields` and `submit` reference {@link ElementModel.id}s, in page order.
+ */
+export type FormModel = {
+  id: string;
+  // The form's id or name attribute, if any
+  name?: string;
+  action?: string;
+  method?: string;
+  frames?: string[];
+  fields: string[];
+  submit?: string;
+};
+
+/**
+ * Kinds of page section (landmarks and named containers).
+ */
+export type SectionKind = "header" | "nav" | "main" | "footer" | "aside" | "form" | "dialog" | "region";
+
+/**
+ * Represents a landmark or named container and the elements nearest to it.
+ *
+ * @remarks
+ * `locator` finds the section root within its frame; element hints remain
+ * valid page-wide, so generators may resolve them from the section root or
+ * from the page. `elements` references {@link ElementModel.id}s, in page order.
+ */
+export type SectionModel = {
+  id: string;
+  kind: SectionKind;
+  name?: string;
+  locator: LocatorHint;
+  frames?: string[];
+  elements: string[];
+};
+
+/**
+ * A control that recurs in the items of a collection (e.g. each card's "Add to cart").
+ *
+ * @remarks
+ * `locator` resolves from an item root; it is absent when the field is the
+ * item itself. `elements` lists the scanned instances, one per item.
+ */
+export type CollectionField = {
+  name: string;
+  // camelCase code identifier, unique within the collection's item
+  memberName?: string;
+  kind: ElementKind;
+  locator?: LocatorHint;
+  elements: string[];
+};
+
+/**
+ * Represents repeated items of the same shape: list items, table rows or grid cards.
+ *
+ * @remarks
+ * `itemLocator` matches every item; generators index (`nth`) or filter it
+ * rather than emitting one member per scanned element. `count` is the number
+ * of items on the page at scan time.
+ */
+export type CollectionModel = {
+  id: string;
+  kind: "list" | "table" | "grid";
+  name?: string;
+  itemLocator: LocatorHint;
+  frames?: string[];
+  count: number;
+  fields: CollectionField[];
+};
+
 /**
  * Represents the framework-agnostic model for a scanned page.
  */
@@ -76,6 +222,17 @@ export type PageModel = {
 
   // Optional metadata (safe, non-business)
   title?: string;
+  // Annotated screenshot from the scan; overlay numbers are element indexes
+  screenshot?: string;
 
   elements: ElementModel[];
+
+  // Forms grouping the elements above (absent when the page has none)
+  forms?: FormModel[];
+
+  // Landmarks/containers grouping the elements above (absent when none were found)
+  sections?: SectionModel[];
+
+  // Repeated items folding the elements above (absent when none were found)
+  collections?: CollectionModel[];
 };
\ No newline at end of file
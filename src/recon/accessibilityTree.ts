@@ -0,0 +1,230 @@
+/**
+ * @fileoverview
+ * Reads Chromium's computed accessibility tree for scanned elements.
+ *
+ * @remarks
+ * The in-page name heuristic in `scanPage` ignores `aria-labelledby`, `title`,
+ * `<legend>` and implicit roles. In accessibility-tree mode, the scanner tags
+ * every candidate with a temporary marker attribute; this module then resolves
+ * the markers to DOM nodes over CDP, fetches the full accessibility tree of each
+ * frame, and returns the role, name and name source Chromium computed for each
+ * marked node. Markers are removed as soon as they are resolved.
+ *
+ * These are the same values Playwright's `getByRole()` resolves against, so role
+ * locators built from them can be trusted.
+ */
+import type { CDPSession, Page } from "@playwright/test";
+import type { ReconNameSource } from "../reporting/types";
+
+/**
+ * Attribute used to tag candidates while the tree is read.
+ */
+export const AX_MARKER_ATTRIBUTE = "data-recon-ax";
+
+/**
+ * Computed accessibility properties of one element.
+ */
+export type AxInfo = {
+  role?: string;
+  name?: string;
+  nameSource?: ReconNameSource;
+};
+
+/**
+ * The subset of a CDP `Accessibility.AXValueSource` this module reads.
+ */
+export type AxValueSource = {
+  type: string;
+  value?: { value?: unknown };
+  attribute?: string;
+  superseded?: boolean;
+  invalid?: boolean;
+  nativeSource?: string;
+};
+
+/**
+ * The subset of a CDP `Accessibility.AXNode` this module reads.
+ */
+export type AxNode = {
+  ignored: boolean;
+  role?: { value?: unknown };
+  name?: { value?: unknown; sources?: AxValueSource[] };
+  backendDOMNodeId?: number;
+};
+
+/**
+ * The subset of a CDP `DOM.Node` this module reads.
+ */
+type DomNode = {
+  nodeId: number;
+  backendNodeId: number;
+  attributes?: string[];
+  children?: DomNode[];
+  shadowRoots?: DomNode[];
+  contentDocument?: DomNode;
+  frameId?: string;
+};
+
+/**
+ * Roles that carry no automation meaning and are dropped.
+ */
+const IGNORED_ROLES = new Set(["generic", "none", "presentation"]);
+
+/**
+ * Maps a CDP name source to a {@link ReconNameSource}.
+ *
+ * @param source - Name source reported by Chromium.
+ * @returns The normalized source.
+ */
+export function nameSourceFrom(source: AxValueSource): ReconNameSource {
+  if (source.attribute === "aria-labelledby") return "aria-labelledby";
+  if (source.attribute === "aria-label") return "aria-label";
+
+  switch (source.nativeSource) {
+    case "label":
+    case "labelfor":
+    case "labelwrapped":
+      return "label";
+    case "legend":
+      return "legend";
+    case "figcaption":
+    case "tablecaption":
+      return "caption";
+    case "title":
+      return "title";
+  }
+
+  if (source.type === "placeholder" || source.attribute === "placeholder") return "placeholder";
+  if (source.attribute === "title") return "title";
+  if (source.attribute === "alt") return "alt";
+  if (source.attribute === "value") return "value";
+  if (source.type === "contents") return "contents";
+  return "other";
+}
+
+/**
+ * Normalizes a Chromium role to the ARIA role Playwright's `getByRole()` accepts.
+ *
+ * @remarks
+ * Chromium-internal roles (`StaticText`, `RootWebArea`, ...) are capitalized and
+ * have no ARIA equivalent; they are dropped along with generic containers.
+ *
+ * @param raw - Role value from the accessibility tree.
+ * @returns The ARIA role, or `undefined`.
+ */
+function ariaRole(raw: unknown): string | undefined {
+  if (typeof raw !== "string" || !raw) return undefined;
+  if (raw === "image") return "img";
+  if (IGNORED_ROLES.has(raw) || raw[0] !== raw[0].toLowerCase()) return undefined;
+  return raw;
+}
+
+/**
+ * Extracts role, name and name source from an accessibility node.
+ *
+ * @remarks
+ * The name source is the first source that produced a value and was not
+ * superseded by a higher-priority one.
+ *
+ * @param node - Accessibility node.
+ * @returns Computed properties, or `undefined` for nodes ignored by the tree.
+ */
+export function axInfoFromNode(node: AxNode): AxInfo | undefined {
+  if (node.ignored) return undefined;
+
+  const name   = typeof node.name?.value === "string" ? node.name.value.trim().replace(/\s+/g, " ") : "";
+  const source = name
+    ? node.name?.sources?.find((s) => !s.superseded && !s.invalid && s.value?.value !== undefined && s.value.value !== "")
+    : undefined;
+
+  return {
+    role: ariaRole(node.role?.value),
+    name: name ? name.slice(0, 200) : undefined,
+    nameSource: source ? nameSourceFrom(source) : undefined,
+  };
+}
+
+/**
+ * Reads computed accessibility info for marked nodes reachable from one CDP session.
+ *
+ * @param session - CDP session attached to a page or out-of-process frame.
+ * @param out - Accumulator keyed by marker value.
+ */
+async function readSession(session: CDPSession, out: Map<string, AxInfo>): Promise<void> {
+  const { root } = await session.send("DOM.getDocument", { depth: -1, pierce: true });
+
+  const markers  = new Map<number, { nodeId: number; key: string }>();
+  const frameIds: (string | undefined)[] = [undefined];
+
+  const walk = (node: DomNode): void => {
+    const attrs = node.attributes ?? [];
+    for (let i = 0; i < attrs.length; i += 2) {
+      if (attrs[i] === AX_MARKER_ATTRIBUTE) markers.set(node.backendNodeId, { nodeId: node.nodeId, key: attrs[i + 1] });
+    }
+    if (node.frameId && node.contentDocument) frameIds.push(node.frameId);
+
+    for (const child of node.children ?? []) walk(child);
+    for (const shadow of node.shadowRoots ?? []) walk(shadow);
+    if (node.contentDocument) walk(node.contentDocument);
+  };
+  walk(root);
+
+  if (!markers.size) return;
+
+  for (const frameId of frameIds) {
+    try {
+      const { nodes } = await session.send("Accessibility.getFullAXTree", frameId ? { frameId } : {});
+      for (const node of nodes) {
+        const marker = node.backendDOMNodeId !== undefined ? markers.get(node.backendDOMNodeId) : undefined;
+        const info   = marker && axInfoFromNode(node);
+        if (marker && info) out.set(marker.key, info);
+      }
+    } catch {
+      // Frames that detached or belong to another process are read elsewhere (or not at all)
+      continue;
+    }
+  }
+
+  for (const { nodeId } of markers.values()) {
+    await session.send("DOM.removeAttribute", { nodeId, name: AX_MARKER_ATTRIBUTE }).catch(() => undefined);
+  }
+}
+
+/**
+ * Reads Chromium's computed accessibility info for every marked element on a page.
+ *
+ * @remarks
+ * Same-process frames and open shadow roots are covered by the page session;
+ * out-of-process (cross-site) iframes get a session of their own. Elements the
+ * tree ignores are absent from the result, so callers can fall back to the
+ * heuristic values for them. Chromium only.
+ *
+ * @param page - Page whose candidates carry {@link AX_MARKER_ATTRIBUTE}.
+ * @returns Computed info keyed by marker value.
+ */
+export async function readAccessibilityTree(page: Page): Promise<Map<string, AxInfo>> {
+  const out      = new Map<string, AxInfo>();
+  const sessions = [await page.context().newCDPSession(page)];
+
+  for (const frame of page.frames()) {
+    if (frame === page.mainFrame()) continue;
+    try {
+      sessions.push(await page.context().newCDPSession(frame));
+    } catch {
+      // Not an out-of-process frame; the page session already covers it
+      continue;
+    }
+  }
+
+  for (const session of sessions) {
+    try {
+      await readSession(session, out);
+    } catch {
+      continue;
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview
+ * Accessibility and automation audit over scanned elements.
+ *
+ * @remarks
+ * The scanner already collects the signals needed to spot controls that are
+ * inaccessible or hard to automate. This module turns them into concrete
+ * findings (rule id, severity, element index) that can be handed to front-end
+ * teams as fix requests. It is a pure function of the scanned elements, so it
+ * can also be re-run over older reports.
+ */
+import type { ReconAuditRule, ReconElement, ReconFinding, ReconFindingSeverity } from "../reporting/types";
+
+/**
+ * Input types that are not labelled form fields.
+ */
+const UNLABELLED_INPUT_TYPES = new Set(["hidden", "submit", "button", "reset", "image"]);
+
+/**
+ * Explicit roles that make an element a form field.
+ */
+const FIELD_ROLES = new Set(["textbox", "searchbox", "combobox", "listbox", "checkbox", "radio", "switch", "slider", "spinbutton"]);
+
+/**
+ * Name sources that count as a label for a form field.
+ */
+const LABEL_SOURCES = new Set(["aria-labelledby", "aria-label", "label", "title"]);
+
+/**
+ * Implicit ARIA roles of input types, for elements without a role of their own.
+ */
+const INPUT_ROLES: Record<string, string> = {
+  text: "textbox",
+  email: "textbox",
+  tel: "textbox",
+  url: "textbox",
+  search: "searchbox",
+  number: "spinbutton",
+  range: "slider",
+  checkbox: "checkbox",
+  radio: "radio",
+  button: "button",
+  submit: "button",
+  reset: "button",
+  image: "button",
+};
+
+/**
+ * Order in which rules are reported for the same element.
+ */
+const RULE_ORDER: ReconAuditRule[] = [
+  "missing-accessible-name",
+  "missing-form-label",
+  "click-handler-without-role",
+  "duplicate-id",
+  "duplicate-accessible-name",
+  "positive-tabindex",
+];
+
+/**
+ * Describes an element briefly for finding messages.
+ *
+ * @param el - Scanned element.
+ * @returns E.g. `input[type=email]` or `button "Save"`.
+ */
+function describeElement(el: ReconElement): string {
+  const tag = el.typeAttr ? `${el.tagName}[type=${el.typeAttr}]` : el.tagName;
+  return el.accessibleName ? `${tag} "${el.accessibleName.slice(0, 40)}"` : tag;
+}
+
+/**
+ * Determines whether an element is a form field that needs a label.
+ *
+ * @param el - Scanned element.
+ * @returns `true` for text inputs, selects, textareas and field roles.
+ */
+function isFormField(el: ReconElement): boolean {
+  if (el.tagName === "input") return !UNLABELLED_INPUT_TYPES.has((el.typeAttr ?? "text").toLowerCase());
+  if (el.tagName === "select" || el.tagName === "textarea") return true;
+  return Boolean(el.role && FIELD_ROLES.has(el.role));
+}
+
+/**
+ * Determines whether a form field has a real label (not just a placeholder).
+ *
+ * @param el - Form field.
+ * @returns `true` if labelled.
+ */
+function hasLabel(el: ReconElement): boolean {
+  if (el.labelText || el.ariaLabel) return true;
+  return Boolean(el.nameSource && LABEL_SOURCES.has(el.nameSource));
+}
+
+/**
+ * Returns the role `getByRole()` matches an element by.
+ *
+ * @remarks
+ * Uses the recorded role, else the implicit role of the element's tag and
+ * input type. Elements without one (generic widgets, inputs such as
+ * `password` that have no role) return `undefined`.
+ *
+ * @param el - Scanned element.
+ * @returns ARIA role, or `undefined`.
+ */
+function roleOf(el: ReconElement): string | undefined {
+  if (el.role) return el.role;
+
+  switch (el.tagName) {
+    case "button":
+      return "button";
+    case "a":
+      return el.href ? "link" : undefined;
+    case "select":
+      return "combobox";
+    case "textarea":
+      return "textbox";
+    case "input":
+      return INPUT_ROLES[(el.typeAttr ?? "text").toLowerCase()];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Groups element indexes by key.
+ *
+ * @param elements - Scanned elements.
+ * @param keyOf - Returns the grouping key, or `undefined` to skip an element.
+ * @returns Groups of indexes, one per key.
+ */
+function groupBy(elements: ReconElement[], keyOf: (el: ReconElement) => string | undefined): number[][] {
+  const groups = new Map<string, number[]>();
+
+  elements.forEach((el, index) => {
+    const key = keyOf(el);
+    if (key === undefined) return;
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Audits scanned elements for accessibility and automation problems.
+ *
+ * @remarks
+ * Rules:
+ * - `missing-accessible-name` (error): a non-field element has no accessible name.
+ * - `missing-form-label` (error without any name, warning when only e.g. a
+ *   placeholder names it): a form field has no label.
+ * - `click-handler-without-role` (error): a `div`/`span` with a click handler
+ *   but no role or tabindex, so keyboard and assistive technology cannot use it.
+ * - `duplicate-id` (warning): an id is shared within the same document or
+ *   shadow root, with another scanned element or any other node (`idCount`).
+ * - `duplicate-accessible-name` (warning): several elements in the same frame
+ *   share a role and name, so `getByRole()` cannot tell them apart.
+ * - `positive-tabindex` (warning): `tabindex` greater than 0 overrides the
+ *   natural focus order.
+ *
+ * @param elements - Scanned elements, in report order.
+ * @returns Findings sorted by element index, then rule.
+ *
+ * @example
+ * ```ts
+ * report.findings = auditElements(report.elements);
+ * ```
+ */
+export function auditElements(elements: ReconElement[]): ReconFinding[] {
+  const findings: ReconFinding[] = [];
+  const add = (rule: ReconAuditRule, severity: ReconFindingSeverity, element: number, message: string) =>
+    findings.push({ rule, severity, element, message });
+
+  elements.forEach((el, index) => {
+    if (isFormField(el)) {
+      if (!hasLabel(el)) {
+        add(
+          "missing-form-label",
+          el.accessibleName ? "warning" : "error",
+          index,
+          el.accessibleName
+            ? `${describeElement(el)} has no label; its name comes only from its ${el.nameSource ?? "content"}`
+            : `${describeElement(el)} has no label and no accessible name`
+        );
+      }
+    } else if (!el.accessibleName) {
+      add("missing-accessible-name", "error", index, `${describeElement(el)} has no accessible name`);
+    }
+
+    if ((el.tagName === "div" || el.tagName === "span") && el.clickHandler && !el.role && el.tabIndex === undefined) {
+      add(
+        "click-handler-without-role",
+        "error",
+        index,
+        `${describeElement(el)} has a click handler but no role or tabindex, so it is unreachable by keyboard`
+      );
+    }
+
+    if (el.tabIndex !== undefined && el.tabIndex > 0) {
+      add("positive-tabindex", "warning", index, `${describeElement(el)} has tabindex="${el.tabIndex}", which overrides the focus order`);
+    }
+  });
+
+  // Ids are scoped to their document or shadow root; idCount also covers nodes that were not scanned
+  const idGroups = groupBy(elements, (el) =>
+    el.id ? [...(el.framePath ?? []), "|", ...(el.shadowHosts ?? []), "|", el.id].join(" ") : undefined
+  );
+  for (const group of idGroups) {
+    const total = Math.max(group.length, ...group.map((i) => elements[i].idCount ?? 1));
+    if (total < 2) continue;
+
+    const unscanned = total - group.length;
+    for (const index of group) {
+      const others = [
+        ...group.filter((i) => i !== index).map((i) => `#${i}`),
+        ...(unscanned ? [`${unscanned} other node${unscanned === 1 ? "" : "s"}`] : []),
+      ].join(", ");
+      add("duplicate-id", "warning", index, `id "${elements[index].id}" is also used by ${others}`);
+    }
+  }
+
+  // Role locators resolve within a frame, across shadow roots
+  const nameGroups = groupBy(elements, (el) => {
+    const role = roleOf(el);
+    const name = el.accessibleName?.trim().replace(/\s+/g, " ").toLowerCase();
+    return role && name ? [...(el.framePath ?? []), "|", role, "|", name].join(" ") : undefined;
+  });
+  for (const group of nameGroups.filter((g) => g.length > 1)) {
+    for (const index of group) {
+      const others = group.filter((i) => i !== index).map((i) => `#${i}`).join(", ");
+      add("duplicate-accessible-name", "warning", index, `${describeElement(elements[index])} has the same role and name as ${others}`);
+    }
+  }
+
+  return findings.sort((a, b) => a.element - b.element || RULE_ORDER.indexOf(a.rule) - RULE_ORDER.indexOf(b.rule));
+}
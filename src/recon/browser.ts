@@ -0,0 +1,52 @@
+/**
+ * @fileoverview
+ * Browser context settings (viewport, locale, user agent, device emulation).
+ *
+ * @remarks
+ * Responsive pages render different controls at different sizes, so the
+ * context a page is scanned in is part of what the scan means. These settings
+ * are shared by `scan` and `crawl` and can come from the CLI or a project
+ * config file.
+ */
+import { devices, type BrowserContextOptions } from "@playwright/test";
+
+/**
+ * Browser context settings applied before navigation.
+ */
+export type BrowserSettings = {
+  viewport?: { width: number; height: number };
+  locale?: string;
+  userAgent?: string;
+  // Playwright device preset name (e.g. "iPhone 13"); explicit settings override it
+  device?: string;
+};
+
+/**
+ * Converts browser settings into Playwright context options.
+ *
+ * @remarks
+ * A device preset contributes its viewport, user agent, scale factor and
+ * touch/mobile flags; its `defaultBrowserType` is dropped because scans always
+ * run in Chromium.
+ *
+ * @param settings - Browser settings.
+ * @returns Context options (empty when no settings are given).
+ * @throws If `settings.device` is not a known Playwright device preset.
+ */
+export function contextOptions(settings: BrowserSettings = {}): BrowserContextOptions {
+  let preset: BrowserContextOptions = {};
+
+  if (settings.device) {
+    const descriptor = devices[settings.device];
+    if (!descriptor) throw new Error(`Unknown device preset: "${settings.device}" (see Playwright's device list)`);
+    const { defaultBrowserType: _, ...rest } = descriptor;
+    preset = rest;
+  }
+
+  return {
+    ...preset,
+    ...(settings.viewport ? { viewport: settings.viewport } : {}),
+    ...(settings.locale ? { locale: settings.locale } : {}),
+    ...(settings.userAgent ? { userAgent: settings.userAgent } : {}),
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview
+ * Multi-page crawler built on top of {@link scanPage}.
+ *
+ * @remarks
+ * The crawler launches a single Chromium instance, scans the start URL, and then
+ * follows same-origin `href` values collected from `link` elements breadth-first.
+ * Crawling is bounded by a maximum depth and page count, and can be narrowed
+ * with include/exclude URL glob patterns. Logout links are never followed
+ * unless asked for, so an authenticated crawl keeps its session.
+ */
+import { chromium } from "@playwright/test";
+import type { ReconReport } from "../reporting/types";
+import type { BrowserSettings } from "./browser";
+import { scanPage, type PageScanOptions } from "./scanPage";
+import { createSessionContext, saveSessionState, type SessionOptions } from "./session";
+
+/**
+ * Options controlling the scope of a crawl.
+ *
+ * @remarks
+ * The {@link PageScanOptions} (wait strategy, name computation) apply to every page.
+ */
+export type CrawlOptions = PageScanOptions & {
+  headed: boolean;
+  // Link hops from the start URL (0 = start page only)
+  maxDepth: number;
+  maxPages: number;
+  // URL glob patterns (see `matchesUrlGlob`)
+  include: string[];
+  exclude: string[];
+  // Follow links that look like logout links (see `isLogoutLink`)
+  followLogout?: boolean;
+  // Authentication / session preparation shared by every page
+  session?: SessionOptions;
+  // Viewport, locale, user agent and device emulation
+  browser?: BrowserSettings;
+};
+
+/**
+ * Represents the outcome of scanning a single page during a crawl.
+ */
+export type CrawlPageResult = {
+  url: string;
+  depth: number;
+  linkedFrom?: string;
+  report?: ReconReport;
+  error?: string;
+};
+
+/**
+ * Converts a URL glob pattern into a regular expression.
+ *
+ * @remarks
+ * - `**` matches any sequence of characters, including `/`.
+ * - `*` matches any sequence of characters except `/`.
+ * - `?` matches a single character other than `/`.
+ *
+ * @param pattern - Glob pattern.
+ * @returns An anchored regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let src = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      src += ".*";
+      i++;
+    } else if (c === "*") {
+      src += "[^/]*";
+    } else if (c === "?") {
+      src += "[^/]";
+    } else {
+      src += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${src}$`);
+}
+
+/**
+ * Tests a URL against a glob pattern.
+ *
+ * @remarks
+ * Patterns starting with `/` are matched against the path and query string
+ * (e.g. `/admin/**`); all other patterns are matched against the full URL
+ * (e.g. `https://example.com/docs/*`).
+ *
+ * @param url - Absolute URL to test.
+ * @param pattern - Glob pattern.
+ * @returns `true` if the URL matches.
+ */
+export function matchesUrlGlob(url: string, pattern: string): boolean {
+  const u = new URL(url);
+  const target = pattern.startsWith("/") ? u.pathname + u.search : u.toString();
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Matches "log out", "logout", "sign-off", "signout" and similar as a word.
+ */
+const LOGOUT_PATTERN = /(^|[^a-z])(log|sign)[\s_-]?(out|off)([^a-z]|$)/i;
+
+/**
+ * Tests whether a link looks like it ends the session.
+ *
+ * @param target - Resolved link target.
+ * @param text - Link text, if any.
+ * @returns `true` if the path or the link text names a logout.
+ */
+export function isLogoutLink(target: URL, text?: string): boolean {
+  return LOGOUT_PATTERN.test(target.pathname) || LOGOUT_PATTERN.test(text ?? "");
+}
+
+/**
+ * Normalizes a URL for de-duplication by dropping the fragment.
+ *
+ * @param url - Absolute URL.
+ * @returns Normalized URL string.
+ */
+function normalizeUrl(url: URL): string {
+  const u = new URL(url.toString());
+  u.hash = "";
+  return u.toString();
+}
+
+/**
+ * Collects crawlable same-origin link targets from a recon report.
+ *
+ * @remarks
+ * Only `link` elements are considered. Relative `href` values are resolved
+ * against the URL the page ended up on after redirects; non-http(s) targets
+ * (e.g. `mailto:`) and links to other origins are dropped, as are logout links
+ * (unless `followLogout` is set) and URLs rejected by the include/exclude
+ * patterns.
+ *
+ * @param report - Recon report for the page the links were found on.
+ * @param options - Crawl options providing include/exclude patterns.
+ * @returns De-duplicated absolute URLs in document order.
+ */
+export function collectLinks(
+  report: ReconReport,
+  options: Pick<CrawlOptions, "include" | "exclude" | "followLogout">
+): string[] {
+  const base  = new URL(report.finalUrl ?? report.url);
+  const links = new Set<string>();
+
+  for (const el of report.elements) {
+    if (el.type !== "link" || !el.href) continue;
+
+    let target: URL;
+    try {
+      target = new URL(el.href, base);
+    } catch {
+      continue;
+    }
+
+    if (target.protocol !== "http:" && target.protocol !== "https:") continue;
+    if (target.origin !== base.origin) continue;
+    if (!options.followLogout && isLogoutLink(target, el.text)) continue;
+
+    const url = normalizeUrl(target);
+    if (options.include.length && !options.include.some((p) => matchesUrlGlob(url, p))) continue;
+    if (options.exclude.some((p) => matchesUrlGlob(url, p))) continue;
+
+    links.add(url);
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Crawls a site starting from a URL and scans each page visited.
+ *
+ * @remarks
+ * Pages are visited breadth-first and each URL is scanned at most once. A page
+ * that fails to load is reported with an `error` and does not stop the crawl.
+ * The start URL is always scanned, regardless of include/exclude patterns.
+ * All pages share one browser context prepared from `options.session`.
+ *
+ * @param startUrl - First page to scan (http/https).
+ * @param options - Crawl scope and browser options.
+ * @param onPage - Called after each page is scanned, in visit order.
+ * @returns All page results in visit order.
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions,
+  onPage?: (result: CrawlPageResult) => Promise<void>
+): Promise<CrawlPageResult[]> {
+  const browser = await chromium.launch({ headless: !options.headed });
+  const results: CrawlPageResult[] = [];
+
+  const start = normalizeUrl(new URL(startUrl));
+  const queue: { url: string; depth: number; linkedFrom?: string }[] = [{ url: start, depth: 0 }];
+  const seen  = new Set([start]);
+  // Origin of the start page after redirects; links are only followed within it
+  let origin  = new URL(start).origin;
+
+  try {
+    const context = await createSessionContext(browser, start, options.session, options.browser);
+    const page    = await context.newPage();
+
+    while (queue.length && results.length < options.maxPages) {
+      const next = queue.shift()!;
+      const result: CrawlPageResult = { ...next };
+
+      try {
+        result.report = await scanPage(page, next.url, options);
+      } catch (err) {
+        result.error = err instanceof Error ? err.message : String(err);
+      }
+
+      results.push(result);
+      if (onPage) await onPage(result);
+
+      if (!result.report || next.depth >= options.maxDepth) continue;
+
+      // A redirect target is the page just scanned; a redirect off the site ends this branch
+      const final = new URL(result.report.finalUrl ?? next.url);
+      seen.add(normalizeUrl(final));
+      if (next.depth === 0) origin = final.origin;
+      if (final.origin !== origin) continue;
+
+      for (const url of collectLinks(result.report, options)) {
+        if (seen.has(url)) continue;
+        seen.add(url);
+        queue.push({ url, depth: next.depth + 1, linkedFrom: next.url });
+      }
+    }
+
+    await saveSessionState(context, options.session);
+  } finally {
+    await browser.close();
+  }
+
+  return results;
+}
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview
+ * Detects real event listeners over the Chrome DevTools Protocol.
+ *
+ * @remarks
+ * The in-page scanner only sees `onclick` properties and attributes, so
+ * elements wired up with `addEventListener` (Vue, Angular, Lit, plain DOM
+ * code) look inert unless they also carry a role or tabindex. In listener
+ * mode, this module asks Chromium for the listeners registered on each
+ * element (`DOMDebugger.getEventListeners`) and tags elements that handle
+ * pointer or keyboard input with a temporary marker attribute listing the
+ * listener types. The in-page scanner treats marked elements as candidates
+ * and records the types; the markers are removed once the scan has read them.
+ *
+ * React (17+) registers its handlers on the root container rather than on
+ * each element, so they are not visible here; elements with very large
+ * subtrees are treated as such delegation roots and not marked.
+ */
+import type { CDPSession, Page } from "@playwright/test";
+import type { ReconListenerType } from "../reporting/types";
+
+/**
+ * Attribute used to tag elements with their listener types while scanning.
+ */
+export const LISTENER_MARKER_ATTRIBUTE = "data-recon-listeners";
+
+/**
+ * Listener types that make an element an automation candidate, in report order.
+ */
+export const LISTENER_TYPES: ReconListenerType[] = ["click", "mousedown", "pointerdown", "keydown"];
+
+/**
+ * Elements with more element descendants than this are assumed to be
+ * event delegation roots rather than controls.
+ */
+const MAX_DESCENDANTS = 50;
+
+/**
+ * Upper bound on elements queried per CDP session, to keep huge DOMs bounded.
+ */
+const MAX_QUERIED = 5000;
+
+/**
+ * Elements that never represent a control.
+ */
+const SKIPPED_TAGS = new Set(["HTML", "HEAD", "BODY", "SCRIPT", "STYLE", "LINK", "META", "TITLE", "NOSCRIPT", "TEMPLATE", "BR"]);
+
+const OBJECT_GROUP = "recon-listeners";
+
+/**
+ * The subset of a CDP `DOM.Node` this module reads.
+ */
+export type DomNode = {
+  nodeId: number;
+  nodeType: number;
+  nodeName: string;
+  children?: DomNode[];
+  shadowRoots?: DomNode[];
+  contentDocument?: DomNode;
+};
+
+/**
+ * Removes the markers set by {@link markEventListeners}.
+ */
+export type ClearListenerMarkers = () => Promise<void>;
+
+/**
+ * Picks the candidate listener types from a list of registered listeners.
+ *
+ * @param listeners - Listeners as returned by `DOMDebugger.getEventListeners`.
+ * @returns De-duplicated types in {@link LISTENER_TYPES} order (empty if none).
+ */
+export function listenerTypesFrom(listeners: { type: string }[]): ReconListenerType[] {
+  const found = new Set(listeners.map((l) => l.type));
+  return LISTENER_TYPES.filter((t) => found.has(t));
+}
+
+/**
+ * Collects the element nodes worth querying, skipping likely delegation roots.
+ *
+ * @param root - Document node from `DOM.getDocument` (with `pierce: true`).
+ * @returns Node ids, at most {@link MAX_QUERIED}.
+ */
+export function queryableNodes(root: DomNode): number[] {
+  const out: number[] = [];
+
+  // Returns the number of element nodes in the subtree (including the node)
+  const walk = (node: DomNode): number => {
+    let descendants = 0;
+    for (const child of node.children ?? []) descendants += walk(child);
+    for (const shadow of node.shadowRoots ?? []) descendants += walk(shadow);
+    if (node.contentDocument) walk(node.contentDocument);
+
+    const isElement = node.nodeType === 1;
+    if (isElement && !SKIPPED_TAGS.has(node.nodeName) && descendants <= MAX_DESCENDANTS && out.length < MAX_QUERIED) {
+      out.push(node.nodeId);
+    }
+    return descendants + (isElement ? 1 : 0);
+  };
+  walk(root);
+
+  return out;
+}
+
+/**
+ * Marks elements with candidate listeners reachable from one CDP session.
+ *
+ * @param session - CDP session attached to a page or out-of-process frame.
+ * @returns Ids of the marked nodes.
+ */
+async function markSession(session: CDPSession): Promise<number[]> {
+  const { root } = await session.send("DOM.getDocument", { depth: -1, pierce: true });
+  const marked: number[] = [];
+
+  try {
+    for (const nodeId of queryableNodes(root)) {
+      try {
+        const { object } = await session.send("DOM.resolveNode", { nodeId, objectGroup: OBJECT_GROUP });
+        if (!object.objectId) continue;
+
+        const { listeners } = await session.send("DOMDebugger.getEventListeners", { objectId: object.objectId });
+        const types = listenerTypesFrom(listeners);
+        if (!types.length) continue;
+
+        await session.send("DOM.setAttributeValue", { nodeId, name: LISTENER_MARKER_ATTRIBUTE, value: types.join(" ") });
+        marked.push(nodeId);
+      } catch {
+        // The node went away while being queried
+        continue;
+      }
+    }
+  } finally {
+    await session.send("Runtime.releaseObjectGroup", { objectGroup: OBJECT_GROUP }).catch(() => undefined);
+  }
+
+  return marked;
+}
+
+/**
+ * Marks every element on a page that has a candidate event listener.
+ *
+ * @remarks
+ * Same-process frames and open shadow roots are covered by the page session;
+ * out-of-process (cross-site) iframes get a session of their own. The sessions
+ * stay attached until the returned function removes the markers. Chromium only.
+ *
+ * @param page - Page to mark.
+ * @returns A function that removes the markers and detaches the sessions.
+ *
+ * @example
+ * ```ts
+ * const clear = await markEventListeners(page);
+ * try {
+ *   // read LISTENER_MARKER_ATTRIBUTE in the page
+ * } finally {
+ *   await clear();
+ * }
+ * ```
+ */
+export async function markEventListeners(page: Page): Promise<ClearListenerMarkers> {
+  const sessions = [await page.context().newCDPSession(page)];
+
+  for (const frame of page.frames()) {
+    if (frame === page.mainFrame()) continue;
+    try {
+      sessions.push(await page.context().newCDPSession(frame));
+    } catch {
+      // Not an out-of-process frame; the page session already covers it
+      continue;
+    }
+  }
+
+  const marked = new Map<CDPSession, number[]>();
+  for (const session of sessions) {
+    try {
+      marked.set(session, await markSession(session));
+    } catch {
+      continue;
+    }
+  }
+
+  return async () => {
+    for (const session of sessions) {
+      for (const nodeId of marked.get(session) ?? []) {
+        await session.send("DOM.removeAttribute", { nodeId, name: LISTENER_MARKER_ATTRIBUTE }).catch(() => undefined);
+      }
+      await session.detach().catch(() => undefined);
+    }
+  };
+}
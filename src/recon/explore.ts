@@ -0,0 +1,343 @@
+/**
+ * @fileoverview
+ * Exploration mode: opens menus, tabs and disclosures to discover hidden elements.
+ *
+ * @remarks
+ * The scanner only records visible elements, so dropdown menus, collapsed
+ * accordions, inactive tab panels and dialog contents are missing from a plain
+ * scan. In exploration mode, every trigger the scan found (see
+ * {@link ReconTriggerKind}) is clicked, the page is captured again, and the
+ * elements not seen before are recorded with a `revealedBy` reference to the
+ * trigger. Triggers revealed this way (submenus) are explored too, up to
+ * {@link MAX_DEPTH} levels, by opening their parents first.
+ *
+ * Exploration must not change anything beyond the UI state:
+ * - links to other pages and submit/reset buttons of forms are never clicked
+ * - main-frame navigations are aborted, form submissions are cancelled in the
+ *   page, and new tabs or windows are closed
+ * - a trigger that still changes the URL (client-side routing) has its capture
+ *   discarded, and the page is reloaded
+ *
+ * After each capture the trigger is closed again (Escape, then a second click
+ * while it still reports itself open). Tabs, popups without an expanded state
+ * and triggers that stay open are undone by reloading the page.
+ */
+import type { FrameLocator, Locator, Page, Route } from "@playwright/test";
+import type { ReconElement, ReconExplorationInfo, ReconRevealedBy } from "../reporting/types";
+
+/**
+ * Upper bound on triggers activated per page.
+ */
+export const MAX_TRIGGERS = 40;
+
+/**
+ * Nesting levels explored (1 = only triggers visible on the initial page).
+ */
+const MAX_DEPTH = 2;
+
+/**
+ * Time allowed for content to render after a click (ms).
+ */
+const REVEAL_DELAY_MS = 300;
+
+/**
+ * Actionability timeout for trigger clicks (ms); hidden or covered triggers are skipped.
+ */
+const CLICK_TIMEOUT_MS = 2_000;
+
+/**
+ * Window property holding the in-page submit guard.
+ */
+const SUBMIT_GUARD = "__reconSubmitGuard";
+
+/**
+ * Captures the elements currently on the page (extraction, plugins and locator validation).
+ */
+export type CaptureElements = () => Promise<ReconElement[]>;
+
+/**
+ * Re-navigates to the scanned URL and waits for it to settle.
+ */
+export type ReloadPage = () => Promise<void>;
+
+/**
+ * Result of an exploration pass.
+ */
+export type ExplorationResult = {
+  // Newly revealed elements, in discovery order
+  revealed: ReconElement[];
+  info: ReconExplorationInfo;
+};
+
+/**
+ * Identifies an element across captures of the same page.
+ *
+ * @remarks
+ * Opening a trigger can insert content before existing siblings, which shifts
+ * their positional XPath, so elements are keyed by their test id, a CSS hint
+ * that names them (not a bare tag), or their role and accessible name, in that
+ * order. Only anonymous elements fall back to the XPath.
+ *
+ * @param el - Scanned element.
+ * @returns Frame, identity and type of the element.
+ */
+export function elementKey(el: ReconElement): string {
+  return JSON.stringify([el.framePath ?? [], ...identityOf(el), el.type]);
+}
+
+/**
+ * Picks the signals that identify an element for {@link elementKey}.
+ *
+ * @param el - Scanned element.
+ * @returns The strategy followed by its values.
+ */
+function identityOf(el: ReconElement): string[] {
+  if (el.testId) return ["testId", el.testId];
+
+  // The scanner falls back to the bare tag when nothing names the element
+  const inner = el.css?.split(" >> ").pop();
+  if (el.css && inner && !/^[a-z][a-z0-9-]*$/i.test(inner)) return ["css", el.css];
+
+  if (el.accessibleName) return ["role", el.role ?? el.tagName, el.accessibleName];
+  return ["xpath", el.xpath ?? el.css ?? ""];
+}
+
+/**
+ * Decides whether a trigger can be activated without navigating or submitting.
+ *
+ * @param el - Scanned element.
+ * @returns `true` for enabled triggers that are neither page links nor form submit/reset controls.
+ */
+export function isSafeTrigger(el: ReconElement): boolean {
+  if (!el.trigger || !el.css || el.disabled || el.ariaDisabled) return false;
+  if (el.tagName === "a" && el.href && !/^(#|javascript:)/i.test(el.href.trim())) return false;
+  if (el.form && ["submit", "reset", "image"].includes(el.typeAttr ?? "")) return false;
+  return true;
+}
+
+/**
+ * Builds the `revealedBy` reference for a trigger.
+ *
+ * @param el - Trigger element.
+ * @param via - Triggers opened before it (outermost first).
+ * @returns The reference.
+ */
+function referenceTo(el: ReconElement, via: ReconRevealedBy[]): ReconRevealedBy {
+  return {
+    kind: el.trigger!,
+    css: el.css!,
+    framePath: el.framePath,
+    name: el.accessibleName || el.text || undefined,
+    via: via.length ? via : undefined,
+  };
+}
+
+/**
+ * Resolves a trigger reference to a locator.
+ *
+ * @param page - Explored page.
+ * @param ref - Trigger reference.
+ * @returns Locator for the first match.
+ */
+function triggerLocator(page: Page, ref: ReconRevealedBy): Locator {
+  const root = (ref.framePath ?? []).reduce<Page | FrameLocator>((r, f) => r.frameLocator(f), page);
+  return root.locator(ref.css).first();
+}
+
+/**
+ * Reads whether a trigger reports its content as open.
+ *
+ * @param locator - Trigger locator.
+ * @param ref - Trigger reference.
+ * @returns `aria-expanded="true"`, or an open `<details>` for summaries.
+ */
+function isOpen(locator: Locator, ref: ReconRevealedBy): Promise<boolean> {
+  return locator
+    .evaluate(
+      (e, kind) =>
+        kind === "details" ? (e.parentElement as HTMLDetailsElement | null)?.open === true : e.getAttribute("aria-expanded") === "true",
+      ref.kind
+    )
+    .catch(() => false);
+}
+
+/**
+ * Strips the fragment from a URL (tabs often update it).
+ *
+ * @param url - Page URL.
+ * @returns The URL without `#...`.
+ */
+function withoutHash(url: string): string {
+  return url.split("#")[0];
+}
+
+/**
+ * Clicks a trigger and its parents, outermost first.
+ *
+ * @param page - Explored page.
+ * @param path - Parent triggers followed by the trigger itself.
+ * @returns Number of triggers clicked (less than `path.length` if one failed).
+ */
+async function openPath(page: Page, path: ReconRevealedBy[]): Promise<number> {
+  for (const [i, ref] of path.entries()) {
+    try {
+      await triggerLocator(page, ref).click({ timeout: CLICK_TIMEOUT_MS });
+      await page.waitForTimeout(REVEAL_DELAY_MS);
+    } catch {
+      return i;
+    }
+  }
+  return path.length;
+}
+
+/**
+ * Closes a trigger and its parents, innermost first.
+ *
+ * @param page - Explored page.
+ * @param path - Parent triggers followed by the trigger itself.
+ * @returns `true` if every trigger reports itself closed again.
+ */
+async function closePath(page: Page, path: ReconRevealedBy[]): Promise<boolean> {
+  for (const ref of [...path].reverse()) {
+    if (ref.kind === "tab" || ref.kind === "popup") return false;
+
+    const locator = triggerLocator(page, ref);
+    await page.keyboard.press("Escape").catch(() => undefined);
+    if (await isOpen(locator, ref)) {
+      await locator.click({ timeout: CLICK_TIMEOUT_MS }).catch(() => undefined);
+      await page.waitForTimeout(REVEAL_DELAY_MS);
+    }
+    if (await isOpen(locator, ref)) return false;
+  }
+  return true;
+}
+
+/**
+ * Blocks navigation, form submission and popups while exploring.
+ *
+ * @param page - Explored page.
+ * @returns A function that lifts the guard.
+ */
+async function guardPage(page: Page): Promise<() => Promise<void>> {
+  const blockNavigation = (route: Route) => {
+    const request = route.request();
+    let mainFrame = false;
+    try {
+      mainFrame = request.isNavigationRequest() && request.frame() === page.mainFrame();
+    } catch {
+      // Service worker requests have no frame
+    }
+    return mainFrame ? route.abort() : route.fallback();
+  };
+  const closePopup = (popup: Page) => void popup.close().catch(() => undefined);
+
+  await page.route("**/*", blockNavigation);
+  page.context().on("page", closePopup);
+  for (const frame of page.frames()) {
+    await frame
+      .evaluate((key) => {
+        const w = window as unknown as Record<string, (e: Event) => void>;
+        if (w[key]) return;
+        w[key] = (e) => {
+          e.preventDefault();
+          e.stopImmediatePropagation();
+        };
+        window.addEventListener("submit", w[key], true);
+      }, SUBMIT_GUARD)
+      .catch(() => undefined);
+  }
+
+  return async () => {
+    for (const frame of page.frames()) {
+      await frame
+        .evaluate((key) => {
+          const w = window as unknown as Record<string, (e: Event) => void>;
+          if (!w[key]) return;
+          window.removeEventListener("submit", w[key], true);
+          delete w[key];
+        }, SUBMIT_GUARD)
+        .catch(() => undefined);
+    }
+    page.context().off("page", closePopup);
+    await page.unroute("**/*", blockNavigation);
+  };
+}
+
+/**
+ * Activates the triggers among the scanned elements and records what they reveal.
+ *
+ * @remarks
+ * Revealed elements are captured while visible, so their locators are
+ * validated in that state; they carry no bounding box because they are not
+ * visible in the page's resting state (where screenshots are taken). The page
+ * is left in its initial state.
+ *
+ * @param page - Page that has been scanned.
+ * @param elements - Elements of the initial scan (triggers carry `trigger`).
+ * @param capture - Captures the current elements.
+ * @param reload - Restores the initial page state.
+ * @returns Revealed elements and pass statistics.
+ *
+ * @example
+ * ```ts
+ * const { revealed } = await exploreStates(page, elements, capture, reload);
+ * revealed[0].revealedBy; // { kind: "expand", css: "#account-menu", name: "Account" }
+ * ```
+ */
+export async function exploreStates(
+  page: Page,
+  elements: ReconElement[],
+  capture: CaptureElements,
+  reload: ReloadPage
+): Promise<ExplorationResult> {
+  const seen     = new Set(elements.map(elementKey));
+  const queue    = elements.filter((el) => el.trigger).map((el) => ({ el, via: [] as ReconRevealedBy[] }));
+  const revealed: ReconElement[] = [];
+  let activated  = 0;
+  let skipped    = 0;
+
+  let unguard = await guardPage(page);
+  const reset = async () => {
+    await unguard();
+    await reload();
+    unguard = await guardPage(page);
+  };
+
+  try {
+    // The queue grows as nested triggers are revealed
+    for (const { el, via } of queue) {
+      if (!isSafeTrigger(el) || activated >= MAX_TRIGGERS) {
+        skipped++;
+        continue;
+      }
+
+      const trigger  = referenceTo(el, via);
+      const path     = [...via, trigger];
+      const startUrl = withoutHash(page.url());
+      const clicked  = await openPath(page, path);
+
+      if (clicked < path.length || withoutHash(page.url()) !== startUrl) {
+        skipped++;
+        if (clicked > 0) await reset();
+        continue;
+      }
+      activated++;
+
+      for (const found of await capture()) {
+        const key = elementKey(found);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { boundingBox: _box, ...rest } = found;
+        revealed.push({ ...rest, revealedBy: trigger });
+        if (found.trigger && path.length < MAX_DEPTH) queue.push({ el: found, via: path });
+      }
+
+      if (!(await closePath(page, path))) await reset();
+    }
+  } finally {
+    await unguard();
+  }
+
+  return { revealed, info: { activated, skipped, revealed: revealed.length } };
+}
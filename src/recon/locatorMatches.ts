@@ -0,0 +1,69 @@
+/**
+ * @fileoverview
+ * Validates an element's candidate locators against the live page.
+ *
+ * @remarks
+ * Selector generation in the page context is best-effort and never checks
+ * uniqueness. This module resolves each candidate the same way generated
+ * Playwright code would (`getByTestId`, `getByRole`, `getByLabel`,
+ * `getByPlaceholder`, CSS, XPath) and records how many nodes it matches, so the
+ * Page Model can prefer unique hints and flag elements that have none.
+ */
+import type { FrameLocator, Page } from "@playwright/test";
+import type { ReconElement, ReconLocatorStrategy } from "../reporting/types";
+
+/**
+ * Normalizes a name the same way the Page Model does before building hints.
+ *
+ * @param s - Raw name.
+ * @returns Trimmed, whitespace-collapsed name capped at 80 chars, or `undefined`.
+ */
+function hintName(s?: string): string | undefined {
+  const v = s?.trim().replace(/\s+/g, " ");
+  return v ? v.slice(0, 80) : undefined;
+}
+
+/**
+ * Counts the nodes matched by every candidate locator of an element.
+ *
+ * @remarks
+ * Candidates are resolved inside the element's frame. A locator that throws
+ * (e.g. an invalid selector or role) is recorded as matching nothing.
+ *
+ * @param page - Page the element was scanned from.
+ * @param el - Scanned element.
+ * @returns Match counts keyed by locator strategy.
+ */
+export async function countLocatorMatches(
+  page: Page,
+  el: ReconElement
+): Promise<Partial<Record<ReconLocatorStrategy, number>>> {
+  const root: Page | FrameLocator = (el.framePath ?? []).reduce<Page | FrameLocator>(
+    (r, f) => r.frameLocator(f),
+    page
+  );
+
+  const candidates: [ReconLocatorStrategy, () => Promise<number>][] = [];
+  const name  = hintName(el.accessibleName);
+  const label = hintName(el.labelText);
+
+  if (el.testId) candidates.push(["testId", () => root.getByTestId(el.testId!).count()]);
+  if (el.role) {
+    candidates.push(["role", () => root.getByRole(el.role as Parameters<Page["getByRole"]>[0], name ? { name } : undefined).count()]);
+  }
+  if (label) candidates.push(["label", () => root.getByLabel(label).count()]);
+  if (el.placeholder) candidates.push(["placeholder", () => root.getByPlaceholder(el.placeholder!).count()]);
+  if (el.css) candidates.push(["css", () => root.locator(el.css!).count()]);
+  if (el.xpath) candidates.push(["xpath", () => root.locator(`xpath=${el.xpath}`).count()]);
+
+  const matches: Partial<Record<ReconLocatorStrategy, number>> = {};
+  for (const [strategy, count] of candidates) {
+    try {
+      matches[strategy] = await count();
+    } catch {
+      matches[strategy] = 0;
+    }
+  }
+
+  return matches;
+}
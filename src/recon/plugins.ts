@@ -0,0 +1,155 @@
+/**
+ * @fileoverview
+ * Plugin API for adapting candidate detection to a design system.
+ *
+ * @remarks
+ * The scanner's candidate heuristics only know native controls, ARIA roles and
+ * `onclick`. Plugins extend them without forking the scanner:
+ * - `candidateSelectors` mark extra elements as candidates (e.g. framework
+ *   click bindings such as `[ng-click]`)
+ * - `tagTypes` map custom element tags to a {@link ReconElementType}; mapped
+ *   tags are candidates too
+ * - `processElements` post-processes the scanned elements before locators are
+ *   validated and the audit runs
+ *
+ * Plugins are plain objects, loaded from modules named in the config file or
+ * with `--plugin` (see `loadPlugins`).
+ */
+import type { Page } from "@playwright/test";
+import type { ReconElement, ReconElementType } from "../reporting/types";
+
+/**
+ * Context passed to {@link ReconPlugin.processElements}.
+ */
+export type PluginContext = {
+  url: string;
+  // The scanned page, for plugins that need to probe the DOM further
+  page: Page;
+};
+
+/**
+ * A recon plugin.
+ */
+export type ReconPlugin = {
+  // Shown in error messages
+  name: string;
+  // Visible elements matching these selectors are always candidates
+  candidateSelectors?: string[];
+  // Lowercase tag name → element type (e.g. { "my-button": "button" })
+  tagTypes?: Record<string, ReconElementType>;
+  // Returns the elements to keep (or nothing, after modifying them in place)
+  processElements?: (
+    elements: ReconElement[],
+    context: PluginContext
+  ) => ReconElement[] | void | Promise<ReconElement[] | void>;
+};
+
+const ELEMENT_TYPES: ReconElementType[] = ["button", "link", "input", "select", "textarea", "other"];
+
+/**
+ * Identity helper that gives plugin modules type checking.
+ *
+ * @param plugin - Plugin definition.
+ * @returns The same plugin.
+ *
+ * @example
+ * ```ts
+ * export default definePlugin({
+ *   name: "acme-design-system",
+ *   candidateSelectors: ["[ng-click]"],
+ *   tagTypes: { "acme-button": "button", "acme-select": "select" },
+ * });
+ * ```
+ */
+export function definePlugin(plugin: ReconPlugin): ReconPlugin {
+  return plugin;
+}
+
+/**
+ * Checks that a value is a usable plugin.
+ *
+ * @param value - A plugin module's export.
+ * @param source - Where the plugin came from (for error messages).
+ * @returns The value, typed as {@link ReconPlugin}.
+ * @throws If the value does not have the plugin shape.
+ */
+export function validatePlugin(value: unknown, source: string): ReconPlugin {
+  const p = value as Partial<ReconPlugin> | null;
+  const errors: string[] = [];
+
+  if (!p || typeof p !== "object") {
+    throw new Error(`Invalid plugin ${source}: expected an object`);
+  }
+  if (typeof p.name !== "string" || !p.name) errors.push("name: expected a non-empty string");
+  if (p.candidateSelectors !== undefined && (!Array.isArray(p.candidateSelectors) || p.candidateSelectors.some((s) => typeof s !== "string"))) {
+    errors.push("candidateSelectors: expected an array of strings");
+  }
+  if (p.tagTypes !== undefined) {
+    if (typeof p.tagTypes !== "object" || p.tagTypes === null) {
+      errors.push("tagTypes: expected an object");
+    } else {
+      for (const [tag, type] of Object.entries(p.tagTypes)) {
+        if (!ELEMENT_TYPES.includes(type)) errors.push(`tagTypes.${tag}: expected one of ${ELEMENT_TYPES.join(", ")}`);
+      }
+    }
+  }
+  if (p.processElements !== undefined && typeof p.processElements !== "function") {
+    errors.push("processElements: expected a function");
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid plugin ${source}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return p as ReconPlugin;
+}
+
+/**
+ * Merges the candidate rules of several plugins.
+ *
+ * @remarks
+ * Tag names are lowercased; when two plugins map the same tag, the later one wins.
+ * Mapped tags are added to the candidate selectors.
+ *
+ * @param plugins - Plugins in load order.
+ * @returns Combined candidate selectors and tag mappings.
+ */
+export function candidateRules(plugins: ReconPlugin[]): {
+  candidateSelectors: string[];
+  tagTypes: Record<string, ReconElementType>;
+} {
+  const tagTypes: Record<string, ReconElementType> = {};
+  for (const plugin of plugins) {
+    for (const [tag, type] of Object.entries(plugin.tagTypes ?? {})) tagTypes[tag.toLowerCase()] = type;
+  }
+
+  const candidateSelectors = [...plugins.flatMap((p) => p.candidateSelectors ?? []), ...Object.keys(tagTypes)];
+  return { candidateSelectors: Array.from(new Set(candidateSelectors)), tagTypes };
+}
+
+/**
+ * Runs every plugin's `processElements` hook in order.
+ *
+ * @param plugins - Plugins in load order.
+ * @param elements - Scanned elements.
+ * @param context - Page URL and page.
+ * @returns The elements after the last hook.
+ * @throws If a hook throws (the error names the plugin).
+ */
+export async function processElements(
+  plugins: ReconPlugin[],
+  elements: ReconElement[],
+  context: PluginContext
+): Promise<ReconElement[]> {
+  let current = elements;
+
+  for (const plugin of plugins) {
+    if (!plugin.processElements) continue;
+    try {
+      current = (await plugin.processElements(current, context)) ?? current;
+    } catch (err) {
+      throw new Error(`Plugin "${plugin.name}" failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return current;
+}
@@ -8,8 +8,71 @@
  * ARIA roles, focusability, click handlers, etc.). Output is returned as a
  * {@link ReconReport} suitable for reporting and downstream generation.
  */
-import { chromium } from "@playwright/test";
-import { ReconReport, ReconElementType, ReconElement } from "../reporting/types";
+import { chromium, selectors, type Frame, type Page } from "@playwright/test";
+import {
+  ReconReport,
+  ReconElementType,
+  ReconElement,
+  ReconFieldConstraints,
+  ReconFormRef,
+  ReconListenerType,
+  ReconNameSource,
+  ReconRegion,
+  ReconRegionKind,
+  ReconRow,
+  ReconSelectOption,
+  ReconTriggerKind,
+} from "../reporting/types";
+import { AX_MARKER_ATTRIBUTE, readAccessibilityTree, type AxInfo } from "./accessibilityTree";
+import { auditElements } from "./auditElements";
+import type { BrowserSettings } from "./browser";
+import { LISTENER_MARKER_ATTRIBUTE, markEventListeners } from "./eventListeners";
+import { exploreStates } from "./explore";
+import { countLocatorMatches } from "./locatorMatches";
+import { candidateRules, processElements, type ReconPlugin } from "./plugins";
+import { captureScreenshots, type ScreenshotOptions } from "./screenshots";
+import { createSessionContext, saveSessionState, type SessionOptions } from "./session";
+import { DEFAULT_WAIT, settlePage, type WaitOptions } from "./waitStrategy";
+
+/**
+ * Test id attributes checked when none are configured, in priority order.
+ */
+export const DEFAULT_TEST_ID_ATTRIBUTES = ["data-testid", "data-test", "data-test-id"];
+
+/**
+ * Options applied to each page scanned in an existing browser.
+ */
+export type PageScanOptions = {
+  // Post-navigation wait strategy (defaults to `domcontentloaded` only)
+  wait?: WaitOptions;
+  // Take roles and accessible names from Chromium's computed accessibility tree
+  accessibilityTree?: boolean;
+  // Detect addEventListener() listeners over CDP (not just onclick)
+  eventListeners?: boolean;
+  // Attributes holding test ids, in priority order (defaults to DEFAULT_TEST_ID_ATTRIBUTES)
+  testIdAttributes?: string[];
+  // Visible elements matching these selectors are always candidates
+  includeSelectors?: string[];
+  // Elements matching (or inside an element matching) these selectors are never candidates
+  excludeSelectors?: string[];
+  // Extra candidate rules, type mappings and post-processing hooks
+  plugins?: ReconPlugin[];
+  // Open menus, tabs, disclosures and dialogs to record the elements they reveal
+  explore?: boolean;
+};
+
+/**
+ * Options for a single-page scan.
+ */
+export type ScanOptions = PageScanOptions & {
+  headed: boolean;
+  // Authentication / session preparation (storage state, headers, login recipe)
+  session?: SessionOptions;
+  // Viewport, locale, user agent and device emulation
+  browser?: BrowserSettings;
+  // Save an annotated full-page screenshot (and optional crops)
+  screenshot?: ScreenshotOptions;
+};
 
 /**
  * Represents the raw element payload produced inside the page context.
@@ -24,8 +87,10 @@ type RawEl = {
   role?: string;
   typeAttr?: string;
   value?: string;
+  checked?: boolean;
   text?: string;
   id?: string;
+  idCount?: number;
   name?: string;
   href?: string;
   placeholder?: string;
@@ -33,10 +98,28 @@ type RawEl = {
   ariaDisabled?: boolean;
   disabled?: boolean;
   testId?: string;
+  tabIndex?: number;
+  clickHandler?: boolean;
+  eventListeners?: ReconListenerType[];
+  form?: ReconFormRef;
+  constraints?: ReconFieldConstraints;
+  options?: ReconSelectOption[];
+  region?: ReconRegion;
+  row?: ReconRow;
+  trigger?: ReconTriggerKind;
   labelText?: string;
   accessibleName?: string;
+  nameSource?: ReconNameSource;
+  // Marker value linking the element to its accessibility node (tree mode only)
+  axKey?: string;
   css?: string;
   xpath?: string;
+  // CSS selectors of enclosing open shadow hosts (outermost first)
+  shadowHosts?: string[];
+  // Selectors of enclosing iframes (outermost first); set in Node context
+  framePath?: string[];
+  // Viewport-relative rect within the element's own frame
+  rect?: { x: number; y: number; width: number; height: number };
 };
 
 const INTERACTIVE_ROLES = new Set([
@@ -60,12 +143,14 @@ const INTERACTIVE_ROLES = new Set([
  *
  * @remarks
  * Uses a combination of ARIA role and DOM tag semantics. This mapping is
- * intentionally conservative and avoids inferring business intent.
+ * intentionally conservative and avoids inferring business intent. Plugin tag
+ * mappings apply after explicit roles and before the built-in tags.
  *
  * @param raw - Raw element payload.
+ * @param tagTypes - Plugin tag mappings (lowercase tag → type).
  * @returns Normalized element type.
  */
-function normalizeType(raw: RawEl): ReconElementType {
+function normalizeType(raw: RawEl, tagTypes: Record<string, ReconElementType> = {}): ReconElementType {
   const role = raw.role?.toLowerCase();
   const tag = raw.tag.toLowerCase();
   const inputType = raw.typeAttr?.toLowerCase();
@@ -79,12 +164,13 @@ function normalizeType(raw: RawEl): ReconElementType {
     return "other";
   }
 
+  if (Object.hasOwn(tagTypes, tag)) return tagTypes[tag];
   if (tag === "button") return "button";
   if (tag === "a" && raw.href) return "link";
   if (tag === "select") return "select";
   if (tag === "textarea") return "textarea";
   if (tag === "input") {
-    if (inputType === "button" || inputType === "submit" || inputType === "reset") return "button";
+    if (inputType === "button" || inputType === "submit" || inputType === "reset" || inputType === "image") return "button";
     // Keep these as "input" for now, but having typeAttr saved lets PageModel/codegen decide later
     return "input";
   }
@@ -94,391 +180,1064 @@ function normalizeType(raw: RawEl): ReconElementType {
 }
 
 /**
- * Scans a URL and returns a {@link ReconReport} of discovered interactable elements.
+ * Computes the selector chain locating a frame from the main frame.
  *
  * @remarks
- * - Navigates to the page using `waitUntil: "domcontentloaded"`.
- * - Discovers candidate elements using semantic and accessibility signals.
- * - Captures best-effort selector hints (CSS and XPath).
+ * Each entry selects an `<iframe>`/`<frame>` element within its parent frame and
+ * is suitable for Playwright's `frameLocator()`. Prefers `id`, then `name`,
+ * `title` and `src`, falling back to a positional `nth=` selector.
+ *
+ * @param frame - Frame to locate.
+ * @returns Selectors from the outermost iframe inward (empty for the main frame),
+ * or `undefined` if the frame was detached while computing the chain.
+ */
+async function framePathFor(frame: Frame): Promise<string[] | undefined> {
+  const path: string[] = [];
+
+  for (let f: Frame | null = frame; f && f.parentFrame(); f = f.parentFrame()) {
+    try {
+      const handle   = await f.frameElement();
+      const selector = await handle.evaluate((node) => {
+        const el = node as Element;
+        const q = (v: string) => JSON.stringify(v);
+        const tag = el.tagName.toLowerCase();
+        const id = el.getAttribute("id");
+        if (id) return `${tag}[id=${q(id)}]`;
+        for (const attr of ["name", "title", "src"]) {
+          const v = el.getAttribute(attr);
+          if (v) return `${tag}[${attr}=${q(v)}]`;
+        }
+        const index = Array.from(document.querySelectorAll(tag)).indexOf(el);
+        return `${tag} >> nth=${index}`;
+      });
+      path.unshift(selector);
+    } catch {
+      return undefined;
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Computes the offset that converts a frame's viewport coordinates to
+ * full-page coordinates of the main document.
+ *
+ * @param page - Page being scanned.
+ * @param frame - Frame the coordinates are relative to.
+ * @returns The offset, or `undefined` if the frame has no rendered box.
+ */
+async function frameOffset(page: Page, frame: Frame): Promise<{ x: number; y: number } | undefined> {
+  const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+  if (frame === page.mainFrame()) return scroll;
+
+  try {
+    // boundingBox() is relative to the main frame viewport, even for nested frames
+    const box = await (await frame.frameElement()).boundingBox();
+    return box ? { x: box.x + scroll.x, y: box.y + scroll.y } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Scans a URL in an existing Playwright {@link Page} and returns a {@link ReconReport}.
+ *
+ * @remarks
+ * - Navigates to the page and waits according to `wait` (by default only
+ *   `waitUntil: "domcontentloaded"`), recording the strategy on the report.
+ * - Discovers candidate elements using semantic and accessibility signals,
+ *   descending into open shadow roots and every frame (including cross-origin).
+ * - Captures best-effort selector hints (CSS and XPath). Elements inside shadow
+ *   roots get a `>>`-chained CSS selector through their hosts and no XPath,
+ *   since XPath cannot cross shadow boundaries.
+ * - Records how many nodes each candidate locator matches on the live page.
+ * - Audits the elements for accessibility and automation problems (`findings`).
  * - Captures automation-relevant metadata such as role, label text, accessible name,
- *   test id attributes, and link href values.
+ *   test id attributes, and link href values. With `accessibilityTree`, role and
+ *   name come from Chromium's computed accessibility tree (implicit roles,
+ *   `aria-labelledby`, `title`, `<legend>`, ...) instead of the in-page heuristic.
+ * - With `explore`, opens menus, tabs and disclosures one at a time and appends
+ *   the elements they reveal, each with a `revealedBy` trigger reference (see
+ *   `exploreStates`).
+ *
+ * The caller owns the page and its browser; this function never closes them,
+ * which lets a single browser serve many scans (see `crawlSite`).
  *
+ * @param page - Playwright page to navigate and scan.
  * @param url - Target page URL (http/https).
- * @param headed - Whether to launch the browser in headed mode.
+ * @param options - Wait strategy, name computation mode and candidate selection.
  * @returns A recon report containing the scanned elements and aggregate counts.
  */
-export async function scanUrl(url: string, headed: boolean): Promise<ReconReport> {
-  const browser = await chromium.launch({ headless: !headed });
-  const page    = await browser.newPage();
+export async function scanPage(page: Page, url: string, options: PageScanOptions = {}): Promise<ReconReport> {
+  const wait             = options.wait ?? DEFAULT_WAIT;
+  const testIdAttributes = options.testIdAttributes?.length ? options.testIdAttributes : DEFAULT_TEST_ID_ATTRIBUTES;
+  const plugins          = options.plugins ?? [];
+  const rules            = candidateRules(plugins);
+  const navStart         = Date.now();
+  await page.goto(url, { waitUntil: wait.waitUntil });
+  const waitInfo = await settlePage(page, wait, Date.now() - navStart);
 
-  try {
-    await page.goto(url, { waitUntil: "domcontentloaded" });
-
-    const rawElements = await page.evaluate((): RawEl[] => {
-      const interactiveRoles = new Set([
-        "button",
-        "link",
-        "textbox",
-        "checkbox",
-        "radio",
-        "switch",
-        "combobox",
-        "listbox",
-        "option",
-        "menuitem",
-        "tab",
-        "slider",
-        "spinbutton",
-      ]);
-
-      /**
-       * Determines whether an element is visually and semantically visible.
-       *
-       * @remarks
-       * This check is stricter than simple DOM presence. It filters out elements that:
-       * - are hidden via CSS (`display: none`, `visibility: hidden`, `opacity: 0`)
-       * - have zero rendered size
-       * - are marked as hidden or `aria-hidden`
-       *
-       * Elements failing this check are excluded from automation consideration.
-       *
-       * @param el - DOM element to evaluate.
-       * @returns `true` if the element is considered visible; otherwise `false`.
-       */
-      function isVisible(el: Element): boolean {
-        const e = el as HTMLElement;
-        const style = window.getComputedStyle(e);
-        if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") return false;
-        if ((e as any).hidden) return false;
-        const rect = e.getBoundingClientRect();
-        if (rect.width === 0 || rect.height === 0) return false;
-        // aria-hidden can hide from accessibility tree; often should not be automated
-        if (e.getAttribute("aria-hidden") === "true") return false;
-        return true;
+  // Runs inside each frame; must not reference anything from the Node scope
+  const extractRawElements = ({
+    axPrefix,
+    axAttribute,
+    listenerAttribute,
+    testIdAttributes,
+    includeSelectors,
+    excludeSelectors,
+  }: {
+    axPrefix?: string;
+    axAttribute: string;
+    listenerAttribute?: string;
+    testIdAttributes: string[];
+    includeSelectors: string[];
+    excludeSelectors: string[];
+  }): RawEl[] => {
+    const interactiveRoles = new Set([
+      "button",
+      "link",
+      "textbox",
+      "checkbox",
+      "radio",
+      "switch",
+      "combobox",
+      "listbox",
+      "option",
+      "menuitem",
+      "tab",
+      "slider",
+      "spinbutton",
+    ]);
+
+    /**
+     * Determines whether an element is visually and semantically visible.
+     *
+     * @remarks
+     * This check is stricter than simple DOM presence. It filters out elements that:
+     * - are hidden via CSS (`display: none`, `visibility: hidden`, `opacity: 0`)
+     * - have zero rendered size
+     * - are marked as hidden or `aria-hidden`
+     *
+     * Elements failing this check are excluded from automation consideration.
+     *
+     * @param el - DOM element to evaluate.
+     * @returns `true` if the element is considered visible; otherwise `false`.
+     */
+    function isVisible(el: Element): boolean {
+      const e = el as HTMLElement;
+      const style = window.getComputedStyle(e);
+      if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") return false;
+      if ((e as any).hidden) return false;
+      const rect = e.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return false;
+      // aria-hidden can hide from accessibility tree; often should not be automated
+      if (e.getAttribute("aria-hidden") === "true") return false;
+      return true;
+    }
+
+    /**
+     * Determines whether an element is disabled via native or ARIA mechanisms.
+     *
+     * @remarks
+     * Both native `disabled` attributes and `aria-disabled="true"` are captured
+     * to support automation decisions and reporting.
+     *
+     * @param el - DOM element to evaluate.
+     * @returns An object containing native and ARIA disabled state flags.
+     */
+    function isDisabled(el: Element): { disabled?: boolean; ariaDisabled?: boolean } {
+      const e = el as HTMLElement;
+      const disabled = (e as any).disabled === true || e.getAttribute("disabled") !== null;
+      const ariaDisabled = e.getAttribute("aria-disabled") === "true";
+      return { disabled, ariaDisabled };
+    }
+
+    /**
+     * Tests an element against configured selectors.
+     *
+     * @remarks
+     * Invalid selectors never match.
+     *
+     * @param el - DOM element to test.
+     * @param list - CSS selectors.
+     * @param ancestors - Also match when an ancestor matches.
+     * @returns `true` if any selector matches.
+     */
+    function matchesAny(el: Element, list: string[], ancestors = false): boolean {
+      return list.some((selector) => {
+        try {
+          return ancestors ? el.closest(selector) !== null : el.matches(selector);
+        } catch {
+          return false;
+        }
+      });
+    }
+
+    /**
+     * Reads the element's test id from the configured attributes.
+     *
+     * @param el - DOM element.
+     * @returns The first non-empty test id attribute value, or `undefined`.
+     */
+    function testIdOf(el: Element): string | undefined {
+      for (const attr of testIdAttributes) {
+        const v = el.getAttribute(attr);
+        if (v) return v;
       }
+      return undefined;
+    }
 
-      /**
-       * Determines whether an element is disabled via native or ARIA mechanisms.
-       *
-       * @remarks
-       * Both native `disabled` attributes and `aria-disabled="true"` are captured
-       * to support automation decisions and reporting.
-       *
-       * @param el - DOM element to evaluate.
-       * @returns An object containing native and ARIA disabled state flags.
-       */
-      function isDisabled(el: Element): { disabled?: boolean; ariaDisabled?: boolean } {
-        const e = el as HTMLElement;
-        const disabled = (e as any).disabled === true || e.getAttribute("disabled") !== null;
-        const ariaDisabled = e.getAttribute("aria-disabled") === "true";
-        return { disabled, ariaDisabled };
+    /**
+     * Reads the listener types marked on an element in listener mode.
+     *
+     * @param el - DOM element.
+     * @returns Listener types, or `undefined` if unmarked.
+     */
+    function listenerTypesOf(el: Element): ReconListenerType[] | undefined {
+      const raw = listenerAttribute ? el.getAttribute(listenerAttribute) : null;
+      return raw ? (raw.split(" ") as ReconListenerType[]) : undefined;
+    }
+
+    /**
+     * Detects controls that reveal hidden content when activated.
+     *
+     * @param el - DOM element.
+     * @returns The trigger kind, or `undefined` if the element is not a closed trigger.
+     */
+    function triggerOf(el: Element): ReconTriggerKind | undefined {
+      if (el.tagName.toLowerCase() === "summary") {
+        const details = el.parentElement;
+        return details?.tagName.toLowerCase() === "details" && !(details as HTMLDetailsElement).open ? "details" : undefined;
       }
+      if (el.getAttribute("role") === "tab") return el.getAttribute("aria-selected") === "true" ? undefined : "tab";
 
-      /**
-       * Determines whether an element should be considered an automation candidate.
-       *
-       * @remarks
-       * An element is considered a candidate if it:
-       * - is visible
-       * - is natively interactive (button, input, select, textarea, link, etc.)
-       * - has an interactive ARIA role
-       * - is focusable via tabindex
-       * - has click handlers or editable content
-       *
-       * This heuristic intentionally errs on the side of inclusion for discovery.
-       *
-       * @param el - DOM element to evaluate.
-       * @returns `true` if the element should be included in the recon scan.
-       */
-      function isCandidate(el: Element): boolean {
-        const e = el as HTMLElement;
-        if (!isVisible(e)) return false;
-
-        const tag = e.tagName.toLowerCase();
-        const role = (e.getAttribute("role") || "").toLowerCase();
-        const tabindex = e.getAttribute("tabindex");
-        const hasTabindex = tabindex !== null && !Number.isNaN(Number(tabindex)) && Number(tabindex) >= 0;
+      const expanded = el.getAttribute("aria-expanded");
+      if (expanded === "false") return "expand";
 
-        const hasClickHandler =
-          typeof (e as any).onclick === "function" ||
-          e.getAttribute("onclick") !== null;
+      const popup = el.getAttribute("aria-haspopup");
+      return popup && popup !== "false" && expanded === null ? "popup" : undefined;
+    }
 
-        const contentEditable: boolean = e.getAttribute("contenteditable") === "true";
+    /**
+     * Detects click handling: `onclick`, or (in listener mode) a pointer listener.
+     *
+     * @param el - DOM element.
+     * @returns `true` if the element reacts to clicks.
+     */
+    function hasClickHandler(el: Element): boolean {
+      if (typeof (el as any).onclick === "function" || el.getAttribute("onclick") !== null) return true;
+      return (listenerTypesOf(el) ?? []).some((t) => t !== "keydown");
+    }
 
-        const nativeInteractive =
-          tag === "button" ||
-          (tag === "a" && e.getAttribute("href") !== null) ||
-          tag === "input" ||
-          tag === "select" ||
-          tag === "textarea" ||
-          (tag === "summary" && e.parentElement?.tagName.toLowerCase() === "details");
+    /**
+     * Determines whether an element should be considered an automation candidate.
+     *
+     * @remarks
+     * An element is considered a candidate if it:
+     * - is visible
+     * - is natively interactive (button, input, select, textarea, link, etc.)
+     * - has an interactive ARIA role
+     * - is focusable via tabindex
+     * - has click handlers, key listeners (listener mode) or editable content
+     *
+     * Configured include selectors force visible elements in; exclude selectors
+     * drop elements and whole subtrees (e.g. cookie banners).
+     *
+     * This heuristic intentionally errs on the side of inclusion for discovery.
+     *
+     * @param el - DOM element to evaluate.
+     * @returns `true` if the element should be included in the recon scan.
+     */
+    function isCandidate(el: Element): boolean {
+      const e = el as HTMLElement;
+      if (!isVisible(e)) return false;
+      if (matchesAny(e, excludeSelectors, true)) return false;
+      if (matchesAny(e, includeSelectors)) return true;
 
-        const ariaInteractive = role !== "" && interactiveRoles.has(role);
+      const tag = e.tagName.toLowerCase();
+      const role = (e.getAttribute("role") || "").toLowerCase();
+      const tabindex = e.getAttribute("tabindex");
+      const hasTabindex = tabindex !== null && !Number.isNaN(Number(tabindex)) && Number(tabindex) >= 0;
 
-        return nativeInteractive || ariaInteractive || hasTabindex || hasClickHandler || contentEditable;
-      }
+      const hasListeners = hasClickHandler(e) || listenerTypesOf(e) !== undefined;
 
-      /**
-       * Extracts normalized text content from an element.
-       *
-       * @remarks
-       * Text is trimmed, whitespace-normalized, and truncated to avoid excessively
-       * large values in reports.
-       *
-       * @param el - DOM element to extract text from.
-       * @returns Normalized text content or `undefined` if empty.
-       */
-      function getText(el: Element): string | undefined {
-        const txt = (el.textContent || "").trim().replace(/\s+/g, " ");
-        return txt ? txt.slice(0, 200) : undefined;
-      }
+      const contentEditable: boolean = e.getAttribute("contenteditable") === "true";
 
-      /**
-       * Escapes a string for safe use in a CSS selector.
-       *
-       * @param value - Raw attribute value.
-       * @returns CSS-escaped string.
-       */
-      function cssEscape(value: string): string {
-        return value.replace(/(["\\.#:[\]])/g, "\\$1");
-      }
+      const nativeInteractive =
+        tag === "button" ||
+        (tag === "a" && e.getAttribute("href") !== null) ||
+        tag === "input" ||
+        tag === "select" ||
+        tag === "textarea" ||
+        (tag === "summary" && e.parentElement?.tagName.toLowerCase() === "details");
 
-      /**
-       * Generates a best-effort CSS selector for an element.
-       *
-       * @remarks
-       * Selector priority:
-       * 1. Test ID attributes
-       * 2. DOM `id`
-       * 3. `name` attribute
-       * 4. `aria-label`
-       * 5. Tag-only fallback
-       *
-       * Selectors are not guaranteed to be unique, but are intended to be
-       * automation-friendly and stable where possible.
-       *
-       * @param el - DOM element to generate a selector for.
-       * @returns A CSS selector string.
-       */
-      function bestCss(el: Element): string {
-        const e = el as HTMLElement;
-        const tag = e.tagName.toLowerCase();
-
-        const testId =
-          e.getAttribute("data-testid") ||
-          e.getAttribute("data-test") ||
-          e.getAttribute("data-test-id");
-        if (testId) return `[data-testid="${cssEscape(testId)}"], [data-test="${cssEscape(testId)}"], [data-test-id="${cssEscape(testId)}"]`;
-
-        const id = e.getAttribute("id");
-        if (id) return `#${cssEscape(id)}`;
-
-        const name = e.getAttribute("name");
-        if (name) return `${tag}[name="${cssEscape(name)}"]`;
-
-        const ariaLabel = e.getAttribute("aria-label");
-        if (ariaLabel) return `${tag}[aria-label="${cssEscape(ariaLabel)}"]`;
-
-        // fallback: tag only (least specific but safe)
-        return tag;
-      }
+      const ariaInteractive = role !== "" && interactiveRoles.has(role);
+
+      return nativeInteractive || ariaInteractive || hasTabindex || hasListeners || contentEditable;
+    }
+
+    /**
+     * Extracts normalized text content from an element.
+     *
+     * @remarks
+     * Text is trimmed, whitespace-normalized, and truncated to avoid excessively
+     * large values in reports.
+     *
+     * @param el - DOM element to extract text from.
+     * @returns Normalized text content or `undefined` if empty.
+     */
+    function getText(el: Element): string | undefined {
+      const txt = (el.textContent || "").trim().replace(/\s+/g, " ");
+      return txt ? txt.slice(0, 200) : undefined;
+    }
+
+    /**
+     * Escapes a string for safe use in a CSS selector.
+     *
+     * @param value - Raw attribute value.
+     * @returns CSS-escaped string.
+     */
+    function cssEscape(value: string): string {
+      return value.replace(/(["\\.#:[\]])/g, "\\$1");
+    }
+
+    /**
+     * Generates a best-effort CSS selector for an element.
+     *
+     * @remarks
+     * Selector priority:
+     * 1. Test ID attributes
+     * 2. DOM `id`
+     * 3. `name` attribute
+     * 4. `aria-label`
+     * 5. Tag-only fallback
+     *
+     * Selectors are not guaranteed to be unique, but are intended to be
+     * automation-friendly and stable where possible.
+     *
+     * @param el - DOM element to generate a selector for.
+     * @returns A CSS selector string.
+     */
+    function bestCss(el: Element): string {
+      const e = el as HTMLElement;
+      const tag = e.tagName.toLowerCase();
+
+      const testId = testIdOf(e);
+      if (testId) return testIdAttributes.map((attr) => `[${attr}="${cssEscape(testId)}"]`).join(", ");
+
+      const id = e.getAttribute("id");
+      if (id) return `#${cssEscape(id)}`;
+
+      const name = e.getAttribute("name");
+      if (name) return `${tag}[name="${cssEscape(name)}"]`;
 
-      /**
-       * Generates a best-effort XPath selector for an element.
-       *
-       * @remarks
-       * Prefers ID-based XPath when available. Otherwise, constructs a positional
-       * XPath based on the element's location in the DOM tree.
-       *
-       * This selector is intended as a fallback and may be brittle across DOM changes.
-       *
-       * @param el - DOM element to generate an XPath for.
-       * @returns An XPath selector string.
-       */
-      function xpathFor(el: Element): string {
-        const e = el as HTMLElement;
-
-        const id = e.getAttribute("id");
-        if (id) return `//*[@id="${id}"]`;
-
-        // Basic absolute-ish XPath with sibling indexes
-        const parts: string[] = [];
-        let node: Element | null = e;
-        while (node && node.nodeType === Node.ELEMENT_NODE) {
-          const tag = node.tagName.toLowerCase();
-          let index = 1;
-          let sibling = node.previousElementSibling;
-          while (sibling) {
-            if (sibling.tagName.toLowerCase() === tag) index++;
-            sibling = sibling.previousElementSibling;
-          }
-          parts.unshift(`${tag}[${index}]`);
-          node = node.parentElement;
+      const ariaLabel = e.getAttribute("aria-label");
+      if (ariaLabel) return `${tag}[aria-label="${cssEscape(ariaLabel)}"]`;
+
+      // fallback: tag only (least specific but safe)
+      return tag;
+    }
+
+    /**
+     * Generates a best-effort XPath selector for an element.
+     *
+     * @remarks
+     * Prefers ID-based XPath when available. Otherwise, constructs a positional
+     * XPath based on the element's location in the DOM tree.
+     *
+     * This selector is intended as a fallback and may be brittle across DOM changes.
+     *
+     * @param el - DOM element to generate an XPath for.
+     * @returns An XPath selector string.
+     */
+    function xpathFor(el: Element): string {
+      const e = el as HTMLElement;
+
+      const id = e.getAttribute("id");
+      if (id) return `//*[@id="${id}"]`;
+
+      // Basic absolute-ish XPath with sibling indexes
+      const parts: string[] = [];
+      let node: Element | null = e;
+      while (node && node.nodeType === Node.ELEMENT_NODE) {
+        const tag = node.tagName.toLowerCase();
+        let index = 1;
+        let sibling = node.previousElementSibling;
+        while (sibling) {
+          if (sibling.tagName.toLowerCase() === tag) index++;
+          sibling = sibling.previousElementSibling;
         }
-        return "/" + parts.join("/");
+        parts.unshift(`${tag}[${index}]`);
+        node = node.parentElement;
       }
+      return "/" + parts.join("/");
+    }
 
-      /**
-       * Finds label text associated with a form control.
-       *
-       * @remarks
-       * Supports both:
-       * - `<label for="...">` associations
-       * - wrapped label patterns
-       *
-       * @param el - Form control element.
-       * @returns Normalized label text or `undefined` if not found.
-       */
-      function findAssociatedLabelText(el: Element): string | undefined {
-        const e = el as HTMLElement;
-        const id = e.getAttribute("id");
-        if (id) {
-          const lbl = document.querySelector(`label[for="${CSS.escape(id)}"]`);
-          const t = lbl?.textContent?.trim();
-          if (t) return t.replace(/\s+/g, " ").slice(0, 200);
-        }
-        // wrapped label
-        const parentLabel = e.closest("label");
-        const t2 = parentLabel?.textContent?.trim();
-        if (t2) return t2.replace(/\s+/g, " ").slice(0, 200);
-        return undefined;
+    /**
+     * Finds label text associated with a form control.
+     *
+     * @remarks
+     * Supports both:
+     * - `<label for="...">` associations
+     * - wrapped label patterns
+     *
+     * @param el - Form control element.
+     * @returns Normalized label text or `undefined` if not found.
+     */
+    function findAssociatedLabelText(el: Element): string | undefined {
+      const e = el as HTMLElement;
+      const id = e.getAttribute("id");
+      if (id) {
+        // Labels only associate within the same document or shadow root
+        const root = e.getRootNode() as Document | ShadowRoot;
+        const lbl  = root.querySelector(`label[for="${CSS.escape(id)}"]`);
+        const t = lbl?.textContent?.trim();
+        if (t) return t.replace(/\s+/g, " ").slice(0, 200);
       }
+      // wrapped label
+      const parentLabel = e.closest("label");
+      const t2 = parentLabel?.textContent?.trim();
+      if (t2) return t2.replace(/\s+/g, " ").slice(0, 200);
+      return undefined;
+    }
 
-      /**
-       * Computes a best-effort accessible name for an element.
-       *
-       * @remarks
-       * Naming priority:
-       * 1. `aria-label`
-       * 2. Associated label text
-       * 3. `value` attribute for input buttons
-       * 4. `alt` attribute
-       * 5. Visible text content
-       *
-       * This is an approximation intended for automation discovery, not a full
-       * accessibility tree implementation.
-       *
-       * @param el - DOM element to evaluate.
-       * @returns Best-effort accessible name or `undefined`.
-       */
-      function accessibleName(el: Element): string | undefined {
-        const e   = el as HTMLElement;
-        const tag = e.tagName.toLowerCase();
-
-        // best-effort accessible name approximation:
-        const aria = e.getAttribute("aria-label");
-        if (aria) return aria;
-
-        const label = findAssociatedLabelText(e);
-        if (label) return label;
-
-        // For input buttons, "value" is often the visible label
-        if (tag === "input") {
-          const t = (e.getAttribute("type") || "text").toLowerCase();
-          if (t === "submit" || t === "button" || t === "reset") {
-            const v = e.getAttribute("value");
-            if (v) return v;
-          }
+    /**
+     * Computes a best-effort accessible name for an element.
+     *
+     * @remarks
+     * Naming priority:
+     * 1. `aria-label`
+     * 2. Associated label text
+     * 3. `value` attribute for input buttons
+     * 4. `alt` attribute
+     * 5. Visible text content
+     *
+     * This is an approximation intended for automation discovery, not a full
+     * accessibility tree implementation (see the `accessibilityTree` option).
+     *
+     * @param el - DOM element to evaluate.
+     * @returns Best-effort accessible name and its source, or an empty object.
+     */
+    function accessibleName(el: Element): { name?: string; source?: ReconNameSource } {
+      const e   = el as HTMLElement;
+      const tag = e.tagName.toLowerCase();
+
+      // best-effort accessible name approximation:
+      const aria = e.getAttribute("aria-label");
+      if (aria) return { name: aria, source: "aria-label" };
+
+      const label = findAssociatedLabelText(e);
+      if (label) return { name: label, source: "label" };
+
+      // For input buttons, "value" is often the visible label
+      if (tag === "input") {
+        const t = (e.getAttribute("type") || "text").toLowerCase();
+        if (t === "submit" || t === "button" || t === "reset") {
+          const v = e.getAttribute("value");
+          if (v) return { name: v, source: "value" };
         }
+      }
+
+      const alt = e.getAttribute("alt");
+      if (alt) return { name: alt, source: "alt" };
+
+      const text = getText(e);
+      return text ? { name: text, source: "contents" } : {};
+    }
+
+    /**
+     * Describes the `<form>` owning a control.
+     *
+     * @remarks
+     * Uses the control's `form` property, so `form="..."` associations outside
+     * the form element are honoured. Attributes are read with `getAttribute()`
+     * because form properties can be shadowed by controls named `action` etc.
+     *
+     * @param el - Control element.
+     * @returns Form reference, or `undefined` if the control has no form.
+     */
+    function formRef(el: Element): ReconFormRef | undefined {
+      const form = (el as any).form as HTMLFormElement | null | undefined;
+      if (!form) return undefined;
+
+      const root   = form.getRootNode() as Document | ShadowRoot;
+      const action = form.getAttribute("action");
+
+      return {
+        index: Array.from(root.querySelectorAll("form")).indexOf(form),
+        id: form.getAttribute("id") || undefined,
+        name: form.getAttribute("name") || undefined,
+        action: action ? new URL(action, document.baseURI).href : undefined,
+        method: (form.getAttribute("method") || "get").toLowerCase(),
+      };
+    }
+
+    /**
+     * Reads the validation constraints declared on a form control.
+     *
+     * @param el - Input, select or textarea element.
+     * @returns Declared constraints, or `undefined` if there are none.
+     */
+    function fieldConstraints(el: Element): ReconFieldConstraints | undefined {
+      const attr = (n: string) => el.getAttribute(n) || undefined;
+      const num  = (n: string) => {
+        const v = el.getAttribute(n);
+        return v !== null && v.trim() !== "" && !Number.isNaN(Number(v)) ? Number(v) : undefined;
+      };
+
+      const constraints: ReconFieldConstraints = {
+        required: el.hasAttribute("required") || el.getAttribute("aria-required") === "true" || undefined,
+        pattern: attr("pattern"),
+        min: attr("min"),
+        max: attr("max"),
+        step: attr("step"),
+        minLength: num("minlength"),
+        maxLength: num("maxlength"),
+        autocomplete: attr("autocomplete"),
+      };
+
+      return Object.values(constraints).some((v) => v !== undefined) ? constraints : undefined;
+    }
 
-        const alt = e.getAttribute("alt");
-        if (alt) return alt;
+    /**
+     * Lists the options of a select control (capped at 100).
+     *
+     * @param el - Select element.
+     * @returns Option values and labels.
+     */
+    function selectOptions(el: HTMLSelectElement): ReconSelectOption[] {
+      return Array.from(el.options)
+        .slice(0, 100)
+        .map((o) => ({
+          value: o.value,
+          label: o.label.trim().replace(/\s+/g, " "),
+          selected: o.selected || undefined,
+          disabled: o.disabled || undefined,
+        }));
+    }
 
-        return getText(e);
+    /**
+     * Returns an element's parent, stepping out of shadow roots to their host.
+     *
+     * @param el - DOM element.
+     * @returns The parent or shadow host, or `null` at the top of the document.
+     */
+    function parentOrHost(el: Element): Element | null {
+      return el.parentElement ?? ((el.getRootNode() as ShadowRoot).host || null);
+    }
+
+    /**
+     * Lists the selectors of the shadow hosts enclosing an element.
+     *
+     * @param el - DOM element.
+     * @returns Host selectors, outermost first (empty outside shadow DOM).
+     */
+    function hostChain(el: Element): string[] {
+      const hosts: string[] = [];
+      for (let host = (el.getRootNode() as ShadowRoot).host; host; host = (host.getRootNode() as ShadowRoot).host) {
+        hosts.unshift(bestCss(host));
       }
+      return hosts;
+    }
 
-      const all = Array.from(document.querySelectorAll("*")).filter(isCandidate);
-
-      // De-dupe: if our selection returns massive set via "*" candidate logic,
-      // keep it manageable by filtering out containers with no useful signals.
-      const filtered = all.filter((el) => {
-        const e   = el as HTMLElement;
-        const tag = e.tagName.toLowerCase();
-        if (tag === "div" || tag === "span") {
-          const role = e.getAttribute("role");
-          const tabindex = e.getAttribute("tabindex");
-          const hasClickHandler = typeof (e as any).onclick === "function" || e.getAttribute("onclick") !== null;
-          return Boolean(role || tabindex || hasClickHandler);
-        }
-        return true;
-      });
+    /**
+     * Classifies an element as a landmark or container.
+     *
+     * @remarks
+     * Explicit landmark roles win over tags; `section` elements and
+     * `role=region` only count when they are named.
+     *
+     * @param el - DOM element.
+     * @returns Region kind and landmark role, or `undefined`.
+     */
+    function landmarkOf(el: Element): { kind: ReconRegionKind; role: string } | undefined {
+      const role  = (el.getAttribute("role") || "").toLowerCase();
+      const named = el.hasAttribute("aria-label") || el.hasAttribute("aria-labelledby");
 
-      return filtered.map((el) => {
-        const e        = el as HTMLElement;
-        const tag      = e.tagName.toLowerCase();
-        const role     = e.getAttribute("role") || undefined;
-        const typeAttr = tag === "input" ? (e.getAttribute("type") || "text") : undefined;
+      const byRole: Record<string, ReconRegionKind> = {
+        banner: "header",
+        navigation: "nav",
+        main: "main",
+        contentinfo: "footer",
+        complementary: "aside",
+        form: "form",
+        dialog: "dialog",
+        alertdialog: "dialog",
+      };
+      if (byRole[role]) return { kind: byRole[role], role };
+      if (role === "region") return named ? { kind: "region", role } : undefined;
+      if (role) return undefined;
 
-        const { disabled, ariaDisabled } = isDisabled(e);
+      switch (el.tagName.toLowerCase()) {
+        case "header": return { kind: "header", role: "banner" };
+        case "nav": return { kind: "nav", role: "navigation" };
+        case "main": return { kind: "main", role: "main" };
+        case "footer": return { kind: "footer", role: "contentinfo" };
+        case "aside": return { kind: "aside", role: "complementary" };
+        case "form": return { kind: "form", role: "form" };
+        case "dialog": return { kind: "dialog", role: "dialog" };
+        case "section": return named ? { kind: "region", role: "region" } : undefined;
+        default: return undefined;
+      }
+    }
 
-        const testId =
-          e.getAttribute("data-testid")  ||
-          e.getAttribute("data-test")    ||
-          e.getAttribute("data-test-id") ||
-          undefined;
+    /**
+     * Computes a landmark's name from its ARIA labelling, or a heading for dialogs and regions.
+     *
+     * @param el - Landmark element.
+     * @param kind - Region kind.
+     * @returns The name, or `undefined`.
+     */
+    function landmarkName(el: Element, kind: ReconRegionKind): string | undefined {
+      const ariaLabel = el.getAttribute("aria-label")?.trim();
+      if (ariaLabel) return ariaLabel;
 
-        const href        = tag === "a" ? e.getAttribute("href") || undefined : undefined;
-        const placeholder = tag === "input" || tag === "textarea" ? e.getAttribute("placeholder") || undefined : undefined;
-        const value       = tag === "input" ? e.getAttribute("value") || undefined : undefined;
-        const labelText   = findAssociatedLabelText(e);
+      const labelledBy = el.getAttribute("aria-labelledby");
+      if (labelledBy) {
+        const root = el.getRootNode() as Document | ShadowRoot;
+        const text = labelledBy
+          .split(/\s+/)
+          .map((id) => root.getElementById?.(id)?.textContent?.trim() ?? "")
+          .join(" ")
+          .trim();
+        if (text) return text.replace(/\s+/g, " ").slice(0, 80);
+      }
 
+      if (kind === "dialog" || kind === "region") {
+        const heading = el.querySelector("h1, h2, h3, h4, h5, h6");
+        const text    = heading?.textContent?.trim().replace(/\s+/g, " ");
+        if (text) return text.slice(0, 80);
+      }
+      return undefined;
+    }
+
+    /**
+     * Finds the nearest landmark or container enclosing an element.
+     *
+     * @param el - DOM element.
+     * @returns The enclosing region, or `undefined`.
+     */
+    function regionOf(el: Element): ReconRegion | undefined {
+      for (let node = parentOrHost(el); node; node = parentOrHost(node)) {
+        const landmark = landmarkOf(node);
+        if (!landmark) continue;
+
+        const name  = landmarkName(node, landmark.kind);
+        const hosts = hostChain(node);
         return {
-          tag,
-          role,
-          typeAttr,
-          value,
-          text: getText(e),
-          id: e.getAttribute("id") || undefined,
-          name: e.getAttribute("name") || undefined,
-          href,
-          placeholder,
-          ariaLabel: e.getAttribute("aria-label") || undefined,
-          ariaDisabled,
-          disabled,
-          testId,
-          labelText,
-          accessibleName: accessibleName(e),
-          css: bestCss(e),
-          xpath: xpathFor(e),
+          kind: landmark.kind,
+          name,
+          // Unnamed landmarks are located by CSS (e.g. a <header> role depends on its ancestors)
+          role: name ? landmark.role : undefined,
+          css: [...hosts, bestCss(node)].join(" >> "),
         };
-      });
+      }
+      return undefined;
+    }
+
+    /**
+     * Lists an element's classes that look hand-written rather than generated.
+     *
+     * @param el - DOM element.
+     * @returns Up to three classes, sorted.
+     */
+    function stableClasses(el: Element): string[] {
+      return Array.from(el.classList)
+        .filter((c) => /^[a-z_-][a-z0-9_-]*$/i.test(c) && !/[0-9]{2,}|^(css|sc|jsx|emotion|svelte)-/i.test(c))
+        .sort()
+        .slice(0, 3);
+    }
+
+    /**
+     * Describes an element's shape: its tag plus stable classes, as a CSS selector.
+     *
+     * @param el - DOM element.
+     * @returns E.g. `li.product.card`.
+     */
+    function shapeOf(el: Element): string {
+      return el.tagName.toLowerCase() + stableClasses(el).map((c) => `.${cssEscape(c)}`).join("");
+    }
+
+    /**
+     * Selects an element by a distinctive attribute (test id, id, aria-label), if it has one.
+     *
+     * @remarks
+     * Unlike `bestCss`, this returns a single selector that can be composed.
+     *
+     * @param el - DOM element.
+     * @returns A selector, or `undefined`.
+     */
+    function anchorCss(el: Element): string | undefined {
+      for (const attr of testIdAttributes) {
+        const v = el.getAttribute(attr);
+        if (v) return `[${attr}="${cssEscape(v)}"]`;
+      }
+      const id = el.getAttribute("id");
+      if (id) return `#${cssEscape(id)}`;
+      const label = el.getAttribute("aria-label");
+      if (label) return `${el.tagName.toLowerCase()}[aria-label="${cssEscape(label)}"]`;
+      return undefined;
+    }
+
+    /**
+     * Builds a selector for a collection's container, anchored to the nearest
+     * distinctive ancestor (up to four levels up) when it has no anchor itself.
+     *
+     * @param container - Parent of the repeated items.
+     * @returns A CSS selector.
+     */
+    function containerCss(container: Element): string {
+      const own = anchorCss(container);
+      if (own) return own;
+
+      let ancestor = container.parentElement;
+      for (let depth = 0; ancestor && depth < 4; depth++, ancestor = ancestor.parentElement) {
+        const anchor = anchorCss(ancestor);
+        if (anchor) return `${anchor} ${shapeOf(container)}`;
+      }
+      return shapeOf(container);
+    }
+
+    /**
+     * Builds the CSS path from a repeated item down to one of its descendants.
+     *
+     * @remarks
+     * Steps use the element shape, plus `:nth-of-type()` where same-tag
+     * siblings would make the step ambiguous.
+     *
+     * @param item - Repeated item.
+     * @param el - The item or one of its descendants.
+     * @returns `""` for the item itself, or `undefined` if the path crosses a shadow boundary.
+     */
+    function childCss(item: Element, el: Element): string | undefined {
+      const steps: string[] = [];
+      for (let node: Element = el; node !== item; ) {
+        const parent = node.parentElement;
+        if (!parent) return undefined;
+
+        const sameTag = Array.from(parent.children).filter((c) => c.tagName === node.tagName);
+        steps.unshift(sameTag.length > 1 ? `${shapeOf(node)}:nth-of-type(${sameTag.indexOf(node) + 1})` : shapeOf(node));
+        node = parent;
+      }
+      return steps.join(" > ");
+    }
+
+    /**
+     * Finds the repeated item (list item, table row, card) enclosing an element.
+     *
+     * @remarks
+     * Walks up to eight levels (stopping at the nearest landmark) looking for
+     * ancestors whose parent has other children of the same shape. When several
+     * levels repeat (e.g. two buttons inside each of forty cards), the level with
+     * the most items wins, ties going to the outer level.
+     *
+     * @param el - DOM element.
+     * @returns Item position and selectors, or `undefined` if nothing repeats.
+     */
+    function rowOf(el: Element): ReconRow | undefined {
+      let best: { item: Element; siblings: Element[] } | undefined;
+
+      let node: Element | null = el;
+      for (let depth = 0; node && depth < 8; depth++, node = node.parentElement) {
+        if (node !== el && landmarkOf(node)) break;
+        const parent = node.parentElement;
+        if (!parent || parent === document.body) break;
+
+        const shape    = shapeOf(node);
+        const siblings = Array.from(parent.children).filter((c) => shapeOf(c) === shape);
+        if (siblings.length >= 2 && (!best || siblings.length >= best.siblings.length)) best = { item: node, siblings };
+      }
+      if (!best) return undefined;
+
+      const { item, siblings } = best;
+      const container = item.parentElement!;
+      const tag       = item.tagName.toLowerCase();
+      const role      = item.getAttribute("role");
+      const hosts     = hostChain(container);
+
+      return {
+        kind: tag === "li" || role === "listitem" ? "listitem" : tag === "tr" || role === "row" ? "row" : "item",
+        index: siblings.indexOf(item),
+        count: siblings.length,
+        key: [...hosts, xpathFor(container)].join(" >> "),
+        name:
+          container.getAttribute("aria-label") ||
+          testIdOf(container) ||
+          container.getAttribute("id") ||
+          stableClasses(container)[0] ||
+          undefined,
+        itemCss: [...hosts, `${containerCss(container)} > ${shapeOf(item)}`].join(" >> "),
+        childCss: childCss(item, el),
+      };
+    }
+
+    /**
+     * Collects every element in a root, descending into open shadow roots.
+     *
+     * @remarks
+     * Shadow content is listed directly after its host. Each entry carries the
+     * CSS selectors of its enclosing shadow hosts (outermost first).
+     *
+     * @param root - Document or shadow root to walk.
+     * @param hosts - Selectors of the shadow hosts enclosing `root`.
+     * @param out - Accumulator.
+     * @returns The accumulator.
+     */
+    function collectElements(
+      root: Document | ShadowRoot,
+      hosts: string[],
+      out: { el: Element; hosts: string[] }[]
+    ): { el: Element; hosts: string[] }[] {
+      for (const el of Array.from(root.querySelectorAll("*"))) {
+        out.push({ el, hosts });
+        const shadow = (el as HTMLElement).shadowRoot;
+        if (shadow) collectElements(shadow, [...hosts, bestCss(el)], out);
+      }
+      return out;
+    }
+
+    const all = collectElements(document, [], []).filter(({ el }) => isCandidate(el));
+
+    // De-dupe: if our selection returns massive set via "*" candidate logic,
+    // keep it manageable by filtering out containers with no useful signals.
+    const filtered = all.filter(({ el }) => {
+      const e   = el as HTMLElement;
+      const tag = e.tagName.toLowerCase();
+      if ((tag === "div" || tag === "span") && !matchesAny(e, includeSelectors)) {
+        const role = e.getAttribute("role");
+        const tabindex = e.getAttribute("tabindex");
+        return Boolean(role || tabindex || hasClickHandler(e) || listenerTypesOf(e));
+      }
+      return true;
     });
 
-    // Convert RawEl[] → ReconElement[]
-    const elements: ReconElement[] = rawElements.map((r) => ({
-      type: normalizeType(r),
-      tagName: r.tag,
-      typeAttr: r.typeAttr,
-      value: r.value,
-      text: r.text,
-      id: r.id,
-      name: r.name,
-      href: r.tag === "a" ? r.href : undefined,
-      ariaLabel: r.ariaLabel,
-      placeholder: r.placeholder,
-      css: r.css,
-      xpath: r.xpath,
-      role: r.role,
-      testId: r.testId,
-      accessibleName: r.accessibleName,
-      labelText: r.labelText,
-    }));
-
-    const counts = elements.reduce((acc, e) => {
-      acc[e.type] = (acc[e.type] ?? 0) + 1;
-      return acc;
-    }, {} as Record<ReconElementType, number>);
-
-    // Ensure all keys exist
-    const allTypes: ReconElementType[]  = ["button", "link", "input", "select", "textarea", "other"];
-    for (const t of allTypes) counts[t] = counts[t] ?? 0;
-
-    return {
-      url,
-      scannedAt: new Date().toISOString(),
-      counts,
-      elements,
-    };
+    return filtered.map(({ el, hosts }, i) => {
+      const e        = el as HTMLElement;
+      const tag      = e.tagName.toLowerCase();
+      const role     = e.getAttribute("role") || undefined;
+      const typeAttr =
+        tag === "input" ? (e.getAttribute("type") || "text").toLowerCase() :
+        tag === "button" ? (e.getAttribute("type") || "submit").toLowerCase() :
+        undefined;
+      const isField  = tag === "input" || tag === "select" || tag === "textarea";
+
+      const { disabled, ariaDisabled } = isDisabled(e);
+
+      const testId = testIdOf(e);
+
+      const href        = tag === "a" ? e.getAttribute("href") || undefined : undefined;
+      const placeholder = tag === "input" || tag === "textarea" ? e.getAttribute("placeholder") || undefined : undefined;
+      const value       = tag === "input" ? e.getAttribute("value") || undefined : undefined;
+      const labelText   = findAssociatedLabelText(e);
+      const computed    = accessibleName(e);
+      const tabindex    = e.getAttribute("tabindex");
+      const checkable   = typeAttr === "checkbox" || typeAttr === "radio" || role === "checkbox" || role === "radio" || role === "switch";
+      const tabIndex    = tabindex !== null && tabindex.trim() !== "" && !Number.isNaN(Number(tabindex)) ? Number(tabindex) : undefined;
+      const domId       = e.getAttribute("id");
+      // Counted over the whole document or shadow root, not just the scanned candidates
+      const idCount     = domId ? (e.getRootNode() as Document | ShadowRoot).querySelectorAll(`[id="${CSS.escape(domId)}"]`).length : 0;
+
+      // Tag the element so its accessibility node can be found over CDP
+      const axKey = axPrefix !== undefined ? `${axPrefix}-${i}` : undefined;
+      if (axKey) e.setAttribute(axAttribute, axKey);
+
+      return {
+        tag,
+        role,
+        typeAttr,
+        value,
+        checked: checkable ? (e as HTMLInputElement).checked === true || e.getAttribute("aria-checked") === "true" : undefined,
+        text: getText(e),
+        id: domId || undefined,
+        idCount: idCount > 1 ? idCount : undefined,
+        name: e.getAttribute("name") || undefined,
+        href,
+        placeholder,
+        ariaLabel: e.getAttribute("aria-label") || undefined,
+        ariaDisabled,
+        disabled,
+        testId,
+        tabIndex,
+        clickHandler: hasClickHandler(e) || undefined,
+        eventListeners: listenerTypesOf(e),
+        form: formRef(e),
+        region: regionOf(e),
+        row: rowOf(e),
+        trigger: triggerOf(e),
+        constraints: isField ? fieldConstraints(e) : undefined,
+        options: tag === "select" ? selectOptions(e as HTMLSelectElement) : undefined,
+        labelText,
+        accessibleName: computed.name,
+        nameSource: computed.source,
+        axKey,
+        css: hosts.length ? [...hosts, bestCss(e)].join(" >> ") : bestCss(e),
+        xpath: hosts.length ? undefined : xpathFor(e),
+        shadowHosts: hosts.length ? hosts : undefined,
+        rect: (({ x, y, width, height }) => ({ x, y, width, height }))(e.getBoundingClientRect()),
+      };
+    });
+  };
+
+  // Walks every frame; frames that detach or refuse evaluation are skipped
+  const extractFrames = async (markers: boolean): Promise<RawEl[]> => {
+    const out: RawEl[] = [];
+    for (const [frameIndex, frame] of page.frames().entries()) {
+      const framePath = await framePathFor(frame);
+      if (!framePath) continue;
+
+      try {
+        const raws   = await frame.evaluate(extractRawElements, {
+          axPrefix: markers && options.accessibilityTree ? String(frameIndex) : undefined,
+          axAttribute: AX_MARKER_ATTRIBUTE,
+          listenerAttribute: markers && options.eventListeners ? LISTENER_MARKER_ATTRIBUTE : undefined,
+          testIdAttributes,
+          includeSelectors: [...(options.includeSelectors ?? []), ...rules.candidateSelectors],
+          excludeSelectors: options.excludeSelectors ?? [],
+        });
+        const offset = await frameOffset(page, frame);
+        for (const r of raws) {
+          out.push({
+            ...r,
+            framePath: framePath.length ? framePath : undefined,
+            rect: r.rect && offset ? { ...r.rect, x: r.rect.x + offset.x, y: r.rect.y + offset.y } : undefined,
+          });
+        }
+      } catch {
+        continue;
+      }
+    }
+    return out;
+  };
+
+  // Convert RawEl → ReconElement; computed roles/names win where the tree has the element
+  const toElement = (r: RawEl, ax?: AxInfo): ReconElement => ({
+    type: normalizeType(r, rules.tagTypes),
+    tagName: r.tag,
+    typeAttr: r.typeAttr,
+    value: r.value,
+    checked: r.checked,
+    text: r.text,
+    id: r.id,
+    idCount: r.idCount,
+    name: r.name,
+    href: r.tag === "a" ? r.href : undefined,
+    ariaLabel: r.ariaLabel,
+    placeholder: r.placeholder,
+    disabled: r.disabled || undefined,
+    ariaDisabled: r.ariaDisabled || undefined,
+    tabIndex: r.tabIndex,
+    clickHandler: r.clickHandler,
+    eventListeners: r.eventListeners,
+    form: r.form,
+    region: r.region,
+    row: r.row,
+    trigger: options.explore ? r.trigger : undefined,
+    constraints: r.constraints,
+    options: r.options,
+    css: r.css,
+    xpath: r.xpath,
+    role: ax?.role ?? r.role,
+    testId: r.testId,
+    accessibleName: ax ? ax.name : r.accessibleName,
+    nameSource: ax ? ax.nameSource : r.nameSource,
+    labelText: r.labelText,
+    framePath: r.framePath,
+    shadowHosts: r.shadowHosts,
+    boundingBox: r.rect && {
+      x: Math.round(r.rect.x),
+      y: Math.round(r.rect.y),
+      width: Math.round(r.rect.width),
+      height: Math.round(r.rect.height),
+    },
+  });
+
+  // Plugins, then every candidate locator validated against the live page; getByTestId() uses the primary attribute
+  const finish = async (mapped: ReconElement[]): Promise<ReconElement[]> => {
+    const processed = await processElements(plugins, mapped, { url, page });
+    selectors.setTestIdAttribute(testIdAttributes[0]);
+    for (const el of processed) {
+      el.locatorMatches = await countLocatorMatches(page, el);
+    }
+    return processed;
+  };
+
+  // Listener mode: tag elements with pointer/key listeners before extraction reads them
+  const clearListenerMarkers = options.eventListeners ? await markEventListeners(page) : undefined;
+
+  let rawElements: RawEl[];
+  try {
+    rawElements = await extractFrames(true);
+  } finally {
+    await clearListenerMarkers?.();
+  }
+
+  const axInfo   = options.accessibilityTree ? await readAccessibilityTree(page) : undefined;
+  const elements = await finish(rawElements.map((r) => toElement(r, r.axKey ? axInfo?.get(r.axKey) : undefined)));
+
+  // Exploration: revealed elements use heuristic names and onclick detection only
+  const exploration = options.explore
+    ? await exploreStates(
+        page,
+        elements,
+        async () => finish((await extractFrames(false)).map((r) => toElement(r))),
+        async () => {
+          await page.goto(url, { waitUntil: wait.waitUntil });
+          await settlePage(page, wait, 0);
+        }
+      )
+    : undefined;
+  if (exploration) elements.push(...exploration.revealed);
+
+  const counts = elements.reduce((acc, e) => {
+    acc[e.type] = (acc[e.type] ?? 0) + 1;
+    return acc;
+  }, {} as Record<ReconElementType, number>);
+
+  // Ensure all keys exist
+  const allTypes: ReconElementType[]  = ["button", "link", "input", "select", "textarea", "other"];
+  for (const t of allTypes) counts[t] = counts[t] ?? 0;
+
+  return {
+    url,
+    finalUrl: page.url() !== url ? page.url() : undefined,
+    scannedAt: new Date().toISOString(),
+    wait: waitInfo,
+    nameComputation: options.accessibilityTree ? "accessibility-tree" : "heuristic",
+    listenerDetection: options.eventListeners ? "cdp" : "onclick",
+    plugins: plugins.length ? plugins.map((p) => p.name) : undefined,
+    exploration: exploration?.info,
+    counts,
+    elements,
+    findings: auditElements(elements),
+  };
+}
+
+/**
+ * Scans a URL and returns a {@link ReconReport} of discovered interactable elements.
+ *
+ * @remarks
+ * Launches a dedicated Chromium instance for the scan and closes it afterwards.
+ * The browser context is prepared from `options.session` first, so pages behind
+ * a login can be scanned; the resulting storage state is saved after the scan
+ * when requested. Screenshots are captured before the browser closes.
+ *
+ * @param url - Target page URL (http/https).
+ * @param options - Scan options.
+ * @returns A recon report containing the scanned elements and aggregate counts.
+ */
+export async function scanUrl(url: string, options: ScanOptions): Promise<ReconReport> {
+  const browser = await chromium.launch({ headless: !options.headed });
+
+  try {
+    const context = await createSessionContext(browser, url, options.session, options.browser);
+    const page    = await context.newPage();
+    const report  = await scanPage(page, url, options);
+
+    if (options.screenshot) await captureScreenshots(page, report, options.screenshot);
+
+    await saveSessionState(context, options.session);
+    return report;
   } finally {
     await browser.close();
   }
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview
+ * Annotated screenshots for recon scans.
+ *
+ * @remarks
+ * After a scan, this module can save a full-page screenshot with a numbered
+ * overlay box for every element (numbers match indexes in `report.elements`),
+ * and optionally one cropped image per element. Image paths are recorded on the
+ * report relative to the report's output directory.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { Page } from "@playwright/test";
+import type { ReconBoundingBox, ReconReport } from "../reporting/types";
+
+/**
+ * Options controlling screenshot capture.
+ */
+export type ScreenshotOptions = {
+  // Directory the report is written to; image paths are recorded relative to it
+  outputDir: string;
+  // Base name for images (e.g. the report filename without extension)
+  name: string;
+  // Also save one cropped image per element
+  crops: boolean;
+};
+
+/**
+ * Id of the overlay container injected into the page.
+ */
+const OVERLAY_ID = "__recon-overlay";
+
+/**
+ * Injects numbered overlay boxes into the page.
+ *
+ * @param page - Page to annotate.
+ * @param boxes - Element indexes and full-page boxes.
+ */
+async function addOverlay(page: Page, boxes: { index: number; box: ReconBoundingBox }[]): Promise<void> {
+  await page.evaluate(
+    ({ id, boxes }) => {
+      const root = document.createElement("div");
+      root.id = id;
+      root.style.cssText = "position:absolute;left:0;top:0;width:0;height:0;z-index:2147483647;pointer-events:none;";
+
+      for (const { index, box } of boxes) {
+        const frame = document.createElement("div");
+        frame.style.cssText =
+          `position:absolute;left:${box.x}px;top:${box.y}px;width:${box.width}px;height:${box.height}px;` +
+          "outline:2px solid #e8590c;box-sizing:border-box;";
+
+        const tag = document.createElement("span");
+        tag.textContent = String(index);
+        tag.style.cssText =
+          "position:absolute;left:-2px;top:-16px;padding:0 3px;font:bold 11px/14px sans-serif;" +
+          "color:#fff;background:#e8590c;";
+
+        frame.appendChild(tag);
+        root.appendChild(frame);
+      }
+
+      document.documentElement.appendChild(root);
+    },
+    { id: OVERLAY_ID, boxes }
+  );
+}
+
+/**
+ * Removes the overlay injected by {@link addOverlay}.
+ *
+ * @param page - Annotated page.
+ */
+async function removeOverlay(page: Page): Promise<void> {
+  await page.evaluate((id) => document.getElementById(id)?.remove(), OVERLAY_ID);
+}
+
+/**
+ * Captures screenshots for a scanned page and records their paths on the report.
+ *
+ * @remarks
+ * Crops are taken before the overlay is injected so they show the element as
+ * rendered. Elements without a bounding box are skipped.
+ *
+ * @param page - Page the report was scanned from (still open).
+ * @param report - Report to annotate (mutated).
+ * @param options - Screenshot options.
+ */
+export async function captureScreenshots(
+  page: Page,
+  report: ReconReport,
+  options: ScreenshotOptions
+): Promise<void> {
+  await fs.mkdir(options.outputDir, { recursive: true });
+
+  const boxes = report.elements
+    .map((el, index) => ({ index, box: el.boundingBox }))
+    .filter((b): b is { index: number; box: ReconBoundingBox } => Boolean(b.box && b.box.width && b.box.height));
+
+  if (options.crops) {
+    const cropDir = `${options.name}-crops`;
+    await fs.mkdir(path.join(options.outputDir, cropDir), { recursive: true });
+
+    for (const { index, box } of boxes) {
+      const rel = path.posix.join(cropDir, `${index}.png`);
+      try {
+        await page.screenshot({
+          path: path.join(options.outputDir, rel),
+          fullPage: true,
+          clip: { x: Math.max(0, box.x), y: Math.max(0, box.y), width: box.width, height: box.height },
+        });
+        report.elements[index].screenshotCrop = rel;
+      } catch {
+        // Boxes outside the rendered page cannot be clipped; skip them
+        continue;
+      }
+    }
+  }
+
+  const rel = `${options.name}.png`;
+  await addOverlay(page, boxes);
+  try {
+    await page.screenshot({ path: path.join(options.outputDir, rel), fullPage: true });
+    report.screenshot = rel;
+  } finally {
+    await removeOverlay(page);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview
+ * Browser session setup for authenticated scanning.
+ *
+ * @remarks
+ * Most screens worth scanning sit behind a login. This module prepares a
+ * Playwright {@link BrowserContext} before navigation by:
+ * - loading a saved Playwright `storageState` file
+ * - adding extra HTTP headers and cookies
+ * - running a small declarative login recipe (goto/fill/click/waitFor)
+ *
+ * The resulting storage state can be saved so later scans can skip the login.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { Browser, BrowserContext, Page } from "@playwright/test";
+import { parse as parseYaml } from "yaml";
+import { contextOptions, type BrowserSettings } from "./browser";
+
+/**
+ * A single normalized login recipe step.
+ */
+export type LoginStep =
+  | { action: "goto"; url: string }
+  | { action: "fill"; selector: string; value: string }
+  | { action: "click"; selector: string }
+  | { action: "waitFor"; selector?: string; url?: string };
+
+/**
+ * A cookie to add to the browser context.
+ *
+ * @remarks
+ * When `domain` is omitted, the cookie is scoped to the scanned URL.
+ */
+export type SessionCookie = {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+};
+
+/**
+ * Options describing how to prepare an authenticated browser session.
+ */
+export type SessionOptions = {
+  // Playwright storageState JSON to load into the context
+  storageState?: string;
+  headers?: Record<string, string>;
+  cookies?: SessionCookie[];
+  loginRecipe?: LoginStep[];
+  // Where to save the resulting storage state (after the scan)
+  saveStorageState?: string;
+};
+
+/**
+ * Replaces `${VAR}` references with environment variable values.
+ *
+ * @remarks
+ * Lets recipes reference credentials without committing them to disk.
+ *
+ * @param value - Raw recipe value.
+ * @returns The value with all references expanded.
+ * @throws If a referenced variable is not set.
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const v = process.env[name];
+    if (v === undefined) throw new Error(`Login recipe references unset environment variable: ${name}`);
+    return v;
+  });
+}
+
+/**
+ * Reads a required, non-empty string field from a raw recipe step.
+ *
+ * @param step - Raw step object.
+ * @param key - Field name.
+ * @param index - Step index (for error messages).
+ * @returns The field value.
+ */
+function requireString(step: Record<string, unknown>, key: string, index: number): string {
+  const v = step[key];
+  if (typeof v !== "string" || !v) {
+    throw new Error(`Login recipe step ${index + 1}: "${key}" must be a non-empty string`);
+  }
+  return v;
+}
+
+/**
+ * Validates and normalizes a parsed login recipe.
+ *
+ * @remarks
+ * Accepts either a bare list of steps or an object with a `steps` list. Each step
+ * names its action as the key holding the target:
+ *
+ * ```yaml
+ * steps:
+ *   - goto: https://app.example.com/login
+ *   - fill: "#email"
+ *     value: ${RECON_USER}
+ *   - click: "button[type=submit]"
+ *   - waitFor: "#dashboard"                           # selector
+ *   - waitFor: { url: "https://app.example.com/home" } # URL or glob
+ * ```
+ *
+ * @param data - Parsed JSON/YAML document.
+ * @returns Normalized login steps.
+ * @throws If the recipe is malformed.
+ */
+export function parseLoginRecipe(data: unknown): LoginStep[] {
+  const steps = Array.isArray(data) ? data : (data as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(steps)) throw new Error(`Login recipe must be a list of steps or { steps: [...] }`);
+
+  return steps.map((raw, index): LoginStep => {
+    if (!raw || typeof raw !== "object") {
+      throw new Error(`Login recipe step ${index + 1}: expected an object`);
+    }
+    const step = raw as Record<string, unknown>;
+
+    if ("goto" in step) return { action: "goto", url: requireString(step, "goto", index) };
+    if ("fill" in step) {
+      const selector = requireString(step, "fill", index);
+      // YAML reads unquoted values such as 1234 as numbers; "" is allowed to clear a field
+      if (!["string", "number", "boolean"].includes(typeof step.value)) {
+        throw new Error(`Login recipe step ${index + 1}: "fill" needs a "value"`);
+      }
+      return { action: "fill", selector, value: String(step.value) };
+    }
+    if ("click" in step) return { action: "click", selector: requireString(step, "click", index) };
+    if ("waitFor" in step) {
+      const target = step.waitFor;
+      if (typeof target === "string" && target) return { action: "waitFor", selector: target };
+      if (target && typeof target === "object") {
+        const t = target as Record<string, unknown>;
+        if (typeof t.selector === "string") return { action: "waitFor", selector: t.selector };
+        if (typeof t.url === "string") return { action: "waitFor", url: t.url };
+      }
+      throw new Error(`Login recipe step ${index + 1}: "waitFor" needs a selector or { url }`);
+    }
+
+    throw new Error(`Login recipe step ${index + 1}: expected one of goto, fill, click, waitFor`);
+  });
+}
+
+/**
+ * Loads a login recipe from a JSON or YAML file.
+ *
+ * @param filePath - Path to a `.json`, `.yaml` or `.yml` file.
+ * @returns Normalized login steps.
+ */
+export async function loadLoginRecipe(filePath: string): Promise<LoginStep[]> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  const ext = path.extname(filePath).toLowerCase();
+  const data = ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+  return parseLoginRecipe(data);
+}
+
+/**
+ * Runs login recipe steps against a page.
+ *
+ * @remarks
+ * `${VAR}` references in URLs and fill values are expanded from the environment
+ * at run time.
+ *
+ * @param page - Page to drive.
+ * @param steps - Normalized login steps.
+ */
+export async function runLoginRecipe(page: Page, steps: LoginStep[]): Promise<void> {
+  for (const step of steps) {
+    switch (step.action) {
+      case "goto":
+        await page.goto(expandEnv(step.url));
+        break;
+      case "fill":
+        await page.locator(step.selector).fill(expandEnv(step.value));
+        break;
+      case "click":
+        await page.locator(step.selector).click();
+        break;
+      case "waitFor":
+        if (step.selector) await page.locator(step.selector).first().waitFor();
+        if (step.url) await page.waitForURL(step.url);
+        break;
+    }
+  }
+}
+
+/**
+ * Creates a browser context prepared according to the session options.
+ *
+ * @remarks
+ * When a login recipe is provided, it runs in a throwaway page before this
+ * function returns, so the scan page starts with the authenticated cookies.
+ *
+ * @param browser - Launched browser.
+ * @param url - Target page URL (used to scope cookies without a domain).
+ * @param session - Session options (optional).
+ * @param settings - Viewport, locale, user agent and device emulation (optional).
+ * @returns A new browser context. The caller is responsible for closing it.
+ */
+export async function createSessionContext(
+  browser: Browser,
+  url: string,
+  session: SessionOptions = {},
+  settings: BrowserSettings = {}
+): Promise<BrowserContext> {
+  const context = await browser.newContext({
+    ...contextOptions(settings),
+    storageState: session.storageState,
+    extraHTTPHeaders: session.headers,
+  });
+
+  if (session.cookies?.length) {
+    await context.addCookies(
+      session.cookies.map((c) =>
+        c.domain
+          ? { name: c.name, value: c.value, domain: c.domain, path: c.path ?? "/" }
+          : { name: c.name, value: c.value, url }
+      )
+    );
+  }
+
+  if (session.loginRecipe?.length) {
+    const loginPage = await context.newPage();
+    try {
+      await runLoginRecipe(loginPage, session.loginRecipe);
+    } finally {
+      await loginPage.close();
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Saves the context's storage state if the session options request it.
+ *
+ * @param context - Browser context to persist.
+ * @param session - Session options (optional).
+ * @returns The written path, or `undefined` if nothing was saved.
+ */
+export async function saveSessionState(
+  context: BrowserContext,
+  session: SessionOptions = {}
+): Promise<string | undefined> {
+  if (!session.saveStorageState) return undefined;
+
+  await fs.mkdir(path.dirname(path.resolve(session.saveStorageState)), { recursive: true });
+  await context.storageState({ path: session.saveStorageState });
+  return session.saveStorageState;
+}
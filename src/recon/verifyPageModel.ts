@@ -0,0 +1,243 @@
+/**
+ * @fileoverview
+ * Verifies a page model's locator hints against a live page.
+ *
+ * @remarks
+ * A page model (and every page object generated from it) is only as good as
+ * its hints on the current build. Verification loads the page and resolves
+ * every hint of every element, recording how many nodes it matches and, for a
+ * unique match, whether the node is visible and enabled as the `flags`
+ * recorded at scan time say it should be.
+ *
+ * Each element gets a status:
+ * - `pass`: its primary hint (the one generators use) still passes
+ * - `degraded`: the primary hint fails but a later one passes, so
+ *   self-healing resolution (see `resolveElement`) would still find it
+ * - `fail`: no hint passes
+ */
+import { chromium, selectors, type FrameLocator, type Locator, type Page } from "@playwright/test";
+import { isUsableHint } from "../gen/playwrightLocators";
+import type { ElementModel, LocatorHint, PageModel } from "../model/pageModel";
+import { describeHint } from "../runtime/healingReport";
+import { hintLocator } from "../runtime/resolveElement";
+import type { BrowserSettings } from "./browser";
+import { DEFAULT_TEST_ID_ATTRIBUTES } from "./scanPage";
+import { createSessionContext, saveSessionState, type SessionOptions } from "./session";
+import { DEFAULT_WAIT, settlePage, type WaitOptions } from "./waitStrategy";
+
+/**
+ * Verification status of an element.
+ */
+export type ElementStatus = "pass" | "degraded" | "fail";
+
+/**
+ * Result of resolving one locator hint.
+ */
+export type HintCheck = {
+  hint: LocatorHint;
+  matches: number;
+  // State of the matched node (unique matches only)
+  visible?: boolean;
+  enabled?: boolean;
+  pass: boolean;
+  // Why the hint failed, e.g. "2 matches" or "disabled (recorded enabled)"
+  problem?: string;
+};
+
+/**
+ * Verification result for one element.
+ */
+export type ElementCheck = {
+  id: string;
+  name?: string;
+  kind: ElementModel["kind"];
+  status: ElementStatus;
+  hints: HintCheck[];
+};
+
+/**
+ * Result of verifying a page model against a live page.
+ */
+export type VerifyResult = {
+  url: string;
+  model: { url: string; scannedAt: string };
+  verifiedAt: string; // ISO date
+  summary: Record<ElementStatus, number>;
+  // No element failed
+  passed: boolean;
+  elements: ElementCheck[];
+};
+
+/**
+ * Options for {@link verifyUrl}.
+ */
+export type VerifyOptions = {
+  headed: boolean;
+  wait?: WaitOptions;
+  session?: SessionOptions;
+  browser?: BrowserSettings;
+  // Attribute test id hints resolve against; use the scan's primary attribute (defaults to data-testid)
+  testIdAttribute?: string;
+};
+
+/**
+ * Removes scan-time statistics from a hint.
+ *
+ * @param hint - Locator hint.
+ * @returns The hint without `matches` and `stability`.
+ */
+function bareHint(hint: LocatorHint): LocatorHint {
+  const { matches: _m, stability: _s, ...rest } = hint;
+  return rest as LocatorHint;
+}
+
+/**
+ * Resolves one hint and compares the matched node with the recorded flags.
+ *
+ * @remarks
+ * Elements recorded as `revealed` (exploration mode) are hidden at rest, so
+ * their visibility is reported but not required.
+ *
+ * @param locator - Locator built from the hint.
+ * @param hint - Locator hint.
+ * @param el - Element the hint belongs to.
+ * @returns The check.
+ */
+async function checkHint(locator: Locator, hint: LocatorHint, el: ElementModel): Promise<HintCheck> {
+  let matches: number;
+  try {
+    matches = await locator.count();
+  } catch (err) {
+    const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+    return { hint: bareHint(hint), matches: 0, pass: false, problem: `invalid: ${message}` };
+  }
+  if (matches !== 1) {
+    return { hint: bareHint(hint), matches, pass: false, problem: matches ? `${matches} matches` : "no match" };
+  }
+
+  const visible         = await locator.isVisible().catch(() => false);
+  const enabled         = await locator.isEnabled({ timeout: 1_000 }).catch(() => false);
+  const expectedEnabled = !(el.flags?.disabled || el.flags?.ariaDisabled);
+
+  let problem: string | undefined;
+  if (!visible && !el.flags?.revealed) problem = "hidden";
+  else if (enabled !== expectedEnabled) problem = enabled ? "enabled (recorded disabled)" : "disabled (recorded enabled)";
+
+  return { hint: bareHint(hint), matches, visible, enabled, pass: !problem, problem };
+}
+
+/**
+ * Derives an element's status from its hint checks.
+ *
+ * @param el - Page model element.
+ * @param hints - Checks in the order of `el.locators`.
+ * @returns `pass` if the primary usable hint passes, `degraded` if another usable one does, else `fail`.
+ */
+export function elementStatus(el: ElementModel, hints: HintCheck[]): ElementStatus {
+  const usable = hints.filter((_, i) => isUsableHint(el.locators[i]));
+  if (usable[0]?.pass) return "pass";
+  return usable.some((h) => h.pass) ? "degraded" : "fail";
+}
+
+/**
+ * Verifies every element of a page model on a page that is already loaded.
+ *
+ * @param page - Page showing the current build.
+ * @param model - Page model to verify.
+ * @returns The verification result.
+ */
+export async function verifyPageModel(page: Page, model: PageModel): Promise<VerifyResult> {
+  const elements: ElementCheck[] = [];
+
+  for (const el of model.elements) {
+    const root = (el.frames ?? []).reduce<Page | FrameLocator>((r, f) => r.frameLocator(f), page);
+
+    const hints: HintCheck[] = [];
+    for (const hint of el.locators) hints.push(await checkHint(hintLocator(root, hint), hint, el));
+
+    elements.push({ id: el.id, name: el.name, kind: el.kind, status: elementStatus(el, hints), hints });
+  }
+
+  const summary: Record<ElementStatus, number> = { pass: 0, degraded: 0, fail: 0 };
+  for (const el of elements) summary[el.status]++;
+
+  return {
+    url: page.url(),
+    model: { url: model.url, scannedAt: model.scannedAt },
+    verifiedAt: new Date().toISOString(),
+    summary,
+    passed: summary.fail === 0,
+    elements,
+  };
+}
+
+/**
+ * Loads a URL in a fresh browser and verifies a page model against it.
+ *
+ * @remarks
+ * The browser context is prepared like a scan's (session, viewport, device),
+ * so pages behind a login can be verified; the resulting storage state is
+ * saved afterwards when requested. Test id hints resolve against
+ * `options.testIdAttribute`, which must be the primary attribute the page was
+ * scanned with.
+ *
+ * @param url - Page URL (usually the model's own URL).
+ * @param model - Page model to verify.
+ * @param options - Browser, session and wait options.
+ * @returns The verification result.
+ */
+export async function verifyUrl(url: string, model: PageModel, options: VerifyOptions): Promise<VerifyResult> {
+  const wait    = options.wait ?? DEFAULT_WAIT;
+  const browser = await chromium.launch({ headless: !options.headed });
+  selectors.setTestIdAttribute(options.testIdAttribute ?? DEFAULT_TEST_ID_ATTRIBUTES[0]);
+
+  try {
+    const context  = await createSessionContext(browser, url, options.session, options.browser);
+    const page     = await context.newPage();
+    const navStart = Date.now();
+    await page.goto(url, { waitUntil: wait.waitUntil });
+    await settlePage(page, wait, Date.now() - navStart);
+
+    const result = await verifyPageModel(page, model);
+    await saveSessionState(context, options.session);
+    return result;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Formats a verification result as a pass/fail table.
+ *
+ * @remarks
+ * One row per hint; the element's status and name appear on its first row.
+ *
+ * @param result - Verification result.
+ * @returns Multi-line table text followed by a summary line.
+ */
+export function formatVerifyTable(result: VerifyResult): string {
+  const header = ["STATUS", "ELEMENT", "HINT", "MATCHES", "STATE", "RESULT"];
+  const rows: string[][] = [];
+
+  for (const el of result.elements) {
+    const label = `${el.kind} "${el.name ?? el.id}"`;
+    if (!el.hints.length) rows.push([el.status, label, "(no hints)", "", "", "fail"]);
+
+    el.hints.forEach((h, i) => {
+      const state = h.visible === undefined ? "" : `${h.visible ? "visible" : "hidden"}, ${h.enabled ? "enabled" : "disabled"}`;
+      rows.push([i ? "" : el.status, i ? "" : label, describeHint(h.hint), String(h.matches), state, h.pass ? "ok" : h.problem ?? "fail"]);
+    });
+  }
+
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map((r) => r[col].length)));
+  const line   = (cells: string[]) => `  ${cells.map((c, col) => c.padEnd(widths[col])).join("  ")}`.trimEnd();
+  const { pass, degraded, fail } = result.summary;
+
+  return [
+    `Verifying ${result.url} against the model scanned ${result.model.scannedAt}`,
+    line(header),
+    ...rows.map(line),
+    `  pass: ${pass}, degraded: ${degraded}, fail: ${fail}`,
+    result.passed ? "All elements resolved." : "Some elements no longer resolve.",
+  ].join("\n");
+}
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview
+ * Wait strategies applied between navigation and DOM extraction.
+ *
+ * @remarks
+ * Single-page apps often render most of their controls after the initial
+ * `domcontentloaded` event. These strategies let a scan wait for a load state,
+ * a selector, a fixed delay, and/or a "DOM stable" quiet period before the
+ * scanner evaluates the page. The strategy used and the time spent settling are
+ * recorded on the report so scans can be compared fairly.
+ */
+import type { Page } from "@playwright/test";
+import type { ReconWaitInfo } from "../reporting/types";
+
+/**
+ * Navigation load states supported by `page.goto`.
+ */
+export type WaitUntil = ReconWaitInfo["waitUntil"];
+
+/**
+ * Options controlling how long a scan waits before extraction.
+ */
+export type WaitOptions = {
+  waitUntil: WaitUntil;
+  // Wait for this selector to be attached before extraction
+  selector?: string;
+  // Fixed delay after navigation (ms)
+  delayMs?: number;
+  // Wait until the candidate element set is unchanged for this long (ms)
+  domStableMs?: number;
+  // Upper bound for the selector and DOM-stable waits (ms)
+  timeoutMs: number;
+};
+
+/**
+ * Default wait options (matches the scanner's historical behavior).
+ */
+export const DEFAULT_WAIT: WaitOptions = {
+  waitUntil: "domcontentloaded",
+  timeoutMs: 10_000,
+};
+
+/**
+ * Polling interval used by the DOM-stable strategy (ms).
+ */
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Selector approximating the scanner's candidate set.
+ *
+ * @remarks
+ * Used only to detect whether the page is still changing; it does not need to
+ * match the full candidate heuristic exactly.
+ */
+const CANDIDATE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "summary",
+  "[role]",
+  "[tabindex]",
+  "[onclick]",
+  '[contenteditable="true"]',
+].join(",");
+
+/**
+ * Waits until a sampled signature stops changing for a quiet period.
+ *
+ * @remarks
+ * The sampler is polled every {@link POLL_INTERVAL_MS}. The wait ends when the
+ * signature has been unchanged for `quietMs`, or when `timeoutMs` elapses. A
+ * sample that throws (e.g. "Execution context was destroyed" while a client-side
+ * redirect navigates) counts as a change, and polling goes on.
+ *
+ * @param sample - Produces a signature of the current page state.
+ * @param quietMs - Required quiet period (ms).
+ * @param timeoutMs - Maximum time to wait (ms).
+ * @returns `true` if the signature settled; `false` on timeout.
+ */
+export async function waitForStableSignature(
+  sample: () => Promise<string>,
+  quietMs: number,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  const trySample = () => sample().catch(() => undefined);
+  let last = await trySample();
+  let lastChange = Date.now();
+
+  while (Date.now() < deadline) {
+    if (last !== undefined && Date.now() - lastChange >= quietMs) return true;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const next = await trySample();
+    if (next === undefined || next !== last) {
+      last = next;
+      lastChange = Date.now();
+    }
+  }
+
+  return last !== undefined && Date.now() - lastChange >= quietMs;
+}
+
+/**
+ * Computes a cheap signature of the page's candidate elements.
+ *
+ * @param page - Page to sample.
+ * @returns A signature string that changes when candidates are added, removed or relabeled.
+ */
+function candidateSignature(page: Page): Promise<string> {
+  return page.evaluate((selector) => {
+    const els = Array.from(document.querySelectorAll(selector));
+    let hash = 0;
+    for (const el of els) {
+      const key = `${el.tagName}|${el.id}|${(el.textContent || "").slice(0, 40)}`;
+      for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+    return `${els.length}:${hash}`;
+  }, CANDIDATE_SELECTOR);
+}
+
+/**
+ * Applies the post-navigation wait strategies to a page.
+ *
+ * @remarks
+ * Strategies run in order: selector → fixed delay → DOM stable. A selector that
+ * never appears, or a DOM that never settles, does not fail the scan; the report
+ * records `timedOut` instead so the partial result can be judged accordingly.
+ *
+ * @param page - Page that has already been navigated.
+ * @param options - Wait options.
+ * @param navigationMs - Time `page.goto` took (ms), recorded alongside settle time.
+ * @returns Wait metadata to attach to the report.
+ */
+export async function settlePage(
+  page: Page,
+  options: WaitOptions,
+  navigationMs: number
+): Promise<ReconWaitInfo> {
+  const startedAt = Date.now();
+  let timedOut = false;
+
+  if (options.selector) {
+    try {
+      await page.locator(options.selector).first().waitFor({ state: "attached", timeout: options.timeoutMs });
+    } catch {
+      timedOut = true;
+    }
+  }
+
+  if (options.delayMs) await page.waitForTimeout(options.delayMs);
+
+  if (options.domStableMs) {
+    const settled = await waitForStableSignature(
+      () => candidateSignature(page),
+      options.domStableMs,
+      options.timeoutMs
+    );
+    if (!settled) timedOut = true;
+  }
+
+  return {
+    waitUntil: options.waitUntil,
+    selector: options.selector,
+    delayMs: options.delayMs,
+    domStableMs: options.domStableMs,
+    navigationMs,
+    settleMs: Date.now() - startedAt,
+    timedOut: timedOut || undefined,
+  };
+}
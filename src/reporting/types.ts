@@ -15,6 +15,160 @@
  */
 export type ReconElementType = "button" | "link" | "input" | "select" | "textarea" | "other";
 
+/**
+ * A rectangle in full-page CSS pixels (origin at the top-left of the main document).
+ */
+export type ReconBoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Where an element's accessible name came from.
+ *
+ * @remarks
+ * The heuristic scanner only reports `aria-label`, `label`, `value`, `alt` and
+ * `contents`; the accessibility-tree mode can report every source.
+ */
+export type ReconNameSource =
+  | "aria-labelledby"
+  | "aria-label"
+  | "label"
+  | "legend"
+  | "caption"
+  | "title"
+  | "placeholder"
+  | "alt"
+  | "value"
+  | "contents"
+  | "other";
+
+/**
+ * Event listener types recorded by the CDP listener mode.
+ */
+export type ReconListenerType = "click" | "mousedown" | "pointerdown" | "keydown";
+
+/**
+ * Locator strategies the scanner validates against the live page.
+ *
+ * @remarks
+ * These mirror the Page Model's `LocatorHint` strategies.
+ */
+export type ReconLocatorStrategy = "testId" | "role" | "label" | "placeholder" | "css" | "xpath";
+
+/**
+ * Kinds of landmark or container an element can sit in.
+ */
+export type ReconRegionKind = "header" | "nav" | "main" | "footer" | "aside" | "form" | "dialog" | "region";
+
+/**
+ * The nearest landmark or container enclosing an element.
+ *
+ * @remarks
+ * Found by walking up from the element (across shadow boundaries). `css`
+ * selects the container from the element's frame, `>>`-chained through
+ * shadow hosts like element selectors. `role` is the container's landmark
+ * role, set only when the container is named so a role locator can find it.
+ */
+export type ReconRegion = {
+  kind: ReconRegionKind;
+  name?: string;
+  role?: string;
+  css: string;
+};
+
+/**
+ * Position of an element within a repeated item (list item, table row, card).
+ *
+ * @remarks
+ * Only recorded when the item has siblings of the same shape (tag and stable
+ * classes). `index` is zero-based among those siblings.
+ *
+ * - `key` identifies the collection (its container) within the element's frame.
+ * - `name` is the container's label, test id, id or first class, if any.
+ * - `itemCss` matches every item of the collection.
+ * - `childCss` leads from the item to the element: `""` when the element is
+ *   the item itself, absent when the path crosses a shadow boundary.
+ */
+export type ReconRow = {
+  kind: "listitem" | "row" | "item";
+  index: number;
+  count: number;
+  key: string;
+  name?: string;
+  itemCss: string;
+  childCss?: string;
+};
+
+/**
+ * Identifies the `<form>` that owns a control.
+ *
+ * @remarks
+ * `index` is the form's position among the forms of its document or shadow
+ * root; together with the element's `framePath` and `shadowHosts` it identifies
+ * the form within a report. `action` is resolved to an absolute URL.
+ */
+export type ReconFormRef = {
+  index: number;
+  id?: string;
+  name?: string;
+  action?: string;
+  method?: string;
+};
+
+/**
+ * Validation constraints declared on a form control.
+ */
+export type ReconFieldConstraints = {
+  required?: boolean;
+  pattern?: string;
+  // kept as strings: they may be dates or times depending on the input type
+  min?: string;
+  max?: string;
+  step?: string;
+  minLength?: number;
+  maxLength?: number;
+  autocomplete?: string;
+};
+
+/**
+ * An `<option>` of a select control.
+ */
+export type ReconSelectOption = {
+  value: string;
+  label: string;
+  selected?: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * How an exploration trigger reveals hidden content.
+ *
+ * @remarks
+ * - `expand`: `aria-expanded="false"` (accordions, disclosure buttons, menus)
+ * - `popup`: `aria-haspopup` without `aria-expanded` state
+ * - `tab`: an unselected `role="tab"`
+ * - `details`: the `<summary>` of a closed `<details>`
+ */
+export type ReconTriggerKind = "expand" | "popup" | "tab" | "details";
+
+/**
+ * The trigger whose activation revealed an element (exploration mode).
+ *
+ * @remarks
+ * `css` and `framePath` locate the trigger like element selectors; `via` lists
+ * the triggers that had to be opened first (outermost first), for nested menus.
+ */
+export type ReconRevealedBy = {
+  kind: ReconTriggerKind;
+  css: string;
+  framePath?: string[];
+  name?: string;
+  via?: ReconRevealedBy[];
+};
+
 /**
  * Represents a scanned element and the metadata needed for automation scoping.
  *
@@ -29,24 +183,121 @@ export type ReconElement = {
   // identity / automation signals
   role?: string;
   accessibleName?: string;
+  nameSource?: ReconNameSource;
   labelText?: string;
   testId?: string;
 
   // attributes
   text?: string;
   id?: string;
+  // nodes sharing the id in the element's document or shadow root (set when more than one)
+  idCount?: number;
   name?: string;
   href?: string;
   placeholder?: string;
   ariaLabel?: string;
   disabled?: boolean;
   ariaDisabled?: boolean;
+  // `type` attribute of inputs and buttons (buttons default to "submit")
   typeAttr?: string;
   value?: string;
+  checked?: boolean;
+  tabIndex?: number;
+  // has an `onclick` handler (property or attribute), or a click/mousedown/pointerdown listener
+  clickHandler?: boolean;
+  // listener types registered on the element (listener mode only)
+  eventListeners?: ReconListenerType[];
+
+  // form structure: owning form, declared constraints and select options
+  form?: ReconFormRef;
+  constraints?: ReconFieldConstraints;
+  options?: ReconSelectOption[];
+
+  // nearest landmark/container and repeated row
+  region?: ReconRegion;
+  row?: ReconRow;
+
+  // exploration mode: hidden content this element reveals, and the trigger that revealed it
+  trigger?: ReconTriggerKind;
+  revealedBy?: ReconRevealedBy;
 
   // selector hints
   css?: string;
   xpath?: string;
+
+  // location: enclosing iframe selectors and open shadow hosts (outermost first)
+  framePath?: string[];
+  shadowHosts?: string[];
+
+  // number of nodes each locator strategy matched on the live page
+  locatorMatches?: Partial<Record<ReconLocatorStrategy, number>>;
+
+  // visual reference: position on the full-page screenshot and optional crop image
+  boundingBox?: ReconBoundingBox;
+  screenshotCrop?: string;
+};
+
+/**
+ * Records how a scan waited for the page before extracting elements.
+ *
+ * @remarks
+ * Scans taken with different strategies can differ substantially on dynamic
+ * pages; this metadata makes that visible when comparing reports.
+ */
+export type ReconWaitInfo = {
+  waitUntil: "domcontentloaded" | "load" | "networkidle";
+  selector?: string;
+  delayMs?: number;
+  domStableMs?: number;
+  navigationMs: number;
+  // Time spent in post-navigation waits (ms)
+  settleMs: number;
+  // A selector or DOM-stable wait hit its timeout
+  timedOut?: boolean;
+};
+
+/**
+ * Summarises an exploration pass.
+ *
+ * @remarks
+ * Triggers are skipped when activating them could submit a form or navigate,
+ * when they could not be clicked, or once the trigger limit is reached.
+ */
+export type ReconExplorationInfo = {
+  activated: number;
+  skipped: number;
+  revealed: number;
+};
+
+/**
+ * Audit rules checked after a scan.
+ */
+export type ReconAuditRule =
+  | "missing-accessible-name"
+  | "missing-form-label"
+  | "click-handler-without-role"
+  | "duplicate-id"
+  | "duplicate-accessible-name"
+  | "positive-tabindex";
+
+/**
+ * How urgently a finding should be fixed.
+ *
+ * @remarks
+ * `error` findings block assistive technology or reliable automation outright;
+ * `warning` findings make either harder.
+ */
+export type ReconFindingSeverity = "error" | "warning";
+
+/**
+ * An accessibility or automation problem found on a scanned element.
+ */
+export type ReconFinding = {
+  rule: ReconAuditRule;
+  severity: ReconFindingSeverity;
+  // index into `ReconReport.elements`
+  element: number;
+  message: string;
 };
 
 /**
@@ -54,7 +305,53 @@ export type ReconElement = {
  */
 export type ReconReport = {
   url: string;
+  // URL the page ended up on after redirects, when it differs from `url`
+  finalUrl?: string;
   scannedAt: string; // ISO date
+  wait?: ReconWaitInfo;
+  // how roles and accessible names were computed (absent in older reports: heuristic)
+  nameComputation?: "heuristic" | "accessibility-tree";
+  // how click handlers were detected (absent in older reports: onclick)
+  listenerDetection?: "onclick" | "cdp";
+  // names of the plugins applied during the scan
+  plugins?: string[];
+  // exploration pass statistics (exploration mode only)
+  exploration?: ReconExplorationInfo;
+  // annotated full-page screenshot, relative to the report file
+  screenshot?: string;
   counts: Record<ReconElementType, number>;
   elements: ReconElement[];
+  // audit results (see `auditElements`)
+  findings?: ReconFinding[];
+};
+
+/**
+ * Represents one crawled page in a {@link SiteIndex}.
+ *
+ * @remarks
+ * `report` is the report filename relative to the index file. Pages that failed
+ * to load carry an `error` instead of a report.
+ */
+export type SiteIndexEntry = {
+  url: string;
+  depth: number;
+  linkedFrom?: string;
+  report?: string;
+  counts?: Record<ReconElementType, number>;
+  error?: string;
+};
+
+/**
+ * Represents the output of a multi-page crawl, linking the per-page reports.
+ */
+export type SiteIndex = {
+  startUrl: string;
+  crawledAt: string; // ISO date
+  limits: {
+    maxDepth: number;
+    maxPages: number;
+    include: string[];
+    exclude: string[];
+  };
+  pages: SiteIndexEntry[];
 };
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview
+ * JSON writer for page model diffs.
+ *
+ * @remarks
+ * Produces timestamped filenames so diffs from successive runs are kept side
+ * by side, mirroring the recon report writer.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { PageModelDiff } from "../model/diffPageModels";
+
+/**
+ * Writes a {@link PageModelDiff} to disk as formatted JSON.
+ *
+ * @param outputDir - Directory where the diff will be written.
+ * @param diff - The diff to serialize.
+ * @returns Filepath to the written JSON file.
+ */
+export async function writeDiffReport(outputDir: string, diff: PageModelDiff): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const host     = new URL(diff.after.url).hostname.replace(/^www\./, "").replace(/[^a-z0-9]+/gi, "-");
+  const ts       = new Date().toISOString().replace(/[:.]/g, "-");
+  const filePath = path.join(outputDir, `recon-diff-${host}-${ts}.json`);
+
+  await fs.writeFile(filePath, JSON.stringify(diff, null, 2), "utf-8");
+  return filePath;
+}
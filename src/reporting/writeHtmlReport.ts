@@ -0,0 +1,245 @@
+/**
+ * @fileoverview
+ * HTML report writer for recon scans.
+ *
+ * @remarks
+ * Renders a {@link ReconReport} as a single self-contained HTML page (inline CSS
+ * and JavaScript, no external assets) so it can be opened from disk or attached
+ * to a ticket. The page contains summary cards, a sortable and filterable element
+ * table, and warning sections for elements that are hard to automate. Screenshot
+ * images, when captured, are referenced by relative path rather than embedded.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ReconElement, ReconFinding, ReconReport } from "./types";
+import { buildReportFileName } from "./writeJsonReport";
+
+/**
+ * Escapes text for safe inclusion in HTML content and attribute values.
+ *
+ * @param s - Raw text (optional).
+ * @returns Escaped text (empty string for `undefined`).
+ */
+function esc(s?: string | number): string {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders the disabled flags of an element as a short label.
+ *
+ * @param el - Recon element.
+ * @returns `disabled`, `aria-disabled`, both, or an empty string.
+ */
+function disabledLabel(el: ReconElement): string {
+  return [el.disabled ? "disabled" : "", el.ariaDisabled ? "aria-disabled" : ""].filter(Boolean).join(", ");
+}
+
+/**
+ * Renders a warning section listing elements by index.
+ *
+ * @param title - Section title.
+ * @param items - Elements with their report index.
+ * @returns HTML section markup (a "none" note when empty).
+ */
+function warningSection(title: string, items: { el: ReconElement; index: number }[]): string {
+  const body = items.length
+    ? `<ul>${items
+        .map(({ el, index }) => `<li>#${index} <code>${esc(el.tagName)}</code> ${esc(el.type)} — <code>${esc(el.css)}</code></li>`)
+        .join("")}</ul>`
+    : `<p class="none">None</p>`;
+
+  return `<section class="warning"><h2>${esc(title)} (${items.length})</h2>${body}</section>`;
+}
+
+/**
+ * Renders the audit findings as a table.
+ *
+ * @param findings - Findings from the report (absent in older reports).
+ * @returns HTML section markup, or an empty string when the report has no audit.
+ */
+function findingsSection(findings?: ReconFinding[]): string {
+  if (!findings) return "";
+
+  const body = findings.length
+    ? `<table class="findings"><thead><tr><th>Severity</th><th>Rule</th><th>#</th><th>Details</th></tr></thead><tbody>${findings
+        .map(
+          (f) =>
+            `<tr class="${esc(f.severity)}"><td>${esc(f.severity)}</td><td><code>${esc(f.rule)}</code></td>` +
+            `<td>${f.element}</td><td>${esc(f.message)}</td></tr>`
+        )
+        .join("")}</tbody></table>`
+    : `<p class="none">None</p>`;
+
+  return `<section class="warning"><h2>Audit findings (${findings.length})</h2>${body}</section>`;
+}
+
+/**
+ * Client-side script for sorting (click a header) and filtering the element table.
+ */
+const TABLE_SCRIPT = `
+(function () {
+  var table = document.getElementById("elements");
+  var tbody = table.tBodies[0];
+  var search = document.getElementById("search");
+  var typeFilter = document.getElementById("type");
+
+  function applyFilter() {
+    var q = search.value.toLowerCase();
+    var t = typeFilter.value;
+    Array.prototype.forEach.call(tbody.rows, function (row) {
+      var show = (!t || row.dataset.type === t) && (!q || row.textContent.toLowerCase().indexOf(q) !== -1);
+      row.style.display = show ? "" : "none";
+    });
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (th, col) {
+    th.addEventListener("click", function () {
+      var asc = th.dataset.sort !== "asc";
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (c) { delete c.dataset.sort; });
+      th.dataset.sort = asc ? "asc" : "desc";
+      var rows = Array.prototype.slice.call(tbody.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[col].textContent, y = b.cells[col].textContent;
+        var nx = Number(x), ny = Number(y);
+        var cmp = x !== "" && y !== "" && !isNaN(nx) && !isNaN(ny) ? nx - ny : x.localeCompare(y);
+        return asc ? cmp : -cmp;
+      });
+      rows.forEach(function (r) { tbody.appendChild(r); });
+    });
+  });
+
+  search.addEventListener("input", applyFilter);
+  typeFilter.addEventListener("change", applyFilter);
+})();
+`;
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1d232a; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #5b6670; margin-top: 0; }
+.cards { display: flex; flex-wrap: wrap; gap: 0.75rem; margin: 1.5rem 0; }
+.card { border: 1px solid #d5dbe0; border-radius: 6px; padding: 0.75rem 1rem; min-width: 7rem; }
+.card .n { font-size: 1.6rem; font-weight: 600; }
+.card .l { color: #5b6670; text-transform: capitalize; }
+.controls { display: flex; gap: 0.5rem; margin-bottom: 0.75rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border-bottom: 1px solid #e4e8eb; padding: 0.4rem 0.5rem; text-align: left; vertical-align: top; }
+th { cursor: pointer; background: #f4f6f8; position: sticky; top: 0; }
+th[data-sort="asc"]::after { content: " ▲"; }
+th[data-sort="desc"]::after { content: " ▼"; }
+code { font-size: 0.8rem; word-break: break-all; }
+.warning { border-left: 4px solid #d98c00; padding-left: 1rem; margin-top: 2rem; }
+.none { color: #5b6670; }
+.screenshot { margin-bottom: 1.5rem; }
+.screenshot img { max-width: 100%; border: 1px solid #d5dbe0; margin-top: 0.5rem; }
+img.crop { max-width: 160px; max-height: 80px; }
+.findings tr.error td:first-child { color: #c92a2a; font-weight: 600; }
+`;
+
+/**
+ * Renders a recon report as a self-contained HTML document.
+ *
+ * @param report - The recon report to render.
+ * @returns HTML document text.
+ */
+export function renderHtmlReport(report: ReconReport): string {
+  const indexed = report.elements.map((el, index) => ({ el, index }));
+  const total   = report.elements.length;
+
+  const cards = [
+    `<div class="card"><div class="n">${total}</div><div class="l">total</div></div>`,
+    ...Object.entries(report.counts).map(
+      ([type, n]) => `<div class="card"><div class="n">${esc(n)}</div><div class="l">${esc(type)}</div></div>`
+    ),
+  ].join("");
+
+  const typeOptions = Object.keys(report.counts)
+    .map((t) => `<option value="${esc(t)}">${esc(t)}</option>`)
+    .join("");
+
+  const rows = indexed
+    .map(({ el, index }) => {
+      const locators = [el.css ? `<code>${esc(el.css)}</code>` : "", el.xpath ? `<code>${esc(el.xpath)}</code>` : ""]
+        .filter(Boolean)
+        .join("<br>");
+
+      return [
+        `<tr data-type="${esc(el.type)}">`,
+        `<td>${index}</td>`,
+        `<td>${esc(el.type)}</td>`,
+        `<td>${esc(el.accessibleName)}</td>`,
+        `<td>${esc(el.role)}</td>`,
+        `<td>${esc(el.testId)}</td>`,
+        `<td>${locators}</td>`,
+        `<td>${esc(disabledLabel(el))}</td>`,
+        `<td>${el.screenshotCrop ? `<img class="crop" src="${esc(el.screenshotCrop)}" alt="#${index}">` : ""}</td>`,
+        `</tr>`,
+      ].join("");
+    })
+    .join("\n");
+
+  const noName   = indexed.filter(({ el }) => !el.accessibleName);
+  const noTestId = indexed.filter(({ el }) => !el.testId);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Recon report — ${esc(report.url)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Recon report</h1>
+<p class="meta"><a href="${esc(report.url)}">${esc(report.url)}</a> · scanned ${esc(report.scannedAt)}</p>
+<div class="cards">${cards}</div>
+${report.screenshot
+  ? `<details class="screenshot"><summary>Annotated screenshot (numbers match the # column)</summary>` +
+    `<a href="${esc(report.screenshot)}"><img src="${esc(report.screenshot)}" alt="Annotated screenshot"></a></details>`
+  : ""}
+<div class="controls">
+<input id="search" type="search" placeholder="Filter elements…">
+<select id="type"><option value="">All types</option>${typeOptions}</select>
+</div>
+<table id="elements">
+<thead><tr><th>#</th><th>Type</th><th>Name</th><th>Role</th><th>Test id</th><th>Locators</th><th>Disabled</th><th>Crop</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${findingsSection(report.findings)}
+${warningSection("Elements without an accessible name", noName)}
+${warningSection("Elements without a test id", noTestId)}
+<script>${TABLE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes a {@link ReconReport} to disk as a self-contained HTML page.
+ *
+ * @remarks
+ * Creates the output directory if it does not exist.
+ *
+ * @param outputDir - Directory where the report will be written.
+ * @param report - The recon report to render.
+ * @param fileName - Optional filename override (defaults to a timestamped name).
+ * @returns Filepath to the written HTML file.
+ */
+export async function writeHtmlReport(
+  outputDir: string,
+  report: ReconReport,
+  fileName = buildReportFileName(report.url, new Date(), "html")
+): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, fileName);
+
+  await fs.writeFile(filePath, renderHtmlReport(report), "utf-8");
+  return filePath;
+}
@@ -8,7 +8,7 @@
  */
 import { promises as fs } from "fs";
 import * as path from "path";
-import { ReconReport } from "./types";
+import { ReconReport, SiteIndex } from "./types";
 
 /**
  * Pads a number to a two-digit string.
@@ -48,13 +48,14 @@ function safeSlug(input: string): string {
  *
  * @remarks
  * Filename format:
- * `recon-report-MM-DD-YYYY-<domain>-HHMMSS.json`
+ * `recon-report-MM-DD-YYYY-<domain>-HHMMSS.<ext>`
  *
  * @param reportUrl - URL from the recon report.
  * @param now - Date used to generate the timestamp (primarily for testing).
+ * @param ext - File extension (without the dot).
  * @returns A report filename (not including directory path).
  */
-function buildReportFileName(reportUrl: string, now = new Date()): string {
+export function buildReportFileName(reportUrl: string, now = new Date(), ext = "json"): string {
   const u    = new URL(reportUrl);
   const mm   = pad2(now.getMonth() + 1);
   const dd   = pad2(now.getDate());
@@ -65,7 +66,7 @@ function buildReportFileName(reportUrl: string, now = new Date()): string {
   const domain      = safeSlug(u.hostname); // e.g. www.google.com --> google-com
   const domainShort = domain.replace(/-com$|-net$|-org$/g, ""); // optional nicety
 
-  return `recon-report-${mm}-${dd}-${yyyy}-${domainShort}-${hh}${min}${ss}.json`;
+  return `recon-report-${mm}-${dd}-${yyyy}-${domainShort}-${hh}${min}${ss}.${ext}`;
 }
 
 /**
@@ -76,14 +77,37 @@ function buildReportFileName(reportUrl: string, now = new Date()): string {
  *
  * @param outputDir - Directory where the report will be written.
  * @param report - The recon report object to serialize.
+ * @param fileName - Optional filename override (defaults to a timestamped name).
  * @returns Absolute or relative filepath to the written JSON file (depending on input).
  */
-export async function writeJsonReport(outputDir: string, report: ReconReport): Promise<string> {
+export async function writeJsonReport(
+  outputDir: string,
+  report: ReconReport,
+  fileName = buildReportFileName(report.url)
+): Promise<string> {
   await fs.mkdir(outputDir, { recursive: true });
 
-  const fileName = buildReportFileName(report.url);
   const filePath = path.join(outputDir, fileName);
 
   await fs.writeFile(filePath, JSON.stringify(report, null, 2), "utf-8");
   return filePath;
 }
+
+/**
+ * Writes a {@link SiteIndex} to disk as formatted JSON.
+ *
+ * @remarks
+ * The index is written as `site-index.json` next to the per-page reports it links.
+ *
+ * @param outputDir - Directory where the index will be written.
+ * @param index - The site index to serialize.
+ * @returns Filepath to the written JSON file.
+ */
+export async function writeSiteIndex(outputDir: string, index: SiteIndex): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const filePath = path.join(outputDir, "site-index.json");
+
+  await fs.writeFile(filePath, JSON.stringify(index, null, 2), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview
+ * JSON writer for locator verification results.
+ *
+ * @remarks
+ * Produces timestamped filenames, mirroring the diff report writer.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { VerifyResult } from "../recon/verifyPageModel";
+
+/**
+ * Writes a {@link VerifyResult} to disk as formatted JSON.
+ *
+ * @param outputDir - Directory where the result will be written.
+ * @param result - The verification result to serialize.
+ * @returns Filepath to the written JSON file.
+ */
+export async function writeVerifyReport(outputDir: string, result: VerifyResult): Promise<string> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const host     = new URL(result.url).hostname.replace(/^www\./, "").replace(/[^a-z0-9]+/gi, "-");
+  const ts       = new Date().toISOString().replace(/[:.]/g, "-");
+  const filePath = path.join(outputDir, `recon-verify-${host}-${ts}.json`);
+
+  await fs.writeFile(filePath, JSON.stringify(result, null, 2), "utf-8");
+  return filePath;
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview
+ * Healing report: the elements whose primary locator hint failed at runtime.
+ *
+ * @remarks
+ * {@link resolveElement} records an entry whenever it had to fall back past an
+ * element's primary hint (or found no hint at all). Repeated resolutions of the
+ * same element on the same page are merged and counted, so the report reads
+ * as a to-do list of selectors to update after a test run.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { LocatorHint } from "../model/pageModel";
+
+/**
+ * One element whose primary hint did not match exactly one node.
+ */
+export type HealingEntry = {
+  // Element id (or name when the entry has no id)
+  element: string;
+  name?: string;
+  url: string;
+  primary: LocatorHint;
+  // Nodes the primary hint matched (0 = gone, >1 = ambiguous)
+  primaryMatches: number;
+  // The hint that matched instead; absent when no hint matched
+  healedBy?: LocatorHint;
+  // Number of resolutions merged into this entry
+  occurrences: number;
+};
+
+/**
+ * Collects healing entries during a test run.
+ */
+export type HealingReport = {
+  entries: HealingEntry[];
+};
+
+/**
+ * Creates an empty healing report.
+ *
+ * @returns A report to pass to `resolveElement`.
+ */
+export function createHealingReport(): HealingReport {
+  return { entries: [] };
+}
+
+/**
+ * Drops scan-time metadata from a hint.
+ *
+ * @param hint - Locator hint.
+ * @returns The hint without `matches` and `stability`.
+ */
+function bareHint(hint: LocatorHint): LocatorHint {
+  const { matches: _m, stability: _s, ...rest } = hint;
+  return rest as LocatorHint;
+}
+
+/**
+ * Describes a hint for log lines.
+ *
+ * @param hint - Locator hint.
+ * @returns E.g. `testId "cart"` or `role button "Add to cart"`.
+ */
+export function describeHint(hint: LocatorHint): string {
+  if (hint.strategy === "role") return hint.name ? `role ${hint.role} ${JSON.stringify(hint.name)}` : `role ${hint.role}`;
+  return `${hint.strategy} ${JSON.stringify(hint.value)}`;
+}
+
+/**
+ * Adds a resolution to a report, merging it with an identical earlier one.
+ *
+ * @param report - Report to update.
+ * @param entry - The resolution (without an occurrence count).
+ */
+export function recordHealing(report: HealingReport, entry: Omit<HealingEntry, "occurrences">): void {
+  const primary  = bareHint(entry.primary);
+  const healedBy = entry.healedBy && bareHint(entry.healedBy);
+  const key      = JSON.stringify([entry.element, entry.url, primary, healedBy ?? null]);
+
+  const existing = report.entries.find(
+    (e) => JSON.stringify([e.element, e.url, e.primary, e.healedBy ?? null]) === key
+  );
+  if (existing) {
+    existing.occurrences++;
+    existing.primaryMatches = entry.primaryMatches;
+    return;
+  }
+
+  report.entries.push({ ...entry, primary, healedBy, occurrences: 1 });
+}
+
+/**
+ * Formats a report as plain text, one line per entry.
+ *
+ * @param report - Healing report.
+ * @returns Human-readable lines (a single line when nothing needed healing).
+ *
+ * @example
+ * ```ts
+ * formatHealingReport(report);
+ * // 'Add to cart (add-to-cart) on https://shop.example/: testId "cart" matched 0 → role button "Add to cart" (3x)'
+ * ```
+ */
+export function formatHealingReport(report: HealingReport): string {
+  if (!report.entries.length) return "No locator needed healing.";
+
+  return report.entries
+    .map((e) => {
+      const label  = e.name && e.name !== e.element ? `${e.name} (${e.element})` : e.element;
+      const healed = e.healedBy ? describeHint(e.healedBy) : "no match";
+      const times  = e.occurrences > 1 ? ` (${e.occurrences}x)` : "";
+      return `${label} on ${e.url}: ${describeHint(e.primary)} matched ${e.primaryMatches} → ${healed}${times}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Writes a healing report as JSON.
+ *
+ * @param report - Healing report.
+ * @param filePath - Output file; parent directories are created.
+ * @param now - Timestamp recorded in the file (primarily for testing).
+ * @returns The path written.
+ */
+export async function writeHealingReport(report: HealingReport, filePath: string, now = new Date()): Promise<string> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(
+    filePath,
+    JSON.stringify({ generatedAt: now.toISOString(), entries: report.entries }, null, 2),
+    "utf-8"
+  );
+  return filePath;
+}
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview
+ * Self-healing element resolution for tests that run against a page model.
+ *
+ * @remarks
+ * Generated page objects pin each element to its preferred locator hint. When
+ * the DOM drifts (a test id is renamed, a class changes), that locator breaks
+ * although the element is still there. {@link resolveElement} walks the
+ * element's ordered hints instead, until one matches exactly one node, so the
+ * test keeps running; elements whose primary hint failed are recorded in a
+ * {@link HealingReport} so the drifted selectors can be updated afterwards.
+ *
+ * Hints resolve the same way generated Playwright code does (`getByTestId`,
+ * `getByRole`, ...), inside the element's frames. Bare role hints are skipped,
+ * as in the generators.
+ */
+import type { FrameLocator, Locator, Page } from "@playwright/test";
+import { isUsableHint } from "../gen/playwrightLocators";
+import type { ElementModel, LocatorHint } from "../model/pageModel";
+import { describeHint, recordHealing, type HealingReport } from "./healingReport";
+
+/**
+ * How long resolution keeps retrying while no hint matches exactly one node (ms).
+ */
+export const DEFAULT_RESOLVE_TIMEOUT_MS = 5_000;
+
+/**
+ * Pause between resolution rounds (ms).
+ */
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * What the resolver needs from an element: a page model element, or an
+ * equivalent entry declared in a page object.
+ */
+export type ResolvableElement = Pick<ElementModel, "locators"> & Partial<Pick<ElementModel, "id" | "name" | "frames">>;
+
+/**
+ * Options for {@link resolveElement}.
+ */
+export type ResolveOptions = {
+  // Collects elements whose primary hint failed
+  report?: HealingReport;
+  // Retry window while nothing matches exactly one node (defaults to DEFAULT_RESOLVE_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Receives a line per healed resolution (defaults to console.log)
+  log?: (message: string) => void;
+  // Also log resolutions by the primary hint
+  verbose?: boolean;
+};
+
+/**
+ * Match count of one hint during a resolution round.
+ */
+export type HintAttempt = {
+  hint: LocatorHint;
+  matches: number;
+};
+
+/**
+ * A resolved element.
+ */
+export type Resolution = {
+  locator: Locator;
+  hint: LocatorHint;
+  // Position of `hint` in the element's `locators`
+  index: number;
+  // The primary hint did not match exactly one node; a later one was used
+  healed: boolean;
+  // Hints tried in the successful round, in order
+  attempts: HintAttempt[];
+};
+
+/**
+ * Builds a Playwright locator for a hint.
+ *
+ * @param root - Page or frame the hint resolves in.
+ * @param hint - Locator hint.
+ * @returns The locator (not yet resolved).
+ */
+export function hintLocator(root: Page | FrameLocator, hint: LocatorHint): Locator {
+  switch (hint.strategy) {
+    case "testId":
+      return root.getByTestId(hint.value);
+    case "role":
+      return root.getByRole(hint.role as Parameters<Page["getByRole"]>[0], hint.name ? { name: hint.name } : undefined);
+    case "label":
+      return root.getByLabel(hint.value);
+    case "placeholder":
+      return root.getByPlaceholder(hint.value);
+    case "css":
+      return root.locator(hint.value);
+    case "xpath":
+      return root.locator(`xpath=${hint.value}`);
+  }
+}
+
+/**
+ * Resolves an element by the first of its hints that matches exactly one node.
+ *
+ * @remarks
+ * Each round counts the matches of every hint in order and stops at the first
+ * unique one. When none is unique, rounds repeat until `timeoutMs` elapses,
+ * which gives late-rendering elements time to appear. Falling back past the
+ * primary hint is logged and recorded in `options.report`; so is a failure.
+ *
+ * @param page - Page under test.
+ * @param element - Page model element (or an equivalent page object entry).
+ * @param options - Report, timeout and logging.
+ * @returns The locator and the hint that produced it.
+ * @throws If the element has no usable hint, or no hint matched exactly one node in time.
+ *
+ * @example
+ * ```ts
+ * const report = createHealingReport();
+ * const { locator } = await resolveElement(page, model.elements[3], { report });
+ * await locator.click();
+ * ```
+ */
+export async function resolveElement(page: Page, element: ResolvableElement, options: ResolveOptions = {}): Promise<Resolution> {
+  const hints = element.locators.filter(isUsableHint);
+  const label = element.name ?? element.id ?? "element";
+  const log   = options.log ?? ((message: string) => console.log(message));
+  if (!hints.length) throw new Error(`Cannot resolve ${label}: no usable locator hint`);
+
+  const root     = (element.frames ?? []).reduce<Page | FrameLocator>((r, f) => r.frameLocator(f), page);
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_RESOLVE_TIMEOUT_MS);
+  const entry    = { element: element.id ?? label, name: element.name, primary: hints[0] };
+
+  for (;;) {
+    const attempts: HintAttempt[] = [];
+
+    for (const hint of hints) {
+      const locator = hintLocator(root, hint);
+      const matches = await locator.count().catch(() => 0);
+      attempts.push({ hint, matches });
+      if (matches !== 1) continue;
+
+      const healed = hint !== hints[0];
+      if (healed) {
+        log(`[heal] ${label}: ${describeHint(hint)} (primary ${describeHint(hints[0])} matched ${attempts[0].matches})`);
+        if (options.report) recordHealing(options.report, { ...entry, url: page.url(), primaryMatches: attempts[0].matches, healedBy: hint });
+      } else if (options.verbose) {
+        log(`[heal] ${label}: ${describeHint(hint)}`);
+      }
+      return { locator, hint, index: element.locators.indexOf(hint), healed, attempts };
+    }
+
+    if (Date.now() >= deadline) {
+      if (options.report) recordHealing(options.report, { ...entry, url: page.url(), primaryMatches: attempts[0].matches });
+      const counts = attempts.map((a) => `${describeHint(a.hint)} matched ${a.matches}`).join(", ");
+      throw new Error(`Cannot resolve ${label}: no locator hint matched exactly one element (${counts})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Resolves an element and returns just its locator.
+ *
+ * @param page - Page under test.
+ * @param element - Page model element (or an equivalent page object entry).
+ * @param options - Report, timeout and logging.
+ * @returns The resolved locator.
+ * @throws See {@link resolveElement}.
+ */
+export async function resolveLocator(page: Page, element: ResolvableElement, options: ResolveOptions = {}): Promise<Locator> {
+  return (await resolveElement(page, element, options)).locator;
+}
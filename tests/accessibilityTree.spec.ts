@@ -0,0 +1,52 @@
+/**
+ * @fileoverview
+ * Unit tests for reading computed roles and names from accessibility nodes.
+ *
+ * @remarks
+ * Nodes are shaped like CDP `Accessibility.getFullAXTree` output, so these tests
+ * do not launch a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { axInfoFromNode, nameSourceFrom } from "../src/recon/accessibilityTree";
+
+describe("axInfoFromNode", () => {
+  it("takes the name from the first source that was not superseded", () => {
+    const info = axInfoFromNode({
+      ignored: false,
+      role: { value: "textbox" },
+      name: {
+        value: "  Billing   email ",
+        sources: [
+          { type: "relatedElement", attribute: "aria-labelledby" },
+          { type: "attribute", attribute: "aria-label" },
+          { type: "relatedElement", nativeSource: "labelfor", value: { value: "Billing email" } },
+          { type: "placeholder", attribute: "placeholder", value: { value: "you@example.com" }, superseded: true },
+        ],
+      },
+    });
+
+    expect(info).toEqual({ role: "textbox", name: "Billing email", nameSource: "label" });
+  });
+
+  it("keeps implicit roles and drops generic and internal ones", () => {
+    expect(axInfoFromNode({ ignored: false, role: { value: "link" } })?.role).toBe("link");
+    expect(axInfoFromNode({ ignored: false, role: { value: "image" } })?.role).toBe("img");
+    expect(axInfoFromNode({ ignored: false, role: { value: "generic" } })?.role).toBeUndefined();
+    expect(axInfoFromNode({ ignored: false, role: { value: "StaticText" } })?.role).toBeUndefined();
+  });
+
+  it("returns nothing for ignored nodes", () => {
+    expect(axInfoFromNode({ ignored: true, role: { value: "button" } })).toBeUndefined();
+  });
+});
+
+describe("nameSourceFrom", () => {
+  it("maps attribute, native and content sources", () => {
+    expect(nameSourceFrom({ type: "relatedElement", attribute: "aria-labelledby" })).toBe("aria-labelledby");
+    expect(nameSourceFrom({ type: "relatedElement", nativeSource: "legend" })).toBe("legend");
+    expect(nameSourceFrom({ type: "attribute", attribute: "title" })).toBe("title");
+    expect(nameSourceFrom({ type: "contents" })).toBe("contents");
+    expect(nameSourceFrom({ type: "style" })).toBe("other");
+  });
+});
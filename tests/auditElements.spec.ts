@@ -0,0 +1,80 @@
+/**
+ * @fileoverview
+ * Unit tests for {@link auditElements}.
+ *
+ * @remarks
+ * These tests validate each audit rule against hand-built scan elements.
+ */
+
+import { describe, it, expect } from "vitest";
+import { auditElements } from "../src/recon/auditElements";
+import type { ReconElement } from "../src/reporting/types";
+
+describe("auditElements", () => {
+  it("flags unnamed controls and unlabelled form fields", () => {
+    const findings = auditElements([
+      { type: "button", tagName: "button", css: "button" },
+      { type: "input", tagName: "input", typeAttr: "email", placeholder: "Email", accessibleName: "Email", nameSource: "placeholder" },
+      { type: "input", tagName: "input", typeAttr: "text", css: "input" },
+      { type: "input", tagName: "input", typeAttr: "text", labelText: "Name", accessibleName: "Name", nameSource: "label" },
+      { type: "button", tagName: "input", typeAttr: "submit", value: "Go", accessibleName: "Go", nameSource: "value" },
+    ]);
+
+    expect(findings.map((f) => [f.element, f.rule, f.severity])).toEqual([
+      [0, "missing-accessible-name", "error"],
+      [1, "missing-form-label", "warning"],
+      [2, "missing-form-label", "error"],
+    ]);
+  });
+
+  it("flags click-handler containers, positive tabindex and duplicates", () => {
+    const elements: ReconElement[] = [
+      { type: "other", tagName: "div", clickHandler: true, accessibleName: "Open" },
+      { type: "other", tagName: "div", clickHandler: true, role: "button", tabIndex: 0, accessibleName: "Open" },
+      { type: "button", tagName: "button", id: "save", tabIndex: 3, accessibleName: "Save" },
+      { type: "button", tagName: "button", id: "save", accessibleName: "save " },
+      // Same id inside a shadow root is a different scope
+      { type: "button", tagName: "button", id: "save", shadowHosts: ["x-toolbar"], accessibleName: "Undo" },
+    ];
+
+    const findings = auditElements(elements);
+
+    expect(findings.map((f) => [f.element, f.rule])).toEqual([
+      [0, "click-handler-without-role"],
+      [2, "duplicate-id"],
+      [2, "duplicate-accessible-name"],
+      [2, "positive-tabindex"],
+      [3, "duplicate-id"],
+      [3, "duplicate-accessible-name"],
+    ]);
+    expect(findings[1].message).toBe('id "save" is also used by #3');
+  });
+
+  it("flags ids shared with nodes that were not scanned", () => {
+    const findings = auditElements([
+      { type: "input", tagName: "input", typeAttr: "text", id: "q", idCount: 2, labelText: "Search", accessibleName: "Search" },
+      { type: "button", tagName: "button", id: "go", idCount: 3, accessibleName: "Go" },
+      { type: "button", tagName: "button", id: "go", idCount: 3, accessibleName: "Go now" },
+    ]);
+
+    expect(findings.map((f) => f.message)).toEqual([
+      'id "q" is also used by 1 other node',
+      'id "go" is also used by #2, 1 other node',
+      'id "go" is also used by #1, 1 other node',
+    ]);
+  });
+
+  it("compares names under the implicit ARIA role of the tag", () => {
+    const findings = auditElements([
+      { type: "input", tagName: "input", typeAttr: "search", labelText: "Find", accessibleName: "Find" },
+      { type: "input", tagName: "input", typeAttr: "text", labelText: "Find", accessibleName: "Find" },
+      { type: "input", tagName: "input", typeAttr: "email", labelText: "Find", accessibleName: "Find" },
+    ]);
+
+    // searchbox vs textbox; only the text and email inputs share a role
+    expect(findings.map((f) => [f.element, f.rule])).toEqual([
+      [1, "duplicate-accessible-name"],
+      [2, "duplicate-accessible-name"],
+    ]);
+  });
+});
@@ -115,4 +115,230 @@ describe("buildPageModel", () => {
     const model = buildPageModel(report);
     expect(model.elements[0].name).toBe("Primary CTA");
   });
-});
\ No newline at end of file
+
+  it("carries the iframe path onto the element model", () => {
+    const report = baseReport({
+      elements: [
+        { type: "button", tagName: "button", css: "#pay", framePath: ['iframe[name="checkout"]'] },
+        { type: "button", tagName: "button", css: "#top" },
+      ],
+    });
+
+    const model = buildPageModel(report);
+    expect(model.elements[0].frames).toEqual(['iframe[name="checkout"]']);
+    expect(model.elements[1].frames).toBeUndefined();
+  });
+
+  it("puts unique locators first and flags elements without one", () => {
+    const report = baseReport({
+      elements: [
+        {
+          type: "button",
+          tagName: "button",
+          testId: "save",
+          role: "button",
+          accessibleName: "Save",
+          css: "#save",
+          locatorMatches: { testId: 2, role: 1, css: 1 },
+        },
+        {
+          type: "button",
+          tagName: "button",
+          role: "button",
+          accessibleName: "Edit",
+          css: "button",
+          locatorMatches: { role: 3, css: 12 },
+        },
+      ],
+    });
+
+    const [save, edit] = buildPageModel(report).elements;
+    expect(save.locators.map((l) => [l.strategy, l.matches])).toEqual([
+      ["role", 1],
+      ["css", 1],
+      ["testId", 2],
+    ]);
+    expect(save.flags?.noUniqueLocator).toBeUndefined();
+    expect(edit.flags?.noUniqueLocator).toBe(true);
+  });
+
+  it("carries screenshot references for visual review", () => {
+    const box = { x: 10, y: 20, width: 100, height: 30 };
+    const model = buildPageModel(
+      baseReport({
+        screenshot: "recon-report.png",
+        elements: [{ type: "button", tagName: "button", css: "#go", boundingBox: box }],
+      })
+    );
+
+    expect(model.screenshot).toBe("recon-report.png");
+    expect(model.elements[0].boundingBox).toEqual(box);
+  });
+
+  it("emits checkbox and radio kinds from the captured input type", () => {
+    const model = buildPageModel(
+      baseReport({
+        elements: [
+          { type: "input", tagName: "input", typeAttr: "checkbox", checked: true, css: "#terms" },
+          { type: "input", tagName: "input", typeAttr: "radio", css: "#plan-pro" },
+          { type: "input", tagName: "input", typeAttr: "email", css: "#email" },
+        ],
+      })
+    );
+
+    expect(model.elements.map((e) => e.kind)).toEqual(["checkbox", "radio", "textbox"]);
+    expect(model.elements[0].flags?.checked).toBe(true);
+    expect(model.elements[2].inputType).toBe("email");
+  });
+
+  it("groups form controls into form models with their submit button", () => {
+    const login = { index: 0, id: "login", action: "https://www.example.com/session", method: "post" };
+    const model = buildPageModel(
+      baseReport({
+        elements: [
+          {
+            type: "input",
+            tagName: "input",
+            typeAttr: "email",
+            id: "email",
+            form: login,
+            constraints: { required: true, maxLength: 80 },
+          },
+          { type: "button", tagName: "button", typeAttr: "button", text: "Show", form: login },
+          { type: "button", tagName: "button", typeAttr: "submit", text: "Sign in", form: login },
+          { type: "select", tagName: "select", id: "lang", form: { index: 1 }, options: [{ value: "en", label: "English" }] },
+          { type: "link", tagName: "a", href: "/help", text: "Help" },
+        ],
+      })
+    );
+
+    expect(model.forms).toEqual([
+      {
+        id: "form-login",
+        name: "login",
+        action: "https://www.example.com/session",
+        method: "post",
+        fields: [model.elements[0].id],
+        submit: model.elements[2].id,
+      },
+      { id: "form-2", fields: [model.elements[3].id] },
+    ]);
+    expect(model.elements[0].constraints).toEqual({ required: true, maxLength: 80 });
+    expect(model.elements[3].options).toEqual([{ value: "en", label: "English" }]);
+  });
+
+  it("nests elements into sections by their nearest landmark", () => {
+    const primary = { kind: "nav" as const, name: "Primary", role: "navigation", css: "nav[aria-label=\"Primary\"]" };
+    const header  = { kind: "header" as const, css: "header" };
+    const model   = buildPageModel(
+      baseReport({
+        elements: [
+          { type: "input", tagName: "input", placeholder: "Search", region: header },
+          { type: "link", tagName: "a", text: "Home", region: primary, row: { kind: "listitem", index: 0, count: 2, key: "/html/body/nav/ul", itemCss: "li" } },
+          { type: "link", tagName: "a", text: "Blog", region: primary, row: { kind: "listitem", index: 1, count: 2, key: "/html/body/nav/ul", itemCss: "li" } },
+          { type: "link", tagName: "a", text: "Home", region: { kind: "footer", css: "footer" } },
+          { type: "button", tagName: "button", text: "Other header", region: header, framePath: ["iframe#ad"] },
+          { type: "button", tagName: "button", text: "Loose" },
+        ],
+      })
+    );
+
+    expect(model.sections).toEqual([
+      { id: "header", kind: "header", locator: { strategy: "css", value: "header" }, elements: [model.elements[0].id] },
+      {
+        id: "nav-primary",
+        kind: "nav",
+        name: "Primary",
+        locator: { strategy: "role", role: "navigation", name: "Primary" },
+        elements: [model.elements[1].id, model.elements[2].id],
+      },
+      { id: "footer", kind: "footer", locator: { strategy: "css", value: "footer" }, elements: [model.elements[3].id] },
+      {
+        id: "header-2",
+        kind: "header",
+        locator: { strategy: "css", value: "header" },
+        frames: ["iframe#ad"],
+        elements: [model.elements[4].id],
+      },
+    ]);
+    expect(model.elements.map((el) => el.section)).toEqual(["header", "nav-primary", "nav-primary", "footer", "header-2", undefined]);
+    expect(model.elements[2].row).toEqual({ kind: "listitem", index: 1, count: 2 });
+  });
+
+  it("folds repeated items with a constant control into a collection", () => {
+    const card = (index: number) => ({ kind: "item" as const, index, count: 3, key: "/html/body/main/div", name: "products", itemCss: "div.card" });
+    const model = buildPageModel(
+      baseReport({
+        elements: [
+          { type: "button", tagName: "button", text: "Add to cart", role: "button", accessibleName: "Add to cart", row: { ...card(0), childCss: "button.add" } },
+          { type: "link", tagName: "a", text: "Shoe", css: "a.title", row: { ...card(0), childCss: "a.title" } },
+          { type: "button", tagName: "button", text: "Add to cart", role: "button", accessibleName: "Add to cart", row: { ...card(1), childCss: "button.add" } },
+          { type: "link", tagName: "a", text: "Hat", css: "a.title", row: { ...card(1), childCss: "a.title" } },
+          { type: "link", tagName: "a", text: "Home", row: { kind: "listitem", index: 0, count: 2, key: "/html/body/nav/ul", itemCss: "li", childCss: "a" } },
+          { type: "link", tagName: "a", text: "Blog", row: { kind: "listitem", index: 1, count: 2, key: "/html/body/nav/ul", itemCss: "li", childCss: "a" } },
+        ],
+      })
+    );
+
+    const [e0, e1, e2, e3] = model.elements.map((el) => el.id);
+    expect(model.collections).toEqual([
+      {
+        id: "grid-products",
+        kind: "grid",
+        name: "products",
+        itemLocator: { strategy: "css", value: "div.card" },
+        count: 3,
+        fields: [
+          { name: "Add to cart", memberName: "addToCartButton", kind: "button", locator: { strategy: "role", role: "button", name: "Add to cart" }, elements: [e0, e2] },
+          { name: "title", memberName: "titleLink", kind: "link", locator: { strategy: "css", value: "a.title" }, elements: [e1, e3] },
+        ],
+      },
+    ]);
+    // A short list without a constant control stays as individual elements
+    expect(model.elements.map((el) => el.collection)).toEqual(["grid-products", "grid-products", "grid-products", "grid-products", undefined, undefined]);
+  });
+
+  it("derives ids from identity signals and disambiguates only on collision", () => {
+    const elements = [
+      { type: "button", tagName: "button", testId: "checkout", text: "Checkout" },
+      { type: "input", tagName: "input", id: "email", labelText: "Email" },
+      { type: "link", tagName: "a", text: "Home", region: { kind: "header", css: "header" } },
+      { type: "link", tagName: "a", text: "Home", region: { kind: "footer", css: "footer" } },
+      { type: "button", tagName: "button", text: "More" },
+      { type: "button", tagName: "button", text: "More" },
+    ] as ReconReport["elements"];
+
+    const ids      = buildPageModel(baseReport({ elements })).elements.map((el) => el.id);
+    const inserted = buildPageModel(baseReport({ elements: [{ type: "button", tagName: "button", text: "New" }, ...elements] }));
+
+    expect(ids).toEqual(["button-checkout", "input-email", "link-header-home", "link-footer-home", "button-more", "button-more-2"]);
+    expect(inserted.elements.slice(1).map((el) => el.id)).toEqual(ids);
+  });
+
+  it("carries ids forward from a previous model when elements clearly match", () => {
+    const previous = buildPageModel(
+      baseReport({
+        elements: [
+          { type: "button", tagName: "button", testId: "cart", role: "button", accessibleName: "Add to cart", css: "#add" },
+          { type: "link", tagName: "a", text: "Help", href: "/help" },
+        ],
+      })
+    );
+    previous.elements[1].id = "link-help-7";
+
+    const model = buildPageModel(
+      baseReport({
+        elements: [
+          { type: "button", tagName: "button", text: "Cart" },
+          { type: "button", tagName: "button", testId: "add-to-cart", role: "button", accessibleName: "Add to cart", css: "#add" },
+          { type: "link", tagName: "a", text: "Help", href: "/help" },
+        ],
+      }),
+      undefined,
+      { previous }
+    );
+
+    // The renamed test id is matched by name, role and locators; the new button yields to the carried id
+    expect(model.elements.map((el) => el.id)).toEqual(["button-cart-2", "button-cart", "link-help-7"]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview
+ * Unit tests for the Cypress, WebdriverIO and Selenium page object generators.
+ *
+ * @remarks
+ * These tests validate the generated source text. They do not compile or
+ * execute the generated code.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getGenTarget } from "../src/gen/targets";
+import { renderCypressPageObject } from "../src/gen/writeCypressPageObject";
+import { renderSeleniumPageObject } from "../src/gen/writeSeleniumPageObject";
+import { renderWebdriverioPageObject } from "../src/gen/writeWebdriverioPageObject";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+/**
+ * Builds a page model with one element per locator situation.
+ *
+ * @param elements - Extra elements to include.
+ * @returns A complete {@link PageModel} object.
+ */
+function baseModel(elements: ElementModel[] = []): PageModel {
+  return {
+    url: "https://www.example.com/",
+    domain: "example.com",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    elements: [
+      {
+        id: "input-email",
+        kind: "textbox",
+        name: "Email",
+        memberName: "emailInput",
+        locators: [
+          { strategy: "label", value: "Email" },
+          { strategy: "css", value: "#email" },
+        ],
+      },
+      {
+        id: "button-sign-in",
+        kind: "button",
+        name: "Sign in",
+        memberName: "signInButton",
+        locators: [
+          { strategy: "testId", value: "sign-in" },
+          { strategy: "role", role: "button", name: "Sign in" },
+          { strategy: "css", value: '[data-testid="sign-in"], [data-qa="sign-in"]' },
+        ],
+      },
+      {
+        id: "link-terms",
+        kind: "link",
+        name: "Terms",
+        memberName: "termsLink",
+        locators: [{ strategy: "xpath", value: "/html/body/footer/a[2]" }],
+      },
+      {
+        id: "button-pay",
+        kind: "button",
+        name: "Pay",
+        memberName: "payButton",
+        frames: ["iframe#checkout"],
+        locators: [{ strategy: "css", value: "#pay" }],
+      },
+      ...elements,
+    ],
+  };
+}
+
+describe("renderCypressPageObject", () => {
+  it("uses Testing Library queries and skips XPath and framed elements", () => {
+    const source = renderCypressPageObject(baseModel());
+
+    expect(source).toContain('/// <reference types="@testing-library/cypress" />');
+    expect(source).toContain('    cy.visit("https://www.example.com/");');
+    expect(source).toContain("  get emailInput(): Cypress.Chainable<JQuery<HTMLElement>> {\n    return cy.findByLabelText(\"Email\");");
+    expect(source).toContain("  fillEmailInput(value: string): void {\n    this.emailInput.clear().type(value);");
+    expect(source).toContain('    return cy.findByTestId("sign-in");');
+    expect(source).toContain("  clickSignInButton(): void {");
+    expect(source).not.toContain("termsLink");
+    expect(source).toContain(" * Skipped: link-terms (no supported locator), button-pay (inside an iframe)");
+  });
+});
+
+describe("renderWebdriverioPageObject", () => {
+  it("maps labels to aria selectors and leaves roles and test ids to the CSS hint", () => {
+    const source = renderWebdriverioPageObject(
+      baseModel([
+        {
+          id: "checkbox-remember-me",
+          kind: "checkbox",
+          name: "Remember me",
+          memberName: "rememberMeCheckbox",
+          locators: [{ strategy: "placeholder", value: 'say "hi"' }],
+        },
+      ])
+    );
+
+    expect(source).toContain('import { $, $$, browser } from "@wdio/globals";');
+    expect(source).toContain('    return $("aria/Email");');
+    // aria/ does not check the role, so the sign-in button falls through to its CSS hint
+    expect(source).not.toContain("aria/Sign in");
+    expect(source).toContain('    return $("[data-testid=\\"sign-in\\"], [data-qa=\\"sign-in\\"]");');
+    expect(source).toContain('    return $("/html/body/footer/a[2]");');
+    expect(source).toContain('    return $("[placeholder=\\"say \\\\\\"hi\\\\\\"\\"]");');
+    expect(source).toContain("    if ((await this.rememberMeCheckbox.isSelected()) !== checked) await this.rememberMeCheckbox.click();");
+    expect(source).toContain(" * Skipped: button-pay (inside an iframe)");
+  });
+});
+
+describe("truncated names", () => {
+  it("matches names that may have been cut short as a prefix, or not by name at all", () => {
+    const long = `${"Subscribe to our newsletter ".repeat(3)}(weekly)`.slice(0, 80);
+    const model = baseModel([
+      {
+        id: "checkbox-subscribe",
+        kind: "checkbox",
+        name: long,
+        memberName: "subscribeCheckbox",
+        locators: [
+          { strategy: "role", role: "checkbox", name: long },
+          { strategy: "label", value: long },
+          { strategy: "css", value: "#subscribe" },
+        ],
+      },
+    ]);
+
+    expect(renderCypressPageObject(model)).toContain(`cy.findByRole("checkbox", { name: /^${long.replace("(", "\\(")}/ })`);
+    expect(renderWebdriverioPageObject(model)).toContain('    return $("#subscribe");');
+  });
+});
+
+describe("action names", () => {
+  it("keeps action methods clear of getter names in every target", () => {
+    const model = baseModel([
+      { id: "button-fill", kind: "button", name: "Fill email", memberName: "fillEmailInput", locators: [{ strategy: "css", value: "#fill" }] },
+    ]);
+
+    const cypress  = renderCypressPageObject(model);
+    const selenium = renderSeleniumPageObject(model);
+
+    expect(cypress).toContain("  get fillEmailInput(): Cypress.Chainable<JQuery<HTMLElement>> {");
+    expect(cypress).toContain("  fillEmailInput2(value: string): void {\n    this.emailInput.clear().type(value);");
+    expect(cypress).toContain("  clickFillEmailInput(): void {");
+    expect(renderWebdriverioPageObject(model)).toContain("  async fillEmailInput2(value: string): Promise<void> {");
+    expect(selenium).toContain("    def fill_email_input(self) -> WebElement:");
+    expect(selenium).toContain("    def fill_email_input2(self, value: str) -> None:");
+  });
+});
+
+describe("renderSeleniumPageObject", () => {
+  it("renders snake_case Python members from CSS and XPath hints only", () => {
+    const source = renderSeleniumPageObject(
+      baseModel([
+        { id: "other-pass", kind: "other", name: "Pass", memberName: "pass", locators: [{ strategy: "css", value: ".pass" }] },
+      ])
+    );
+
+    expect(source).toContain("class ExampleComPage:\n    url = \"https://www.example.com/\"");
+    expect(source).toContain(
+      [
+        "    @property",
+        "    def email_input(self) -> WebElement:",
+        '        """#0 Email (textbox)"""',
+        '        return self.driver.find_element(By.CSS_SELECTOR, "#email")',
+        "",
+        "    def fill_email_input(self, value: str) -> None:",
+        "        self.email_input.clear()",
+        "        self.email_input.send_keys(value)",
+      ].join("\n")
+    );
+    // Test ids may live in any scanned attribute (here data-qa); the CSS hint covers them all
+    expect(source).toContain('        return self.driver.find_element(By.CSS_SELECTOR, "[data-testid=\\"sign-in\\"], [data-qa=\\"sign-in\\"]")');
+    expect(source).toContain('        return self.driver.find_element(By.XPATH, "/html/body/footer/a[2]")');
+    expect(source).toContain("    def click_terms_link(self) -> None:");
+    expect(source).toContain("    def pass_element(self) -> WebElement:");
+  });
+
+  it("skips elements with only role and label hints", () => {
+    const source = renderSeleniumPageObject(
+      baseModel([{ id: "button-help", kind: "button", name: "Help", locators: [{ strategy: "role", role: "button", name: "Help" }] }])
+    );
+
+    expect(source).toContain("Skipped: button-pay (inside an iframe), button-help (no supported locator)");
+  });
+});
+
+describe("shadow DOM", () => {
+  it("never emits Playwright >> chains: deep selector, next hint or skipped", () => {
+    const model = baseModel([
+      {
+        id: "button-go",
+        kind: "button",
+        name: "Go",
+        memberName: "goButton",
+        locators: [
+          { strategy: "css", value: "x-card >> button.go" },
+          { strategy: "role", role: "button", name: "Go" },
+        ],
+      },
+    ]);
+
+    const cypress  = renderCypressPageObject(model);
+    const wdio     = renderWebdriverioPageObject(model);
+    const selenium = renderSeleniumPageObject(model);
+
+    expect(cypress).toContain('    return cy.findByRole("button", { name: "Go" });');
+    expect(wdio).toContain('    return $(">>>button.go");');
+    // A deep selector is a last resort: any supported hint comes first
+    expect(
+      renderWebdriverioPageObject(
+        baseModel([
+          {
+            id: "input-code",
+            kind: "textbox",
+            name: "Code",
+            locators: [
+              { strategy: "css", value: "x-form >> input" },
+              { strategy: "label", value: "Code" },
+            ],
+          },
+        ])
+      )
+    ).toContain('    return $("aria/Code");');
+    expect(selenium).toContain("button-go (no supported locator)");
+    for (const source of [cypress, wdio, selenium]) expect(source).not.toContain("x-card >> ");
+  });
+});
+
+describe("getGenTarget", () => {
+  it("finds targets by name and lists the known ones otherwise", () => {
+    expect(getGenTarget("Cypress").name).toBe("cypress");
+    expect(() => getGenTarget("nightwatch")).toThrow(
+      'Unknown target "nightwatch" (expected one of playwright, cypress, webdriverio, selenium-python)'
+    );
+  });
+});
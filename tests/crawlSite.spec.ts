@@ -0,0 +1,85 @@
+/**
+ * @fileoverview
+ * Unit tests for the crawl link-selection rules.
+ *
+ * @remarks
+ * These tests cover URL filtering only; they do not launch a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { collectLinks, isLogoutLink, matchesUrlGlob } from "../src/recon/crawlSite";
+import type { ReconElement, ReconReport } from "../src/reporting/types";
+
+/**
+ * Builds a recon report whose elements are links with the given hrefs.
+ *
+ * @param hrefs - Raw href attribute values.
+ * @returns A complete {@link ReconReport} object.
+ */
+function reportWithLinks(hrefs: string[]): ReconReport {
+  const elements: ReconElement[] = hrefs.map((href) => ({ type: "link", tagName: "a", href }));
+  return {
+    url: "https://www.example.com/shop/",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    counts: { button: 0, link: hrefs.length, input: 0, select: 0, textarea: 0, other: 0 },
+    elements,
+  };
+}
+
+describe("matchesUrlGlob", () => {
+  it("matches path patterns against path and query", () => {
+    expect(matchesUrlGlob("https://example.com/admin/users?x=1", "/admin/**")).toBe(true);
+    expect(matchesUrlGlob("https://example.com/admin/users", "/admin/*")).toBe(true);
+    expect(matchesUrlGlob("https://example.com/admin/users/1", "/admin/*")).toBe(false);
+  });
+
+  it("matches full-URL patterns", () => {
+    expect(matchesUrlGlob("https://example.com/docs/a", "https://example.com/docs/*")).toBe(true);
+    expect(matchesUrlGlob("https://example.com/blog/a", "https://example.com/docs/*")).toBe(false);
+  });
+});
+
+describe("collectLinks", () => {
+  it("resolves relative hrefs and keeps only same-origin http(s) targets", () => {
+    const links = collectLinks(
+      reportWithLinks([
+        "item/1",
+        "/cart#top",
+        "/cart",
+        "https://other.com/x",
+        "mailto:help@example.com",
+        "javascript:void(0)",
+      ]),
+      { include: [], exclude: [] }
+    );
+
+    expect(links).toEqual([
+      "https://www.example.com/shop/item/1",
+      "https://www.example.com/cart",
+    ]);
+  });
+
+  it("resolves hrefs against the URL after redirects", () => {
+    const report = { ...reportWithLinks(["item/1"]), finalUrl: "https://www.example.com/store/" };
+
+    expect(collectLinks(report, { include: [], exclude: [] })).toEqual(["https://www.example.com/store/item/1"]);
+  });
+
+  it("skips logout links unless asked to follow them", () => {
+    const report = reportWithLinks(["/logout", "/account/sign-out?next=/", "/blog/login-tips"]);
+    report.elements.push({ type: "link", tagName: "a", href: "/session/end", text: "Log out" });
+
+    expect(collectLinks(report, { include: [], exclude: [] })).toEqual(["https://www.example.com/blog/login-tips"]);
+    expect(collectLinks(report, { include: [], exclude: [], followLogout: true })).toHaveLength(4);
+    expect(isLogoutLink(new URL("https://example.com/Account/LogOff"))).toBe(true);
+    expect(isLogoutLink(new URL("https://example.com/catalog/outlet"))).toBe(false);
+  });
+
+  it("applies include and exclude patterns", () => {
+    const report = reportWithLinks(["/shop/a", "/shop/b", "/blog/c"]);
+
+    expect(collectLinks(report, { include: ["/shop/*"], exclude: ["/shop/b"] })).toEqual([
+      "https://www.example.com/shop/a",
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview
+ * Unit tests for {@link diffPageModels}.
+ *
+ * @remarks
+ * These tests validate element matching and breaking-change detection between
+ * two page models.
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffPageModels, formatDiffSummary } from "../src/model/diffPageModels";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+/**
+ * Builds a baseline {@link PageModel} for unit testing.
+ *
+ * @param elements - Elements to include in the model.
+ * @param scannedAt - Scan timestamp.
+ * @returns A complete {@link PageModel} object.
+ */
+function model(elements: ElementModel[], scannedAt = "2026-01-18T00:00:00.000Z"): PageModel {
+  return { url: "https://www.example.com/", domain: "example.com", scannedAt, elements };
+}
+
+const save: ElementModel = {
+  id: "button-save-0",
+  kind: "button",
+  name: "Save",
+  role: "button",
+  locators: [
+    { strategy: "testId", value: "save" },
+    { strategy: "css", value: '[data-testid="save"]' },
+  ],
+};
+
+const email: ElementModel = {
+  id: "input-email-1",
+  kind: "textbox",
+  name: "Email",
+  locators: [
+    { strategy: "css", value: "#email" },
+    { strategy: "xpath", value: '//*[@id="email"]' },
+  ],
+};
+
+describe("diffPageModels", () => {
+  it("matches by strong signals even when index-based ids shift", () => {
+    const banner: ElementModel = { id: "link-promo-0", kind: "link", name: "Promo", locators: [{ strategy: "css", value: "a" }] };
+    const after = model([
+      banner,
+      { ...save, id: "button-save-1", name: "Save changes" },
+      { ...email, id: "input-email-2" },
+    ]);
+
+    const diff = diffPageModels(model([save, email]), after);
+
+    expect(diff.added).toEqual([banner]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].matchedBy).toBe("testId");
+    expect(diff.modified[0].changes).toEqual([{ field: "name", before: "Save", after: "Save changes" }]);
+    expect(diff.breaking).toBe(false);
+  });
+
+  it("falls back to fuzzy matching and flags lost primary locators as breaking", () => {
+    const renamed: ElementModel = {
+      ...email,
+      locators: [{ strategy: "label", value: "Email" }],
+      flags: { disabled: true },
+    };
+
+    const diff = diffPageModels(model([email]), model([renamed]));
+
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].matchedBy).toBe("fuzzy");
+    expect(diff.modified[0].changes.map((c) => c.field)).toEqual(["disabled", "locators"]);
+    expect(diff.modified[0].breaking).toBe(true);
+    expect(diff.breaking).toBe(true);
+  });
+
+  it("compares locators as sets and reports a new preferred hint as a reorder", () => {
+    const reordered: ElementModel = { ...email, locators: [...email.locators].reverse() };
+    const diff = diffPageModels(model([save, email]), model([save, reordered]));
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].changes).toEqual([
+      { field: "locatorOrder", before: ["css:#email", 'xpath://*[@id="email"]'], after: ['xpath://*[@id="email"]', "css:#email"] },
+    ]);
+    expect(diff.breaking).toBe(false);
+    expect(formatDiffSummary(diff)).toContain("locatorOrder: primary css:#email → xpath://*[@id=\"email\"]");
+  });
+
+  it("treats removed elements as breaking and summarizes the diff", () => {
+    const diff = diffPageModels(model([save, email]), model([save], "2026-02-01T00:00:00.000Z"));
+
+    expect(diff.removed).toEqual([email]);
+    expect(diff.breaking).toBe(true);
+    expect(formatDiffSummary(diff)).toContain('- removed  textbox "Email" [breaking]');
+  });
+});
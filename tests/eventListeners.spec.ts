@@ -0,0 +1,65 @@
+/**
+ * @fileoverview
+ * Unit tests for the CDP listener mode helpers.
+ *
+ * @remarks
+ * DOM trees are hand-built `DOM.getDocument` payloads; no browser is launched.
+ */
+
+import { describe, it, expect } from "vitest";
+import { listenerTypesFrom, queryableNodes, type DomNode } from "../src/recon/eventListeners";
+
+/**
+ * Builds an element node.
+ *
+ * @param nodeId - CDP node id.
+ * @param nodeName - Uppercase tag name.
+ * @param children - Child nodes.
+ * @returns A {@link DomNode}.
+ */
+function el(nodeId: number, nodeName: string, children: DomNode[] = []): DomNode {
+  return { nodeId, nodeType: 1, nodeName, children };
+}
+
+describe("listenerTypesFrom", () => {
+  it("keeps candidate types once, in a fixed order", () => {
+    expect(listenerTypesFrom([{ type: "keydown" }, { type: "scroll" }, { type: "click" }, { type: "click" }])).toEqual([
+      "click",
+      "keydown",
+    ]);
+    expect(listenerTypesFrom([{ type: "mouseover" }])).toEqual([]);
+  });
+});
+
+describe("queryableNodes", () => {
+  it("skips document-level elements and delegation roots", () => {
+    const items = Array.from({ length: 60 }, (_, i) => el(100 + i, "LI"));
+    const root: DomNode = {
+      nodeId: 1,
+      nodeType: 9,
+      nodeName: "#document",
+      children: [
+        el(2, "HTML", [
+          el(3, "HEAD", [el(4, "SCRIPT")]),
+          el(5, "BODY", [
+            el(6, "DIV", [el(7, "SPAN")]),
+            // 60 descendants: treated as an event delegation root
+            el(8, "UL", items),
+            { nodeId: 9, nodeType: 3, nodeName: "#text" },
+            { ...el(10, "X-CARD"), shadowRoots: [{ nodeId: 11, nodeType: 11, nodeName: "#document-fragment", children: [el(12, "BUTTON")] }] },
+          ]),
+        ]),
+      ],
+    };
+
+    const ids = queryableNodes(root);
+
+    expect(ids).toContain(6);
+    expect(ids).toContain(7);
+    expect(ids).toContain(12);
+    expect(ids).toContain(10);
+    expect(ids).toContain(100);
+    expect(ids).not.toContain(8);
+    expect(ids.filter((id) => id < 100 && ![6, 7, 10, 12].includes(id))).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview
+ * Unit tests for the exploration mode helpers.
+ *
+ * @remarks
+ * Only the trigger selection and element identity rules are covered; no browser is launched.
+ */
+
+import { describe, it, expect } from "vitest";
+import { elementKey, isSafeTrigger } from "../src/recon/explore";
+import type { ReconElement } from "../src/reporting/types";
+
+/**
+ * Builds a trigger element.
+ *
+ * @param overrides - Fields applied on top of an expandable button.
+ * @returns A {@link ReconElement}.
+ */
+function trigger(overrides: Partial<ReconElement> = {}): ReconElement {
+  return { type: "button", tagName: "button", typeAttr: "button", css: "#menu", trigger: "expand", ...overrides };
+}
+
+describe("isSafeTrigger", () => {
+  it("accepts disclosure controls, tabs, summaries and in-page links", () => {
+    expect(isSafeTrigger(trigger())).toBe(true);
+    expect(isSafeTrigger(trigger({ role: "tab", trigger: "tab" }))).toBe(true);
+    expect(isSafeTrigger(trigger({ type: "other", tagName: "summary", typeAttr: undefined, trigger: "details" }))).toBe(true);
+    expect(isSafeTrigger(trigger({ type: "link", tagName: "a", href: "#account", trigger: "popup" }))).toBe(true);
+  });
+
+  it("never activates navigation, form submission or disabled controls", () => {
+    expect(isSafeTrigger(trigger({ trigger: undefined }))).toBe(false);
+    expect(isSafeTrigger(trigger({ type: "link", tagName: "a", href: "/account" }))).toBe(false);
+    expect(isSafeTrigger(trigger({ typeAttr: "submit", form: { index: 0, name: "search" } }))).toBe(false);
+    expect(isSafeTrigger(trigger({ typeAttr: "submit" }))).toBe(true);
+    expect(isSafeTrigger(trigger({ ariaDisabled: true }))).toBe(false);
+  });
+});
+
+describe("elementKey", () => {
+  it("identifies elements by frame and selector, not by name or position", () => {
+    const before = trigger({ xpath: "/html/body/button", accessibleName: "Menu", boundingBox: { x: 0, y: 0, width: 9, height: 9 } });
+    const after  = trigger({ xpath: "/html/body/button", accessibleName: "Close menu" });
+
+    expect(elementKey(before)).toBe(elementKey(after));
+    expect(elementKey(trigger({ xpath: "/html/body/button", framePath: ["iframe#ad"] }))).not.toBe(elementKey(before));
+  });
+
+  it("keeps existing elements apart from content revealed before them", () => {
+    const save = (xpath: string): ReconElement => ({ type: "button", tagName: "button", role: "button", accessibleName: "Save", css: "button", xpath });
+    // Opening the menu inserted a "Delete" button where "Save" used to be
+    const existing = save("/html/body/div/button[1]");
+    const moved    = save("/html/body/div/button[2]");
+    const inserted: ReconElement = { ...existing, accessibleName: "Delete" };
+
+    expect(elementKey(moved)).toBe(elementKey(existing));
+    expect(elementKey(inserted)).not.toBe(elementKey(existing));
+    expect(elementKey({ ...inserted, testId: "delete" })).toBe(elementKey({ ...moved, testId: "delete" }));
+  });
+});
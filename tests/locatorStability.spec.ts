@@ -0,0 +1,33 @@
+/**
+ * @fileoverview
+ * Unit tests for {@link stabilityScore}.
+ */
+
+import { describe, it, expect } from "vitest";
+import { stabilityScore } from "../src/model/locatorStability";
+
+describe("stabilityScore", () => {
+  it("ranks test ids best and positional XPath worst", () => {
+    const scores = [
+      stabilityScore({ strategy: "testId", value: "save" }),
+      stabilityScore({ strategy: "role", role: "button", name: "Save" }),
+      stabilityScore({ strategy: "label", value: "Email" }),
+      stabilityScore({ strategy: "placeholder", value: "you@example.com" }),
+      stabilityScore({ strategy: "css", value: "#save" }),
+      stabilityScore({ strategy: "xpath", value: '//*[@id="save"]' }),
+      stabilityScore({ strategy: "css", value: "button" }),
+      stabilityScore({ strategy: "xpath", value: "/html[1]/body[1]/button[3]" }),
+    ];
+
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+  });
+
+  it("penalizes generated ids and weak shadow chain links", () => {
+    expect(stabilityScore({ strategy: "css", value: "#ember1234" })).toBeLessThan(
+      stabilityScore({ strategy: "css", value: "#checkout" })
+    );
+    expect(stabilityScore({ strategy: "css", value: "#app >> button" })).toBe(
+      stabilityScore({ strategy: "css", value: "button" })
+    );
+  });
+});
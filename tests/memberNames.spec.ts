@@ -0,0 +1,89 @@
+/**
+ * @fileoverview
+ * Unit tests for member name derivation and overrides.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildPageModel } from "../src/model/buildPageModel";
+import { memberNameFor, parseNameOverrides } from "../src/model/memberNames";
+import type { ReconReport } from "../src/reporting/types";
+
+/**
+ * Builds a baseline {@link ReconReport} object suitable for unit testing.
+ *
+ * @param elements - Scanned elements.
+ * @returns A complete {@link ReconReport} object.
+ */
+function baseReport(elements: ReconReport["elements"]): ReconReport {
+  return {
+    url: "https://www.example.com",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    counts: { button: 0, link: 0, input: 0, select: 0, textarea: 0, other: 0 },
+    elements,
+  };
+}
+
+describe("memberNameFor", () => {
+  it("builds camelCase names from the name and kind", () => {
+    expect(memberNameFor({ kind: "textbox", name: "Email" })).toBe("emailInput");
+    expect(memberNameFor({ kind: "textbox", name: "Search field" })).toBe("searchField");
+    expect(memberNameFor({ kind: "button", name: "Click here to sign in now" })).toBe("signInButton");
+    expect(memberNameFor({ kind: "button", name: "Submit your order now!" })).toBe("submitOrderButton");
+    expect(memberNameFor({ kind: "link", name: "Privacy" }, "footer-2")).toBe("footerPrivacyLink");
+  });
+
+  it("keeps names valid identifiers", () => {
+    expect(memberNameFor({ kind: "button", name: "Click here" })).toBe("clickHereButton");
+    expect(memberNameFor({ kind: "link", name: "2024 report" })).toBe("link2024ReportLink");
+    expect(memberNameFor({ kind: "other", name: "Delete" })).toBe("deleteElement");
+    expect(memberNameFor({ kind: "other" })).toBe("element");
+  });
+});
+
+describe("buildPageModel member names", () => {
+  it("qualifies colliding names with their section, then numbers them", () => {
+    const model = buildPageModel(
+      baseReport([
+        { type: "input", tagName: "input", id: "email", labelText: "Email" },
+        { type: "link", tagName: "a", text: "Home", region: { kind: "header", css: "header" } },
+        { type: "link", tagName: "a", text: "Home", region: { kind: "footer", css: "footer" } },
+        { type: "button", tagName: "button", text: "More" },
+        { type: "button", tagName: "button", text: "More" },
+      ] as ReconReport["elements"])
+    );
+
+    expect(model.elements.map((el) => el.memberName)).toEqual([
+      "emailInput",
+      "headerHomeLink",
+      "footerHomeLink",
+      "moreButton",
+      "moreButton2",
+    ]);
+  });
+
+  it("applies overrides by element id and derives the rest around them", () => {
+    const elements = [
+      { type: "button", tagName: "button", text: "Submit your order now" },
+      { type: "button", tagName: "button", text: "Place order" },
+    ] as ReconReport["elements"];
+    const overrides = parseNameOverrides({ "button-submit-your-order-now": "placeOrderButton" }, "names.yaml");
+
+    const model = buildPageModel(baseReport(elements), undefined, { nameOverrides: overrides });
+
+    expect(model.elements.map((el) => [el.id, el.memberName])).toEqual([
+      ["button-submit-your-order-now", "placeOrderButton"],
+      ["button-place-order", "placeOrderButton2"],
+    ]);
+  });
+
+  it("rejects overrides that are not distinct identifiers", () => {
+    expect(() => parseNameOverrides({ a: "sign in" }, "names.yaml")).toThrow('names.yaml: name for "a" must be an identifier, got "sign in"');
+    expect(() => parseNameOverrides({ a: "page" }, "names.yaml")).toThrow('names.yaml: name for "a" is reserved: page');
+    expect(() => parseNameOverrides({ a: "save", b: "save" }, "names.yaml")).toThrow('names.yaml: "b" and "a" are both named save');
+    expect(() => parseNameOverrides({ a: "fillEmailInput", b: "emailInput" }, "names.yaml")).toThrow(
+      'names.yaml: name for "a" is the action method of "b" (emailInput)'
+    );
+    expect(() => parseNameOverrides({ a: "setTermsChecked", b: "terms" }, "names.yaml")).toThrow('action method of "b"');
+    expect(parseNameOverrides({ a: "filler", b: "settings", c: "er" }, "names.yaml")).toEqual({ a: "filler", b: "settings", c: "er" });
+  });
+});
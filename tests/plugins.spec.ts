@@ -0,0 +1,86 @@
+/**
+ * @fileoverview
+ * Unit tests for the plugin API and plugin loading.
+ *
+ * @remarks
+ * `processElements` hooks receive a stub page; none of these tests drive a browser.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import type { Page } from "@playwright/test";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadPlugins } from "../src/config/loadPlugins";
+import { candidateRules, processElements, validatePlugin, type ReconPlugin } from "../src/recon/plugins";
+import type { ReconElement } from "../src/reporting/types";
+
+const context = { url: "https://example.com/", page: {} as Page };
+
+describe("candidateRules", () => {
+  it("merges selectors and tag mappings, later plugins winning", () => {
+    const rules = candidateRules([
+      { name: "a", candidateSelectors: ["[ng-click]"], tagTypes: { "MY-BUTTON": "button", "x-select": "other" } },
+      { name: "b", candidateSelectors: ["[ng-click]", "[v-on\\:click]"], tagTypes: { "x-select": "select" } },
+    ]);
+
+    expect(rules.tagTypes).toEqual({ "my-button": "button", "x-select": "select" });
+    expect(rules.candidateSelectors).toEqual(["[ng-click]", "[v-on\\:click]", "my-button", "x-select"]);
+  });
+});
+
+describe("processElements", () => {
+  it("chains hooks, accepting in-place edits and replacements", async () => {
+    const elements: ReconElement[] = [
+      { type: "other", tagName: "my-button", accessibleName: "Save" },
+      { type: "other", tagName: "div", accessibleName: "Chat" },
+    ];
+    const plugins: ReconPlugin[] = [
+      { name: "rename", processElements: (els) => void els.forEach((el) => (el.accessibleName = el.accessibleName?.toUpperCase())) },
+      { name: "drop-chat", processElements: async (els) => els.filter((el) => el.accessibleName !== "CHAT") },
+    ];
+
+    expect(await processElements(plugins, elements, context)).toEqual([
+      { type: "other", tagName: "my-button", accessibleName: "SAVE" },
+    ]);
+  });
+
+  it("names the plugin whose hook failed", async () => {
+    const plugins: ReconPlugin[] = [{ name: "broken", processElements: () => { throw new Error("boom"); } }];
+
+    await expect(processElements(plugins, [], context)).rejects.toThrow('Plugin "broken" failed: boom');
+  });
+});
+
+describe("validatePlugin / loadPlugins", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("rejects malformed plugins", () => {
+    expect(() => validatePlugin({ tagTypes: { "my-button": "widget" }, processElements: 1 }, "acme.js")).toThrow(
+      [
+        "Invalid plugin acme.js:",
+        "  - name: expected a non-empty string",
+        "  - tagTypes.my-button: expected one of button, link, input, select, textarea, other",
+        "  - processElements: expected a function",
+      ].join("\n")
+    );
+  });
+
+  it("loads plugin modules relative to a directory and passes objects through", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "recon-plugins-"));
+    await fs.writeFile(
+      path.join(dir, "acme.js"),
+      'module.exports = [{ name: "acme", tagTypes: { "acme-button": "button" } }, { name: "acme-forms" }];'
+    );
+
+    const plugins = loadPlugins(["./acme.js", { name: "inline" }], dir);
+
+    expect(plugins.map((p) => p.name)).toEqual(["acme", "acme-forms", "inline"]);
+    expect(() => loadPlugins(["./missing.js"], dir)).toThrow("Cannot find plugin module: ./missing.js");
+  });
+});
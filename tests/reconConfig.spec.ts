@@ -0,0 +1,131 @@
+/**
+ * @fileoverview
+ * Unit tests for project config validation, discovery and CLI precedence.
+ *
+ * @remarks
+ * Commands are built with Commander but never run their actions.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { Command } from "commander";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyConfig } from "../src/cli/configOptions";
+import { parseViewport } from "../src/cli/browserOptions";
+import { findConfigFile, loadConfig } from "../src/config/loadConfig";
+import { validateConfig } from "../src/config/reconConfig";
+import { contextOptions } from "../src/recon/browser";
+
+/**
+ * Builds a `gen`-like command with the options the config can fill.
+ *
+ * @returns An unparsed command.
+ */
+function genCommand(): Command {
+  return new Command("gen")
+    .exitOverride()
+    .option("-o, --output <dir>", "Output directory", "reports")
+    .option("--format <formats>", "Formats", (raw: string) => raw.split(","), ["json"])
+    .option("--no-feature", "Skip the feature");
+}
+
+describe("validateConfig", () => {
+  it("accepts a complete config", () => {
+    const config = {
+      output: { reports: "out/reports", generated: "out/gen" },
+      browser: { headed: false, viewport: { width: 390, height: 844 }, locale: "de-DE", device: "iPhone 13" },
+      scan: { testIdAttributes: ["data-qa"], excludeSelectors: ["#cookie-banner"], formats: ["json", "html"] },
+      generate: { pageObject: true, feature: false, seed: 42 },
+    };
+
+    expect(validateConfig(config, "recon.config.json")).toBe(config);
+  });
+
+  it("reports every problem with its path", () => {
+    expect(() =>
+      validateConfig(
+        {
+          scan: { testIdAttribute: "data-qa", formats: ["pdf"] },
+          browser: { viewport: { width: "1280" } },
+          generate: { seed: -1 },
+        },
+        "recon.config.json"
+      )
+    ).toThrow(
+      [
+        "Invalid config recon.config.json:",
+        "  - scan.testIdAttribute: unknown setting",
+        '  - scan.formats: expected a non-empty array of "json", "html"',
+        "  - browser.viewport.width: expected a non-negative integer",
+        "  - browser.viewport.height: required",
+        "  - generate.seed: expected a non-negative integer",
+      ].join("\n")
+    );
+  });
+});
+
+describe("findConfigFile / loadConfig", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("finds the config in the working directory only and resolves its paths from the config file", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "recon-config-"));
+    const nested = path.join(dir, "a", "b");
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, "recon.config.json"),
+      JSON.stringify({
+        output: { reports: "r", generated: "../g" },
+        generate: { names: "names.yaml" },
+        plugins: ["./plugins/tag.js", "recon-plugin-x"],
+      })
+    );
+    expect(findConfigFile(nested)).toBeUndefined();
+
+    const file = findConfigFile(dir);
+
+    expect(file).toBe(path.join(dir, "recon.config.json"));
+    expect(await loadConfig(file!)).toEqual({
+      output: { reports: path.join(dir, "r"), generated: path.join(path.dirname(dir), "g") },
+      generate: { names: path.join(dir, "names.yaml") },
+      plugins: [path.join(dir, "plugins", "tag.js"), "recon-plugin-x"],
+    });
+  });
+});
+
+describe("applyConfig", () => {
+  it("fills options the user did not pass and keeps the ones they did", () => {
+    const command = genCommand();
+    command.parse(["--format", "html"], { from: "user" });
+
+    applyConfig(command, {
+      output: { generated: "generated" },
+      generate: { formats: ["json"], feature: false },
+    });
+
+    expect(command.opts()).toEqual({ output: "generated", format: ["html"], feature: false });
+    expect(command.getOptionValueSource("output")).toBe("config");
+    expect(command.getOptionValueSource("format")).toBe("cli");
+  });
+});
+
+describe("contextOptions", () => {
+  it("applies a device preset with explicit settings on top", () => {
+    const options = contextOptions({ device: "iPhone 13", viewport: { width: 400, height: 800 }, locale: "fr-FR" });
+
+    expect(options).toMatchObject({ viewport: { width: 400, height: 800 }, locale: "fr-FR", isMobile: true });
+    expect(options.userAgent).toContain("iPhone");
+    expect(options).not.toHaveProperty("defaultBrowserType");
+  });
+
+  it("rejects unknown devices and viewports", () => {
+    expect(() => contextOptions({ device: "Nokia 3310" })).toThrow('Unknown device preset: "Nokia 3310"');
+    expect(parseViewport("1280x800")).toEqual({ width: 1280, height: 800 });
+    expect(() => parseViewport("1280")).toThrow("--viewport must be WIDTHxHEIGHT");
+  });
+});
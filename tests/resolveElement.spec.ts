@@ -0,0 +1,95 @@
+/**
+ * @fileoverview
+ * Unit tests for self-healing resolution and the healing report.
+ *
+ * @remarks
+ * The page is a stand-in whose locators report fixed match counts; no browser is launched.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Page } from "@playwright/test";
+import { resolveElement } from "../src/runtime/resolveElement";
+import { createHealingReport, formatHealingReport } from "../src/runtime/healingReport";
+import type { ElementModel } from "../src/model/pageModel";
+
+/**
+ * Builds a page whose locators match a fixed number of nodes.
+ *
+ * @param counts - Match count per locator call, e.g. `{ 'getByTestId("cart")': 0 }` (missing: 0).
+ * @returns A page stand-in.
+ */
+function fakePage(counts: Record<string, number>): Page {
+  const locator = (call: string) => ({ count: async () => counts[call] ?? 0 });
+  const root = {
+    url: () => "https://shop.example/",
+    frameLocator: () => root,
+    getByTestId: (v: string) => locator(`getByTestId(${JSON.stringify(v)})`),
+    getByRole: (r: string, o?: { name: string }) => locator(`getByRole(${JSON.stringify(r)}, ${JSON.stringify(o?.name)})`),
+    getByLabel: (v: string) => locator(`getByLabel(${JSON.stringify(v)})`),
+    getByPlaceholder: (v: string) => locator(`getByPlaceholder(${JSON.stringify(v)})`),
+    locator: (v: string) => locator(`locator(${JSON.stringify(v)})`),
+  };
+  return root as unknown as Page;
+}
+
+const addToCart: ElementModel = {
+  id: "button-add-to-cart",
+  kind: "button",
+  name: "Add to cart",
+  locators: [
+    { strategy: "testId", value: "cart" },
+    { strategy: "role", role: "button" },
+    { strategy: "role", role: "button", name: "Add to cart" },
+    { strategy: "css", value: "button.add" },
+  ],
+};
+
+describe("resolveElement", () => {
+  it("uses the primary hint when it is unique", async () => {
+    const lines: string[] = [];
+    const report = createHealingReport();
+
+    const resolved = await resolveElement(fakePage({ 'getByTestId("cart")': 1 }), addToCart, { report, log: (l) => lines.push(l) });
+
+    expect(resolved).toMatchObject({ hint: { strategy: "testId" }, index: 0, healed: false });
+    expect(report.entries).toEqual([]);
+    expect(lines).toEqual([]);
+  });
+
+  it("falls back to the next unique hint, skipping bare roles, and records the healing", async () => {
+    const lines: string[] = [];
+    const report = createHealingReport();
+    const page = fakePage({ 'getByRole("button", "Add to cart")': 2, 'locator("button.add")': 1 });
+
+    const first  = await resolveElement(page, addToCart, { report, log: (l) => lines.push(l) });
+    await resolveElement(page, addToCart, { report, log: () => undefined });
+
+    expect(first).toMatchObject({ hint: { strategy: "css", value: "button.add" }, index: 3, healed: true });
+    expect(first.attempts.map((a) => a.matches)).toEqual([0, 2, 1]);
+    expect(lines).toEqual(['[heal] Add to cart: css "button.add" (primary testId "cart" matched 0)']);
+    expect(report.entries).toEqual([
+      {
+        element: "button-add-to-cart",
+        name: "Add to cart",
+        url: "https://shop.example/",
+        primary: { strategy: "testId", value: "cart" },
+        primaryMatches: 0,
+        healedBy: { strategy: "css", value: "button.add" },
+        occurrences: 2,
+      },
+    ]);
+    expect(formatHealingReport(report)).toBe(
+      'Add to cart (button-add-to-cart) on https://shop.example/: testId "cart" matched 0 → css "button.add" (2x)'
+    );
+  });
+
+  it("fails after the timeout when no hint is unique, and reports it", async () => {
+    const report = createHealingReport();
+
+    await expect(resolveElement(fakePage({}), addToCart, { report, timeoutMs: 0 })).rejects.toThrow(
+      'Cannot resolve Add to cart: no locator hint matched exactly one element (testId "cart" matched 0, role button "Add to cart" matched 0, css "button.add" matched 0)'
+    );
+    expect(report.entries[0]).toMatchObject({ primaryMatches: 0, occurrences: 1 });
+    expect(report.entries[0].healedBy).toBeUndefined();
+  });
+});
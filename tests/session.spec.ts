@@ -0,0 +1,48 @@
+/**
+ * @fileoverview
+ * Unit tests for login recipe parsing.
+ *
+ * @remarks
+ * These tests validate recipe normalization only; they do not launch a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parse as parseYaml } from "yaml";
+import { parseLoginRecipe } from "../src/recon/session";
+
+describe("parseLoginRecipe", () => {
+  it("normalizes a YAML recipe with a steps list", () => {
+    const recipe = parseYaml(`
+steps:
+  - goto: https://app.example.com/login
+  - fill: "#email"
+    value: \${RECON_USER}
+  - click: "button[type=submit]"
+  - waitFor: "#dashboard"
+  - waitFor: { url: "**/home" }
+`);
+
+    expect(parseLoginRecipe(recipe)).toEqual([
+      { action: "goto", url: "https://app.example.com/login" },
+      { action: "fill", selector: "#email", value: "${RECON_USER}" },
+      { action: "click", selector: "button[type=submit]" },
+      { action: "waitFor", selector: "#dashboard" },
+      { action: "waitFor", url: "**/home" },
+    ]);
+  });
+
+  it("accepts a bare list of steps", () => {
+    expect(parseLoginRecipe([{ click: "#go" }])).toEqual([{ action: "click", selector: "#go" }]);
+  });
+
+  it("rejects malformed recipes with the offending step number", () => {
+    expect(() => parseLoginRecipe({})).toThrow(/list of steps/);
+    expect(() => parseLoginRecipe([{ goto: "/" }, { hover: "#x" }])).toThrow(/step 2/);
+    expect(() => parseLoginRecipe([{ click: "" }])).toThrow(/"click" must be a non-empty string/);
+    expect(() => parseLoginRecipe([{ goto: "/" }, { fill: "#email" }])).toThrow(/step 2: "fill" needs a "value"/);
+    expect(parseLoginRecipe([{ fill: "#pin", value: 1234 }, { fill: "#note", value: "" }])).toEqual([
+      { action: "fill", selector: "#pin", value: "1234" },
+      { action: "fill", selector: "#note", value: "" },
+    ]);
+  });
+});
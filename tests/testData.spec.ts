@@ -0,0 +1,205 @@
+/**
+ * @fileoverview
+ * Unit tests for form test data generation and the data-driven spec generator.
+ *
+ * @remarks
+ * These tests validate generated values and source text; they do not run a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildTestData } from "../src/gen/testData";
+import { renderTestDataSpec } from "../src/gen/writeTestDataSpec";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+const email: ElementModel = {
+  id: "input-email-0",
+  kind: "textbox",
+  name: "Email",
+  inputType: "email",
+  constraints: { required: true, maxLength: 40 },
+  locators: [{ strategy: "label", value: "Email" }],
+};
+
+const age: ElementModel = {
+  id: "input-age-1",
+  kind: "textbox",
+  name: "Age",
+  inputType: "number",
+  constraints: { min: "18", max: "99" },
+  locators: [{ strategy: "css", value: "#age" }],
+};
+
+const zip: ElementModel = {
+  id: "input-zip-2",
+  kind: "textbox",
+  name: "Zip",
+  inputType: "text",
+  constraints: { pattern: "[0-9]{5}" },
+  locators: [{ strategy: "css", value: "#zip" }],
+};
+
+const terms: ElementModel = {
+  id: "input-terms-3",
+  kind: "checkbox",
+  name: "Terms",
+  constraints: { required: true },
+  locators: [{ strategy: "label", value: "Terms" }],
+};
+
+const submit: ElementModel = {
+  id: "button-sign-up-4",
+  kind: "button",
+  name: "Sign up",
+  locators: [{ strategy: "role", role: "button", name: "Sign up" }],
+};
+
+const search: ElementModel = { id: "input-q-5", kind: "textbox", name: "Search", locators: [{ strategy: "css", value: "#q" }] };
+
+/**
+ * Builds a page model with one signup form and a search box outside it.
+ *
+ * @returns A complete {@link PageModel} object.
+ */
+function baseModel(): PageModel {
+  return {
+    url: "https://www.example.com/signup",
+    domain: "example.com",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    elements: [email, age, zip, terms, submit, search],
+    forms: [{ id: "form-signup", fields: [email.id, age.id, zip.id, terms.id], submit: submit.id }],
+  };
+}
+
+describe("buildTestData", () => {
+  it("is reproducible for a seed", () => {
+    expect(buildTestData(baseModel(), 7)).toEqual(buildTestData(baseModel(), 7));
+    expect(buildTestData(baseModel(), 7).forms[0].valid).not.toEqual(buildTestData(baseModel(), 8).forms[0].valid);
+  });
+
+  it("generates valid values that satisfy the captured constraints", () => {
+    const [signup, page] = buildTestData(baseModel(), 1).forms;
+
+    expect(signup.form).toBe("form-signup");
+    expect(signup.submit).toBe(submit.id);
+    expect(signup.valid[email.id]).toMatch(/^[a-z.0-9]+@example\.com$/);
+    expect(Number(signup.valid[age.id])).toBeGreaterThanOrEqual(18);
+    expect(Number(signup.valid[age.id])).toBeLessThanOrEqual(99);
+    expect(signup.valid[zip.id]).toBe("12345");
+    expect(signup.valid[terms.id]).toBe(true);
+
+    expect(page.form).toBe("page");
+    expect(Object.keys(page.valid)).toEqual([search.id]);
+  });
+
+  it("produces boundary and invalid variants that change one field", () => {
+    const [signup] = buildTestData(baseModel(), 1).forms;
+    const byRule   = new Map(signup.variants.map((v) => [v.rule, v]));
+
+    expect(signup.variants.map((v) => v.rule)).toEqual([
+      "empty-required",
+      "max-length",
+      "too-long",
+      "malformed-email",
+      "at-min",
+      "below-min",
+      "at-max",
+      "above-max",
+      "pattern-mismatch",
+      "empty-required",
+    ]);
+    expect((byRule.get("too-long")!.values[email.id] as string).length).toBe(41);
+    expect(byRule.get("too-long")!.values[email.id]).toMatch(/@example\.com$/);
+    expect(byRule.get("below-min")).toMatchObject({ field: age.id, expect: "invalid", values: { [age.id]: "17" } });
+    expect(byRule.get("at-max")).toMatchObject({ expect: "valid", values: { [age.id]: "99", [zip.id]: "12345" } });
+    expect(signup.variants.at(-1)).toMatchObject({ field: terms.id, values: { [terms.id]: false } });
+  });
+
+  it("names variants after the field id so fields sharing a name get distinct titles", () => {
+    const model: PageModel = {
+      ...baseModel(),
+      elements: [email, { ...email, id: "input-email-9" }],
+      forms: [{ id: "form-signup", fields: [email.id, "input-email-9"] }],
+    };
+    const names = buildTestData(model, 1).forms[0].variants.map((v) => v.name);
+
+    expect(names).toContain("Email (input-email-0): empty required");
+    expect(names).toContain("Email (input-email-9): empty required");
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it("formats week and color values and leaves file inputs out with a note", () => {
+    const field = (id: string, inputType: string, constraints?: ElementModel["constraints"]): ElementModel => ({
+      id,
+      kind: "textbox",
+      inputType,
+      constraints,
+      locators: [{ strategy: "css", value: `#${id}` }],
+    });
+    const model: PageModel = {
+      ...baseModel(),
+      elements: [field("week", "week", { min: "2026-W10", max: "2026-W12" }), field("color", "color"), field("upload", "file")],
+      forms: undefined,
+    };
+
+    for (const seed of [1, 2, 3]) {
+      const [page] = buildTestData(model, seed).forms;
+      expect(["2026-W10", "2026-W11", "2026-W12"]).toContain(page.valid.week);
+      expect(page.valid.color).toMatch(/^#[0-9a-f]{6}$/);
+      expect(page.valid).not.toHaveProperty("upload");
+      expect(page.notes).toEqual(["upload: file inputs cannot be filled; set files with setInputFiles"]);
+    }
+  });
+});
+
+describe("buildTestData steps", () => {
+  it("keeps number values on the step grid from min, or from 0 without one", () => {
+    const field = (id: string, constraints: ElementModel["constraints"]): ElementModel => ({
+      id,
+      kind: "textbox",
+      inputType: "number",
+      constraints,
+      locators: [{ strategy: "css", value: `#${id}` }],
+    });
+    const model: PageModel = {
+      ...baseModel(),
+      elements: [field("qty", { step: "5" }), field("cap", { max: "12", step: "5" }), field("odd", { min: "3", max: "20", step: "4" })],
+      forms: undefined,
+    };
+
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const [page] = buildTestData(model, seed).forms;
+      expect(Number(page.valid.qty) % 5 === 0).toBe(true);
+      expect(Number(page.valid.cap) % 5 === 0).toBe(true);
+      expect(Number(page.valid.cap)).toBeLessThanOrEqual(12);
+      expect((Number(page.valid.odd) - 3) % 4 === 0).toBe(true);
+      expect(Number(page.valid.odd)).toBeLessThanOrEqual(20);
+    }
+
+    const atMax = buildTestData(model, 1).forms[0].variants.filter((v) => v.rule === "at-max");
+    expect(atMax.map((v) => [v.field, v.values[v.field]])).toEqual([["cap", "10"], ["odd", "19"]]);
+  });
+});
+
+describe("renderTestDataSpec", () => {
+  it("maps fixture fields and submit buttons to Playwright locators", () => {
+    const model   = baseModel();
+    const fixture = buildTestData(model, 1);
+    const source  = renderTestDataSpec(model, fixture, "example-com.testdata.json");
+
+    expect(source).toContain('path.join(__dirname, "example-com.testdata.json")');
+    expect(source).toContain('"input-email-0": { kind: "textbox", locate: (page) => page.getByLabel("Email") },');
+    expect(source).toContain('"form-signup": (page) => page.getByRole("button", { name: "Sign up" }),');
+    expect(source).toContain("for (const variant of form.variants) {");
+  });
+
+  it("asserts that invalid values block submission and leaves success checks to the user", () => {
+    const model  = baseModel();
+    const source = renderTestDataSpec(model, buildTestData(model, 1), "example-com.testdata.json");
+
+    expect(source).not.toContain("TODO");
+    expect(source).toContain('  // "form-signup": async (page) => { await expect(page).toHaveURL(/success/); },');
+    expect(source).toContain("      test.skip(!successCheck, `no SUCCESS_CHECKS entry for ${form.form}`);");
+    expect(source).toContain('          expect(after.valid, "field still invalid after submit").toBe(false);');
+    expect(source).toContain('          expect(after.message, "validation message").not.toBe("");');
+  });
+});
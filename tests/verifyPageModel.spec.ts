@@ -0,0 +1,121 @@
+/**
+ * @fileoverview
+ * Unit tests for page model verification.
+ *
+ * @remarks
+ * The page is a stand-in whose locators report fixed match counts and states; no browser is launched.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Page } from "@playwright/test";
+import { formatVerifyTable, verifyPageModel } from "../src/recon/verifyPageModel";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+type FakeNode = { count: number; visible?: boolean; enabled?: boolean };
+
+/**
+ * Builds a page whose locators resolve to fixed results.
+ *
+ * @param nodes - Result per locator call, e.g. `{ 'getByTestId("save")': { count: 1 } }` (missing: no match).
+ * @returns A page stand-in.
+ */
+function fakePage(nodes: Record<string, FakeNode>): Page {
+  const locator = (call: string) => {
+    const node = nodes[call] ?? { count: 0 };
+    return {
+      count: async () => node.count,
+      isVisible: async () => node.visible ?? true,
+      isEnabled: async () => node.enabled ?? true,
+    };
+  };
+  const root = {
+    url: () => "https://www.example.com/",
+    frameLocator: () => root,
+    getByTestId: (v: string) => locator(`getByTestId(${JSON.stringify(v)})`),
+    getByRole: (r: string, o?: { name: string }) => locator(`getByRole(${JSON.stringify(r)}, ${JSON.stringify(o?.name)})`),
+    getByLabel: (v: string) => locator(`getByLabel(${JSON.stringify(v)})`),
+    getByPlaceholder: (v: string) => locator(`getByPlaceholder(${JSON.stringify(v)})`),
+    locator: (v: string) => locator(`locator(${JSON.stringify(v)})`),
+  };
+  return root as unknown as Page;
+}
+
+/**
+ * Builds a baseline {@link PageModel} for unit testing.
+ *
+ * @param elements - Elements to include in the model.
+ * @returns A complete {@link PageModel} object.
+ */
+function baseModel(elements: ElementModel[]): PageModel {
+  return { url: "https://www.example.com/", domain: "example.com", scannedAt: "2026-01-18T00:00:00.000Z", elements };
+}
+
+describe("verifyPageModel", () => {
+  it("classifies elements by their primary and fallback hints", async () => {
+    const model = baseModel([
+      {
+        id: "save",
+        kind: "button",
+        name: "Save",
+        locators: [
+          { strategy: "testId", value: "save", matches: 1 },
+          { strategy: "css", value: "#save" },
+        ],
+      },
+      {
+        id: "email",
+        kind: "textbox",
+        name: "Email",
+        locators: [
+          { strategy: "label", value: "Email" },
+          { strategy: "css", value: "input.email" },
+        ],
+      },
+      { id: "delete", kind: "button", name: "Delete", flags: { disabled: true }, locators: [{ strategy: "role", role: "button", name: "Delete" }] },
+      { id: "menu-item", kind: "link", name: "Logout", flags: { revealed: true }, locators: [{ strategy: "role", role: "link", name: "Logout" }] },
+    ]);
+    const page = fakePage({
+      'getByTestId("save")': { count: 1 },
+      'locator("#save")': { count: 2 },
+      'locator("input.email")': { count: 1 },
+      'getByRole("button", "Delete")': { count: 1, enabled: true },
+      'getByRole("link", "Logout")': { count: 1, visible: false },
+    });
+
+    const result = await verifyPageModel(page, model);
+
+    expect(result.elements.map((e) => e.status)).toEqual(["pass", "degraded", "fail", "pass"]);
+    expect(result.summary).toEqual({ pass: 2, degraded: 1, fail: 1 });
+    expect(result.passed).toBe(false);
+    expect(result.elements[0].hints).toEqual([
+      { hint: { strategy: "testId", value: "save" }, matches: 1, visible: true, enabled: true, pass: true, problem: undefined },
+      { hint: { strategy: "css", value: "#save" }, matches: 2, pass: false, problem: "2 matches" },
+    ]);
+    expect(result.elements[1].hints[0].problem).toBe("no match");
+    expect(result.elements[2].hints[0].problem).toBe("enabled (recorded disabled)");
+  });
+
+  it("formats a pass/fail table with one row per hint", async () => {
+    const model  = baseModel([
+      {
+        id: "save",
+        kind: "button",
+        name: "Save",
+        locators: [
+          { strategy: "testId", value: "save" },
+          { strategy: "css", value: "#save" },
+        ],
+      },
+    ]);
+    const result = await verifyPageModel(fakePage({ 'getByTestId("save")': { count: 1 } }), model);
+
+    expect(formatVerifyTable(result).split("\n")).toEqual([
+      "Verifying https://www.example.com/ against the model scanned 2026-01-18T00:00:00.000Z",
+      "  STATUS  ELEMENT        HINT           MATCHES  STATE             RESULT",
+      '  pass    button "Save"  testId "save"  1        visible, enabled  ok',
+      '                         css "#save"    0                          no match',
+      "  pass: 1, degraded: 0, fail: 0",
+      "All elements resolved.",
+    ]);
+  });
+});
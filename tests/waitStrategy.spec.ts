@@ -0,0 +1,46 @@
+/**
+ * @fileoverview
+ * Unit tests for the DOM-stable wait loop.
+ *
+ * @remarks
+ * The sampler is faked, so these tests do not launch a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { waitForStableSignature } from "../src/recon/waitStrategy";
+
+/**
+ * Builds a sampler that returns each signature in turn, then repeats the last.
+ *
+ * @param signatures - Signatures to return.
+ * @returns A sampler function.
+ */
+function sequence(signatures: string[]): () => Promise<string> {
+  let i = 0;
+  return async () => signatures[Math.min(i++, signatures.length - 1)];
+}
+
+describe("waitForStableSignature", () => {
+  it("settles once the signature stops changing", async () => {
+    const settled = await waitForStableSignature(sequence(["1:a", "2:b", "3:c", "3:c"]), 150, 2_000);
+    expect(settled).toBe(true);
+  });
+
+  it("reports a timeout when the signature keeps changing", async () => {
+    let n = 0;
+    const settled = await waitForStableSignature(async () => String(n++), 300, 500);
+    expect(settled).toBe(false);
+  });
+
+  it("keeps polling through samples that fail while the page navigates", async () => {
+    let n = 0;
+    const sample = async () => {
+      if (n++ < 3) throw new Error("Execution context was destroyed, most likely because of a navigation");
+      return "1:a";
+    };
+
+    expect(await waitForStableSignature(sample, 150, 2_000)).toBe(true);
+    expect(n).toBeGreaterThan(3);
+    expect(await waitForStableSignature(() => Promise.reject(new Error("gone")), 100, 400)).toBe(false);
+  });
+});
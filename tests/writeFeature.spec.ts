@@ -0,0 +1,126 @@
+/**
+ * @fileoverview
+ * Unit tests for the Gherkin feature and step-definition generators.
+ *
+ * @remarks
+ * These tests validate generated text only; they do not run Cucumber.
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderFeature, renderStepDefinitions } from "../src/gen/writeFeature";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+/**
+ * Builds a baseline {@link PageModel} for unit testing.
+ *
+ * @param elements - Elements to include in the model.
+ * @returns A complete {@link PageModel} object.
+ */
+function baseModel(elements: ElementModel[] = []): PageModel {
+  return {
+    url: "https://www.example.com/",
+    domain: "example.com",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    elements,
+  };
+}
+
+const elements: ElementModel[] = [
+  { id: "a", kind: "button", name: "Sign in", role: "button", locators: [{ strategy: "testId", value: "sign-in" }] },
+  { id: "b", kind: "textbox", name: "Email", locators: [{ strategy: "label", value: "Email" }] },
+  { id: "c", kind: "link", name: "Help", href: "/help", locators: [{ strategy: "css", value: "a.help" }] },
+  { id: "d", kind: "link", name: "Help", locators: [{ strategy: "role", role: "link", name: "Help" }] },
+  { id: "e", kind: "other", name: "Pipe | Cell", locators: [] },
+];
+
+describe("renderFeature", () => {
+  it("emits generic steps by element kind", () => {
+    const feature = renderFeature(baseModel(elements));
+
+    expect(feature).toContain('Given I open "https://www.example.com/"');
+    expect(feature).toContain('When I click the "Sign in" button');
+    expect(feature).toMatch(/When I fill the "Email" field with "[A-Z][a-z]+ [a-z ]+"/);
+    expect(feature).toContain('Then the "Help" link points to "/help"');
+    expect(feature).not.toContain('"Help (2)" link points to');
+  });
+
+  it("emits select, checkbox and radio steps for form fields", () => {
+    const feature = renderFeature(
+      baseModel([
+        {
+          id: "f",
+          kind: "select",
+          name: "Country",
+          options: [{ value: "", label: "Choose…" }, { value: "nl", label: "Netherlands" }],
+          locators: [{ strategy: "label", value: "Country" }],
+        },
+        { id: "g", kind: "checkbox", name: "Terms", locators: [{ strategy: "label", value: "Terms" }] },
+        { id: "h", kind: "radio", name: "Pro plan", locators: [{ strategy: "label", value: "Pro plan" }] },
+      ])
+    );
+
+    expect(feature).toContain('When I select "nl" in the "Country" dropdown');
+    expect(feature).toContain('When I check the "Terms" checkbox');
+    expect(feature).toContain('When I choose the "Pro plan" option');
+  });
+
+  it("lists the elements the step definitions can locate, with escaped cells", () => {
+    const pipe: ElementModel = { id: "p", kind: "other", name: "A | B", locators: [{ strategy: "css", value: ".ab" }] };
+    const feature = renderFeature(baseModel([...elements, pipe]));
+    const rows = feature.split("\n").filter((l) => l.trim().startsWith("|"));
+
+    // Header plus a-d and p; e has no usable hint, so no ELEMENTS entry
+    expect(rows).toHaveLength(6);
+    expect(feature).toContain("Help (2)");
+    expect(feature).toContain("A \\| B");
+    expect(feature).not.toContain("Pipe");
+    expect(feature).toContain("  Skipped (no usable locator): e");
+  });
+});
+
+describe("renderFeature field values and table", () => {
+  it("fills values matching the input type and leaves out fields that cannot be filled", () => {
+    const field = (id: string, inputType: string): ElementModel => ({
+      id,
+      kind: "textbox",
+      name: id,
+      inputType,
+      locators: [{ strategy: "css", value: `#${id}` }],
+    });
+    const feature = renderFeature(baseModel([field("qty", "number"), field("week", "week"), field("tint", "color"), field("upload", "file")]));
+
+    expect(feature).toMatch(/When I fill the "qty" field with "\d+"/);
+    expect(feature).toMatch(/When I fill the "week" field with "\d{4}-W\d{2}"/);
+    expect(feature).toMatch(/When I fill the "tint" field with "#[0-9a-f]{6}"/);
+    expect(feature).not.toContain('"upload" field');
+    expect(feature).toContain("  Not filled (takes no typed value): upload");
+  });
+
+  it("leaves revealed, non-unique and collection elements out of the visibility table", () => {
+    const css = (id: string) => [{ strategy: "css" as const, value: `.${id}` }];
+    const feature = renderFeature(
+      baseModel([
+        { id: "menu", kind: "button", name: "Menu", locators: css("menu") },
+        { id: "item", kind: "link", name: "Settings", flags: { revealed: true }, locators: css("item") },
+        { id: "dup", kind: "button", name: "More", flags: { noUniqueLocator: true }, locators: css("dup") },
+        { id: "card", kind: "button", name: "Add", collection: "products", locators: css("card") },
+      ])
+    );
+    const rows = feature.split("\n").filter((l) => l.trim().startsWith("|"));
+
+    expect(rows).toHaveLength(2);
+    expect(feature).toContain("  Skipped (hidden until opened or not unique): item, dup, card");
+    expect(feature).not.toContain('"More" button');
+  });
+});
+
+describe("renderStepDefinitions", () => {
+  it("resolves display names through the preferred locator hint", () => {
+    const steps = renderStepDefinitions(baseModel(elements));
+
+    expect(steps).toContain('"Sign in": (page) => page.getByTestId("sign-in"),');
+    expect(steps).toContain('"Help (2)": (page) => page.getByRole("link", { name: "Help" }),');
+    expect(steps).not.toContain('"Pipe | Cell"');
+    expect(steps).toContain('When("I click the {string} button"');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview
+ * Unit tests for {@link renderHtmlReport}.
+ *
+ * @remarks
+ * These tests validate the rendered markup as text; they do not run a browser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderHtmlReport } from "../src/reporting/writeHtmlReport";
+import type { ReconReport } from "../src/reporting/types";
+
+const report: ReconReport = {
+  url: "https://www.example.com/",
+  scannedAt: "2026-01-18T00:00:00.000Z",
+  counts: { button: 1, link: 1, input: 0, select: 0, textarea: 0, other: 0 },
+  elements: [
+    {
+      type: "button",
+      tagName: "button",
+      role: "button",
+      accessibleName: "Save <draft>",
+      testId: "save",
+      css: '[data-testid="save"]',
+      disabled: true,
+    },
+    { type: "link", tagName: "a", href: "/help", css: "a", xpath: "/html[1]/body[1]/a[1]" },
+  ],
+};
+
+describe("renderHtmlReport", () => {
+  it("renders summary cards from counts", () => {
+    const html = renderHtmlReport(report);
+
+    expect(html).toContain('<div class="n">2</div><div class="l">total</div>');
+    expect(html).toContain('<div class="n">1</div><div class="l">button</div>');
+  });
+
+  it("renders one escaped, filterable table row per element", () => {
+    const html = renderHtmlReport(report);
+
+    expect(html.match(/<tr data-type=/g)).toHaveLength(2);
+    expect(html).toContain("Save &lt;draft&gt;");
+    expect(html).not.toContain("Save <draft>");
+    expect(html).toContain("<td>disabled</td>");
+  });
+
+  it("lists elements missing accessible names and test ids", () => {
+    const html = renderHtmlReport(report);
+
+    expect(html).toContain("Elements without an accessible name (1)");
+    expect(html).toContain("Elements without a test id (1)");
+  });
+
+  it("renders audit findings when the report has them", () => {
+    const html = renderHtmlReport({
+      ...report,
+      findings: [{ rule: "missing-accessible-name", severity: "error", element: 1, message: "a has no accessible name" }],
+    });
+
+    expect(html).toContain("Audit findings (1)");
+    expect(html).toContain('<tr class="error"><td>error</td><td><code>missing-accessible-name</code></td><td>1</td>');
+    expect(renderHtmlReport(report)).not.toContain("Audit findings");
+  });
+
+  it("references the annotated screenshot and element crops when captured", () => {
+    const html = renderHtmlReport({
+      ...report,
+      screenshot: "recon-report.png",
+      elements: [{ ...report.elements[0], screenshotCrop: "recon-report-crops/0.png" }],
+    });
+
+    expect(html).toContain('<img src="recon-report.png" alt="Annotated screenshot">');
+    expect(html).toContain('<img class="crop" src="recon-report-crops/0.png" alt="#0">');
+  });
+});
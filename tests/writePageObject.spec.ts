@@ -0,0 +1,220 @@
+/**
+ * @fileoverview
+ * Unit tests for {@link renderPageObject}.
+ *
+ * @remarks
+ * These tests validate the generated Page Object source text. They do not
+ * compile or execute the generated code.
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderPageObject, pageObjectClassName } from "../src/gen/writePageObject";
+import type { ElementModel, PageModel } from "../src/model/pageModel";
+
+/**
+ * Builds a baseline {@link PageModel} for unit testing.
+ *
+ * @param elements - Elements to include in the model.
+ * @returns A complete {@link PageModel} object.
+ */
+function baseModel(elements: ElementModel[] = []): PageModel {
+  return {
+    url: "https://www.example.com/",
+    domain: "example.com",
+    scannedAt: "2026-01-18T00:00:00.000Z",
+    elements,
+  };
+}
+
+describe("renderPageObject", () => {
+  it("derives the class name from the domain", () => {
+    expect(pageObjectClassName(baseModel())).toBe("ExampleComPage");
+    expect(renderPageObject(baseModel())).toContain("export class ExampleComPage {");
+  });
+
+  it("builds each getter from the first usable locator hint", () => {
+    const source = renderPageObject(
+      baseModel([
+        {
+          id: "button-submit-0",
+          kind: "button",
+          name: "Submit",
+          locators: [
+            { strategy: "role", role: "button" },
+            { strategy: "css", value: "#submit" },
+          ],
+        },
+        {
+          id: "input-email-1",
+          kind: "textbox",
+          name: "Email",
+          locators: [
+            { strategy: "testId", value: "email" },
+            { strategy: "label", value: "Email" },
+          ],
+        },
+      ])
+    );
+
+    expect(source).toContain("get submit(): Locator {");
+    expect(source).toContain('return this.page.locator("#submit");');
+    expect(source).toContain('return this.page.getByTestId("email");');
+  });
+
+  it("emits kind-appropriate action methods", () => {
+    const source = renderPageObject(
+      baseModel([
+        { id: "a", kind: "link", name: "Home", locators: [{ strategy: "role", role: "link", name: "Home" }] },
+        { id: "b", kind: "textarea", name: "Notes", locators: [{ strategy: "label", value: "Notes" }] },
+        { id: "c", kind: "select", name: "Country", locators: [{ strategy: "xpath", value: "//select[1]" }] },
+        { id: "d", kind: "other", name: "Widget", locators: [{ strategy: "css", value: "div.w" }] },
+        { id: "e", kind: "checkbox", name: "Terms", locators: [{ strategy: "label", value: "Terms" }] },
+        { id: "f", kind: "radio", name: "Pro plan", locators: [{ strategy: "label", value: "Pro plan" }] },
+      ])
+    );
+
+    expect(source).toContain("async clickHome(): Promise<void> {");
+    expect(source).toContain("async fillNotes(value: string): Promise<void> {");
+    expect(source).toContain("await this.country.selectOption(value);");
+    expect(source).toContain('this.page.locator("xpath=//select[1]")');
+    expect(source).not.toContain("Widget(");
+    expect(source).toContain("async setTermsChecked(checked = true): Promise<void> {");
+    expect(source).toContain("async chooseProPlan(): Promise<void> {");
+  });
+
+  it("keeps member names unique and skips elements without usable hints", () => {
+    const source = renderPageObject(
+      baseModel([
+        { id: "a", kind: "button", name: "Save", locators: [{ strategy: "css", value: "#a" }] },
+        { id: "b", kind: "button", name: "Save", locators: [{ strategy: "css", value: "#b" }] },
+        { id: "button-page-2", kind: "button", name: "Page", locators: [{ strategy: "css", value: "#c" }] },
+        { id: "button-empty-3", kind: "button", locators: [] },
+      ])
+    );
+
+    expect(source).toContain("get save(): Locator {");
+    expect(source).toContain("get save2(): Locator {");
+    expect(source).toContain("get page2(): Locator {");
+    expect(source).toContain("Skipped (no usable locator): button-empty-3");
+  });
+
+  it("keeps action method names clear of getter names", () => {
+    const source = renderPageObject(
+      baseModel([
+        { id: "a", kind: "textbox", name: "Email", locators: [{ strategy: "label", value: "Email" }] },
+        { id: "b", kind: "button", name: "Fill email", locators: [{ strategy: "css", value: "#fill" }] },
+      ])
+    );
+
+    expect(source).toContain("get fillEmail(): Locator {");
+    expect(source).toContain("async fillEmail2(value: string): Promise<void> {");
+    expect(source).toContain("async clickFillEmail(): Promise<void> {");
+  });
+
+  it("chains frameLocator calls for elements inside iframes", () => {
+    const source = renderPageObject(
+      baseModel([
+        {
+          id: "a",
+          kind: "button",
+          name: "Pay",
+          frames: ['iframe[name="checkout"]', "iframe >> nth=0"],
+          locators: [{ strategy: "testId", value: "pay" }],
+        },
+      ])
+    );
+
+    expect(source).toContain(
+      'return this.page.frameLocator("iframe[name=\\"checkout\\"]").frameLocator("iframe >> nth=0").getByTestId("pay");'
+    );
+  });
+
+  it("exposes section elements through component classes scoped to the section root", () => {
+    const model = baseModel([
+      { id: "search", kind: "textbox", name: "Search box", section: "header", locators: [{ strategy: "placeholder", value: "Search" }] },
+      { id: "home", kind: "link", name: "Home", section: "nav-primary", locators: [{ strategy: "role", role: "link", name: "Home" }] },
+      { id: "deep", kind: "button", name: "Deep", section: "header", locators: [{ strategy: "xpath", value: "/html/body/header/button" }] },
+      { id: "help", kind: "link", name: "Help", locators: [{ strategy: "css", value: "#help" }] },
+    ]);
+    model.sections = [
+      { id: "header", kind: "header", locator: { strategy: "css", value: "header" }, elements: ["search", "deep"] },
+      {
+        id: "nav-primary",
+        kind: "nav",
+        name: "Primary",
+        locator: { strategy: "role", role: "navigation", name: "Primary" },
+        elements: ["home"],
+      },
+    ];
+
+    const source = renderPageObject(model);
+
+    expect(source).toContain("get header(): HeaderSection {");
+    expect(source).toContain('return new HeaderSection(this.page.locator("header"));');
+    expect(source).toContain('return new NavPrimarySection(this.page.getByRole("navigation", { name: "Primary" }));');
+    expect(source).toContain("export class HeaderSection {\n  constructor(readonly root: Locator) {}");
+    expect(source).toContain('return this.root.getByPlaceholder("Search");');
+    expect(source).toContain("async fillSearchBox(value: string): Promise<void> {");
+    expect(source).toContain('return this.root.getByRole("link", { name: "Home" });');
+    // Absolute XPath cannot be chained from a section root
+    expect(source).toContain('return this.page.locator("xpath=/html/body/header/button");');
+    expect(source).toContain('return this.page.locator("#help");');
+  });
+
+  it("drops the section's shadow hosts from CSS chained from the section root", () => {
+    const model = baseModel([
+      { id: "menu", kind: "link", name: "Menu", section: "nav", locators: [{ strategy: "css", value: "x-shell >> a.menu" }] },
+      { id: "cart", kind: "button", name: "Cart", section: "header", locators: [{ strategy: "css", value: "x-cart >> button.go" }] },
+      { id: "tab", kind: "button", name: "Tab", section: "aside", locators: [{ strategy: "css", value: "x-tabs >> button" }] },
+    ]);
+    model.sections = [
+      { id: "nav", kind: "nav", locator: { strategy: "css", value: "x-shell >> nav" }, elements: ["menu"] },
+      { id: "header", kind: "header", locator: { strategy: "css", value: "header" }, elements: ["cart"] },
+      { id: "aside", kind: "aside", name: "Tabs", locator: { strategy: "role", role: "complementary", name: "Tabs" }, elements: ["tab"] },
+    ];
+
+    const source = renderPageObject(model);
+
+    // The section sits in x-shell's shadow root, so the element resolves from it without the host
+    expect(source).toContain('return this.root.locator("a.menu");');
+    // A shadow host inside a light-DOM section is found below the section root
+    expect(source).toContain('return this.root.locator("x-cart >> button.go");');
+    // The hosts of a section found by role are unknown
+    expect(source).toContain('return this.page.locator("x-tabs >> button");');
+    expect(source).not.toContain("AsideSection");
+  });
+
+  it("renders repeated items as a collection with nth and filter accessors", () => {
+    const model = baseModel([
+      { id: "add-1", kind: "button", name: "Add to cart", collection: "grid-products", locators: [{ strategy: "role", role: "button", name: "Add to cart" }] },
+      { id: "title-1", kind: "link", name: "Shoe", collection: "grid-products", locators: [{ strategy: "css", value: "a.title" }] },
+      { id: "add-2", kind: "button", name: "Add to cart", collection: "grid-products", locators: [{ strategy: "role", role: "button", name: "Add to cart" }] },
+    ]);
+    model.collections = [
+      {
+        id: "grid-products",
+        kind: "grid",
+        name: "products",
+        itemLocator: { strategy: "css", value: "div.card" },
+        count: 40,
+        fields: [
+          { name: "Add to cart", kind: "button", locator: { strategy: "role", role: "button", name: "Add to cart" }, elements: ["add-1", "add-2"] },
+          { name: "title", kind: "link", locator: { strategy: "css", value: "a.title" }, elements: ["title-1"] },
+        ],
+      },
+    ];
+
+    const source = renderPageObject(model);
+
+    expect(source).toContain('/** grid "products" (40 items at scan time) */');
+    expect(source).toContain('get products(): ProductsCollection {\n    return new ProductsCollection(this.page.locator("div.card"));');
+    expect(source).toContain("nth(index: number): ProductsItem {\n    return new ProductsItem(this.items.nth(index));");
+    expect(source).toContain("filter(options: { hasText?: string | RegExp; has?: Locator }): ProductsItem {");
+    expect(source).toContain("export class ProductsItem {\n  constructor(readonly root: Locator) {}");
+    expect(source).toContain('return this.root.getByRole("button", { name: "Add to cart" });');
+    expect(source).toContain("async clickAddToCart(): Promise<void> {");
+    expect(source).toContain('return this.root.locator("a.title");');
+    // Folded elements are not repeated on the page class
+    expect(source).not.toContain('this.page.getByRole("button", { name: "Add to cart" })');
+  });
+});